@@ -0,0 +1,90 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { readFile } from 'fs/promises';
+import * as path from 'path';
+import { TrackCatalog } from '../src/classes/TrackCatalog';
+import { TrackBuilder } from '../src/classes/TrackBuilder';
+import { TrackManifest } from '../src/interfaces/TrackManifest';
+import { TrackDesign } from '../src/interfaces/TrackDesign';
+import { CarCatalog } from '../src/classes/CarCatalog';
+import { VehicleDefinition } from '../src/interfaces/VehicleDefinition';
+
+export interface ServerTrack {
+    manifest: TrackManifest;
+    model: THREE.Group;
+}
+
+export interface ServerVehicle {
+    definition: VehicleDefinition;
+    model: THREE.Group;
+}
+
+export interface ServerAssets {
+    cars: Map<string, ServerVehicle>;   // Par identifiant de voiture
+    tracks: Map<string, ServerTrack>;   // Par identifiant de circuit
+}
+
+export class AssetLoader {
+    /**
+     * Charge un modèle glTF depuis le disque. Le serveur n'a besoin que de la géométrie :
+     * les textures sont remplacées par des textures vides (leur décodage nécessite le DOM).
+     */
+    public static async loadModel(filePath: string): Promise<THREE.Group> {
+        const data = await readFile(filePath);
+        const buffer = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength);
+
+        const loader = new GLTFLoader();
+        loader.register(() => ({
+            name: 'server_skip_textures',
+            loadTexture: () => Promise.resolve(new THREE.Texture())
+        }));
+
+        const gltf = await loader.parseAsync(buffer, path.dirname(filePath) + path.sep);
+        return gltf.scene;
+    }
+
+    /**
+     * Charge un circuit depuis un fichier : tracé de l'éditeur (.json exporté), manifeste de circuit
+     * (.json, modèle relatif au dossier public) ou modèle glTF seul (grille par défaut)
+     */
+    public static async loadTrackFile(filePath: string, publicDir: string): Promise<ServerTrack> {
+        if (/\.(glb|gltf)$/i.test(filePath)) {
+            const manifest = TrackCatalog.parse({ id: path.basename(filePath).replace(/\.[^.]+$/, ''), model: filePath });
+            return { manifest, model: await AssetLoader.loadModel(filePath) };
+        }
+
+        const data = JSON.parse(await readFile(filePath, 'utf-8'));
+        if (Array.isArray(data?.points)) {
+            const manifest = TrackCatalog.fromDesign(data as TrackDesign);
+            return { manifest, model: TrackBuilder.build(manifest.design!) };
+        }
+        const manifest = TrackCatalog.parse(data);
+        return {
+            manifest,
+            model: manifest.design ? TrackBuilder.build(manifest.design) : await AssetLoader.loadModel(path.join(publicDir, manifest.model))
+        };
+    }
+
+    /**
+     * Charge les voitures et les circuits des catalogues utilisés par le client depuis le dossier public
+     */
+    public static async loadServerAssets(publicDir: string): Promise<ServerAssets> {
+        const readJson = async (url: string) => JSON.parse(await readFile(path.join(publicDir, url), 'utf-8'));
+        const [definitions, manifests] = await Promise.all([CarCatalog.load(readJson), TrackCatalog.load(readJson)]);
+
+        // Plusieurs voitures peuvent partager un modèle : chaque fichier n'est chargé qu'une fois.
+        // Les circuits de l'éditeur sont construits depuis leur tracé.
+        const modelUrls = Array.from(new Set([...definitions, ...manifests.filter(manifest => !manifest.design)].map(entry => entry.model)));
+        const loaded = await Promise.all(modelUrls.map(url => AssetLoader.loadModel(path.join(publicDir, url))));
+        const models = new Map(modelUrls.map((url, index) => [url, loaded[index]]));
+
+        const cars = new Map<string, ServerVehicle>();
+        definitions.forEach(definition => cars.set(definition.id, { definition, model: models.get(definition.model)! }));
+        const tracks = new Map<string, ServerTrack>();
+        manifests.forEach(manifest => tracks.set(manifest.id, {
+            manifest,
+            model: manifest.design ? TrackBuilder.build(manifest.design) : models.get(manifest.model)!
+        }));
+        return { cars, tracks };
+    }
+}
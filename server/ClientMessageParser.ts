@@ -0,0 +1,84 @@
+import { ClientMessage } from '../src/interfaces/Network';
+import { ReplayInputFrame } from '../src/interfaces/Replay';
+import { WeatherType } from '../src/interfaces/Weather';
+
+type Fields = Record<string, unknown>;
+
+/**
+ * Vérifie la forme des messages reçus des clients avant qu'ils n'atteignent les salons :
+ * une valeur non numérique passée à la simulation fausserait la course de tous les joueurs
+ */
+export class ClientMessageParser {
+    private static readonly LIMITS = {
+        MAX_NAME_LENGTH: 40,        // Nom de salon ou de joueur, en caractères
+        MAX_ID_LENGTH: 64           // Identifiant de salon, de circuit, de voiture ou de météo
+    };
+
+    /**
+     * @returns Le message validé, commandes ramenées dans leurs bornes, ou null s'il est mal formé
+     */
+    public static parse(value: unknown): ClientMessage | null {
+        if (!ClientMessageParser.isObject(value)) return null;
+        const limits = ClientMessageParser.LIMITS;
+
+        switch (value.type) {
+            case 'listRooms':
+            case 'leaveRoom':
+            case 'startRace':
+            case 'ready':
+                return { type: value.type };
+            case 'createRoom': {
+                const roomName = ClientMessageParser.parseString(value.roomName, limits.MAX_NAME_LENGTH);
+                const playerName = ClientMessageParser.parseString(value.playerName, limits.MAX_NAME_LENGTH);
+                const vehicleId = ClientMessageParser.parseString(value.vehicleId, limits.MAX_ID_LENGTH);
+                const trackId = ClientMessageParser.parseString(value.trackId, limits.MAX_ID_LENGTH);
+                // Météo absente ou inconnue (client plus ancien) : le serveur choisit le temps sec
+                const weather = value.weather === undefined ? '' : ClientMessageParser.parseString(value.weather, limits.MAX_ID_LENGTH);
+                if (roomName === null || playerName === null || vehicleId === null || trackId === null || weather === null) return null;
+                return { type: 'createRoom', roomName, playerName, vehicleId, trackId, weather: weather as WeatherType };
+            }
+            case 'joinRoom': {
+                const roomId = ClientMessageParser.parseString(value.roomId, limits.MAX_ID_LENGTH);
+                const playerName = ClientMessageParser.parseString(value.playerName, limits.MAX_NAME_LENGTH);
+                const vehicleId = ClientMessageParser.parseString(value.vehicleId, limits.MAX_ID_LENGTH);
+                if (roomId === null || playerName === null || vehicleId === null) return null;
+                return { type: 'joinRoom', roomId, playerName, vehicleId };
+            }
+            case 'input': {
+                const input = ClientMessageParser.parseInput(value.input);
+                if (!Number.isSafeInteger(value.sequence) || (value.sequence as number) < 0 || !input) return null;
+                return { type: 'input', sequence: value.sequence as number, input };
+            }
+            default:
+                return null;
+        }
+    }
+
+    private static parseInput(value: unknown): ReplayInputFrame | null {
+        if (!ClientMessageParser.isObject(value)) return null;
+        const { throttle, brake, steering, handbrake, reset, nitro } = value;
+        if (!ClientMessageParser.isFiniteNumber(throttle) || !ClientMessageParser.isFiniteNumber(brake) || !ClientMessageParser.isFiniteNumber(steering)) return null;
+        if (typeof handbrake !== 'boolean' || typeof reset !== 'boolean' || typeof nitro !== 'boolean') return null;
+
+        return {
+            throttle: Math.min(Math.max(throttle, 0), 1),
+            brake: Math.min(Math.max(brake, 0), 1),
+            steering: Math.min(Math.max(steering, -1), 1),
+            handbrake,
+            reset,
+            nitro
+        };
+    }
+
+    private static parseString(value: unknown, maxLength: number): string | null {
+        return typeof value === 'string' && value.length <= maxLength ? value : null;
+    }
+
+    private static isFiniteNumber(value: unknown): value is number {
+        return typeof value === 'number' && Number.isFinite(value);
+    }
+
+    private static isObject(value: unknown): value is Fields {
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+    }
+}
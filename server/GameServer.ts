@@ -0,0 +1,213 @@
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { performance } from 'perf_hooks';
+import { Room, ServerClient } from './Room';
+import { ClientMessageParser } from './ClientMessageParser';
+import { ServerAssets } from './AssetLoader';
+import { CarConfig } from '../src/interfaces/CarConfig';
+import { ClientMessage, NetworkConfig, RoomInfo, ServerMessage } from '../src/interfaces/Network';
+import { DEFAULT_WEATHER_TYPE, WEATHER_TYPES } from '../src/interfaces/Weather';
+
+interface ConnectedClient extends ServerClient {
+    socket: WebSocket;
+    room: Room | null;
+}
+
+/**
+ * Serveur de jeu : salle d'attente (liste, création et accès aux salons)
+ * et boucle de simulation à pas fixe de tous les salons
+ */
+export class GameServer {
+    private server: WebSocketServer;
+    private assets: ServerAssets;
+    private config: NetworkConfig;
+    private carConfig: CarConfig;
+    private clients: Map<WebSocket, ConnectedClient> = new Map();
+    private rooms: Map<string, Room> = new Map();
+    private nextId: number = 1;
+
+    private loop: ReturnType<typeof setInterval>;
+    private lastTime: number = performance.now();
+    private accumulator: number = 0;
+
+    private static readonly LOOP_CONFIG = {
+        MAX_STEPS_PER_TICK: 5      // Évite l'emballement si le serveur prend du retard
+    };
+
+    constructor(assets: ServerAssets, config: NetworkConfig, carConfig: CarConfig) {
+        this.assets = assets;
+        this.config = config;
+        this.carConfig = carConfig;
+
+        this.server = new WebSocketServer({ port: config.port });
+        this.server.on('connection', (socket) => this.handleConnection(socket));
+
+        this.loop = setInterval(() => this.update(), 1000 / config.tickRate);
+    }
+
+    private handleConnection(socket: WebSocket): void {
+        const client: ConnectedClient = {
+            id: `${this.nextId++}`,
+            name: 'Pilote',
+            socket,
+            room: null,
+            send: (message: ServerMessage) => {
+                if (socket.readyState === WebSocket.OPEN) {
+                    socket.send(JSON.stringify(message));
+                }
+            }
+        };
+        this.clients.set(socket, client);
+        console.log(`Client ${client.id} connecté`);
+
+        socket.on('message', (data) => this.handleRawMessage(client, data));
+        socket.on('close', () => {
+            this.leaveRoom(client);
+            this.clients.delete(socket);
+            console.log(`Client ${client.id} déconnecté`);
+        });
+
+        client.send({ type: 'welcome', playerId: client.id });
+    }
+
+    private handleRawMessage(client: ConnectedClient, data: RawData): void {
+        let message: ClientMessage | null;
+        try {
+            message = ClientMessageParser.parse(JSON.parse(data.toString()));
+        } catch (error) {
+            message = null;
+        }
+        if (!message) {
+            client.send({ type: 'error', message: 'Message invalide' });
+            return;
+        }
+
+        // Un message mal formé ne doit pas arrêter le serveur
+        try {
+            this.handleMessage(client, message);
+        } catch (error) {
+            console.error(`Message invalide du client ${client.id}:`, error);
+            client.send({ type: 'error', message: 'Message invalide' });
+        }
+    }
+
+    private handleMessage(client: ConnectedClient, message: ClientMessage): void {
+        switch (message.type) {
+            case 'listRooms':
+                client.send({ type: 'rooms', rooms: this.getRoomList() });
+                break;
+            case 'createRoom': {
+                const track = this.assets.tracks.get(message.trackId);
+                if (!track) {
+                    client.send({ type: 'error', message: `Circuit inconnu : ${message.trackId}` });
+                    return;
+                }
+                // Météo inconnue (client plus ancien) : temps sec
+                const weather = WEATHER_TYPES.find(type => type === message.weather) ?? DEFAULT_WEATHER_TYPE;
+                const room = new Room(
+                    `room-${this.nextId++}`,
+                    message.roomName.trim() || `Salon de ${message.playerName}`,
+                    track,
+                    weather,
+                    this.config,
+                    this.carConfig
+                );
+                this.rooms.set(room.getId(), room);
+                console.log(`Salon ${room.getId()} créé`);
+                this.joinRoom(client, room, message.playerName, message.vehicleId);
+                break;
+            }
+            case 'joinRoom': {
+                const room = this.rooms.get(message.roomId);
+                if (!room) {
+                    client.send({ type: 'error', message: "Ce salon n'existe plus" });
+                    return;
+                }
+                this.joinRoom(client, room, message.playerName, message.vehicleId);
+                break;
+            }
+            case 'leaveRoom':
+                this.leaveRoom(client);
+                client.send({ type: 'roomLeft' });
+                break;
+            case 'startRace': {
+                const error = client.room ? client.room.startRace(client.id) : "Vous n'êtes dans aucun salon";
+                if (error) {
+                    client.send({ type: 'error', message: error });
+                }
+                break;
+            }
+            case 'ready':
+                client.room?.setReady(client.id);
+                break;
+            case 'input':
+                client.room?.queueInput(client.id, message.sequence, message.input);
+                break;
+            default:
+                client.send({ type: 'error', message: 'Message inconnu' });
+                break;
+        }
+    }
+
+    private joinRoom(client: ConnectedClient, room: Room, playerName: string, vehicleId: string): void {
+        this.leaveRoom(client);
+        client.name = playerName.trim().slice(0, 20) || `Pilote ${client.id}`;
+
+        // Une voiture inconnue du serveur est remplacée par la première du garage
+        const vehicle = this.assets.cars.get(vehicleId) ?? this.assets.cars.values().next().value!;
+        if (!room.addPlayer(client, vehicle)) {
+            client.send({ type: 'error', message: 'Salon complet ou course en cours' });
+            this.removeIfEmpty(room);
+            return;
+        }
+
+        client.room = room;
+        client.send({ type: 'roomJoined', room: room.getInfo() });
+    }
+
+    private leaveRoom(client: ConnectedClient): void {
+        const room = client.room;
+        if (!room) return;
+
+        client.room = null;
+        room.removePlayer(client.id);
+        this.removeIfEmpty(room);
+    }
+
+    private removeIfEmpty(room: Room): void {
+        if (room.isEmpty()) {
+            this.rooms.delete(room.getId());
+            console.log(`Salon ${room.getId()} fermé`);
+        }
+    }
+
+    private getRoomList(): RoomInfo[] {
+        return Array.from(this.rooms.values()).map(room => room.getInfo());
+    }
+
+    /**
+     * Avance tous les salons d'autant de pas fixes que le temps écoulé
+     */
+    private update(): void {
+        const now = performance.now();
+        const timestep = 1 / this.config.tickRate;
+        this.accumulator += (now - this.lastTime) / 1000;
+        this.lastTime = now;
+
+        let steps = 0;
+        while (this.accumulator >= timestep && steps < GameServer.LOOP_CONFIG.MAX_STEPS_PER_TICK) {
+            this.rooms.forEach(room => room.step(timestep));
+            this.accumulator -= timestep;
+            steps++;
+        }
+        // Abandonner le retard accumulé au-delà de la limite
+        if (steps === GameServer.LOOP_CONFIG.MAX_STEPS_PER_TICK) {
+            this.accumulator = 0;
+        }
+    }
+
+    public close(): void {
+        clearInterval(this.loop);
+        this.clients.forEach(client => client.socket.close());
+        this.server.close();
+    }
+}
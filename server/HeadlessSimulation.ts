@@ -0,0 +1,183 @@
+import * as THREE from 'three';
+import { Car } from '../src/classes/Car';
+import { PhysicsWorld } from '../src/classes/PhysicsWorld';
+import { TrackPhysics } from '../src/classes/TrackPhysics';
+import { TrackElementRegistry } from '../src/classes/TrackElementRegistry';
+import { RaceManager } from '../src/classes/RaceManager';
+import { RacingLine } from '../src/classes/RacingLine';
+import { StartingGrid } from '../src/classes/StartingGrid';
+import { AIDriver } from '../src/classes/AIDriver';
+import { ScriptedInputSource } from '../src/classes/ScriptedInputSource';
+import { AISkill, AISkillLevel } from '../src/interfaces/AIConfig';
+import { CarConfig } from '../src/interfaces/CarConfig';
+import { CarInputSource, InputScript } from '../src/interfaces/CarInput';
+import { DEFAULT_SCENE_CONFIG } from '../src/interfaces/SceneConfig';
+import { TrackManifest } from '../src/interfaces/TrackManifest';
+import { DEFAULT_WEATHER_TYPE, WeatherType } from '../src/interfaces/Weather';
+import { ServerTrack, ServerVehicle } from './AssetLoader';
+
+export interface HeadlessSimulationOptions {
+    weather?: WeatherType;          // Météo de départ, temps sec par défaut ; les prévisions du circuit s'appliquent ensuite
+    carConfig?: CarConfig;          // Performances communes, celles du jeu par défaut
+    respawn?: boolean;              // Replacement automatique sur la piste (activé par défaut)
+    startTimers?: boolean;          // Chronomètre lancé dès l'ajout de la voiture (activé par défaut)
+}
+
+/**
+ * Voiture de la simulation et ce qui la pilote
+ */
+export interface HeadlessCar {
+    car: Car;
+    slot: number;                   // Place sur la grille de départ
+    input: CarInputSource;
+    raceManager: RaceManager;
+    driver: AIDriver | null;        // Pilote IA, qui calcule ses commandes avant chaque pas
+}
+
+/**
+ * Simulation sans affichage ni DOM : voitures, monde physique et collisions du circuit, au même pas fixe
+ * que le jeu mais aussi vite que possible. Sert aux tests de comportement, à l'entraînement de l'IA
+ * et à la simulation côté serveur.
+ */
+export class HeadlessSimulation {
+    public static readonly FIXED_TIME_STEP = 1 / 60;
+
+    private manifest: TrackManifest;
+    private trackModel: THREE.Group;
+    private carConfig: CarConfig;
+    private respawn: boolean;
+    private startTimers: boolean;
+    private physicsWorld: PhysicsWorld;
+    private racingLine: RacingLine | null;
+    private cars: HeadlessCar[] = [];
+    private time: number = 0;
+    private stepCount: number = 0;
+
+    constructor(track: ServerTrack, options: HeadlessSimulationOptions = {}) {
+        this.manifest = track.manifest;
+        this.carConfig = options.carConfig ?? DEFAULT_SCENE_CONFIG.car;
+        this.respawn = options.respawn ?? true;
+        this.startTimers = options.startTimers ?? true;
+        this.physicsWorld = new PhysicsWorld();
+        this.physicsWorld.getWeather().configure(options.weather ?? DEFAULT_WEATHER_TYPE, this.manifest.forecast);
+
+        // Même ordre que le jeu : les checkpoints sont exclus des collisions du circuit
+        this.trackModel = track.model.clone(true);
+        const raceManager = new RaceManager();
+        raceManager.loadFromTrack(this.trackModel, this.manifest.checkpoints);
+        new TrackPhysics(this.physicsWorld.getWorld(), this.physicsWorld.getCarMaterial()).createTrackBody(this.trackModel);
+        const trackElements = new TrackElementRegistry();
+        trackElements.loadFromTrack(this.trackModel);
+        this.physicsWorld.setTrackElements(trackElements);
+        this.racingLine = RacingLine.fromTrack(this.trackModel, raceManager.getCheckpoints(), raceManager.getFinishLine());
+    }
+
+    /**
+     * Ajoute une voiture sur la première place libre de la grille ; son chronomètre démarre aussitôt
+     * sauf si l'option startTimers est désactivée
+     * @param input Commandes de la voiture (script, IA, réseau...)
+     */
+    public addCar(vehicle: ServerVehicle, input: CarInputSource, driver: AIDriver | null = null): HeadlessCar {
+        let slot = 0;
+        while (this.cars.some(other => other.slot === slot)) {
+            slot++;
+        }
+
+        const car = new Car(vehicle.model.clone(true), { ...this.carConfig, ...vehicle.definition.performance }, input, vehicle.definition.handling);
+        car.setRandomSeed(slot + 1);
+        if (this.respawn) {
+            car.enableRespawn(this.racingLine);
+        }
+        this.physicsWorld.addCar(car);
+        StartingGrid.placeCar(car, this.manifest.grid, slot);
+
+        const raceManager = new RaceManager();
+        raceManager.loadFromTrack(this.trackModel, this.manifest.checkpoints);
+        if (this.startTimers) {
+            raceManager.start();
+        }
+
+        const headlessCar: HeadlessCar = { car, slot, input, raceManager, driver };
+        this.cars.push(headlessCar);
+        return headlessCar;
+    }
+
+    /**
+     * Retire une voiture du monde physique ; sa place sur la grille redevient libre
+     */
+    public removeCar(car: Car): void {
+        this.physicsWorld.removeCar(car);
+        this.cars = this.cars.filter(other => other.car !== car);
+    }
+
+    /**
+     * Replace une voiture sur sa place de la grille
+     */
+    public placeOnGrid({ car, slot }: HeadlessCar): void {
+        StartingGrid.placeCar(car, this.manifest.grid, slot);
+    }
+
+    /**
+     * Ajoute une voiture pilotée par un script évalué au temps de simulation
+     */
+    public addScriptedCar(vehicle: ServerVehicle, script: InputScript): HeadlessCar {
+        return this.addCar(vehicle, new ScriptedInputSource(script));
+    }
+
+    /**
+     * Ajoute une voiture pilotée par l'IA du jeu (nécessite la trajectoire du circuit)
+     */
+    public addAICar(vehicle: ServerVehicle, skill: AISkillLevel | AISkill = 'medium'): HeadlessCar {
+        if (!this.racingLine) {
+            throw new Error(`Le circuit ${this.manifest.id} n'a pas de trajectoire : aucune IA possible`);
+        }
+        const driver = new AIDriver(this.racingLine, skill, this.cars.length * 1.3);
+        return this.addCar(vehicle, driver, driver);
+    }
+
+    /**
+     * Avance la simulation d'un pas fixe : commandes, voitures, monde physique puis checkpoints
+     * @param deltaTime Durée du pas en s (celui du jeu par défaut)
+     */
+    public step(deltaTime: number = HeadlessSimulation.FIXED_TIME_STEP): void {
+        this.cars.forEach(({ car, input, driver }) => {
+            driver?.update(deltaTime, car);
+            if (input instanceof ScriptedInputSource) {
+                input.update(this.time);
+            }
+            car.update(deltaTime);
+        });
+        this.physicsWorld.update(deltaTime);
+        this.cars.forEach(({ car, raceManager }) => {
+            const body = car.getBody();
+            if (body) {
+                raceManager.update(deltaTime, body);
+            }
+        });
+
+        this.time += deltaTime;
+        this.stepCount++;
+    }
+
+    /**
+     * Enchaîne les pas sans attendre jusqu'à la durée demandée ou jusqu'à la condition d'arrêt
+     * @param duration Durée maximale à simuler en s
+     * @param until Testée après chaque pas, arrête la simulation quand elle renvoie true
+     * @returns Nombre de pas effectués
+     */
+    public run(duration: number, until?: (simulation: HeadlessSimulation) => boolean): number {
+        const steps = Math.round(duration / HeadlessSimulation.FIXED_TIME_STEP);
+        for (let i = 0; i < steps; i++) {
+            this.step();
+            if (until?.(this)) return i + 1;
+        }
+        return steps;
+    }
+
+    public getTime(): number { return this.time; }
+    public getStepCount(): number { return this.stepCount; }
+    public getCars(): HeadlessCar[] { return this.cars; }
+    public getManifest(): TrackManifest { return this.manifest; }
+    public getRacingLine(): RacingLine | null { return this.racingLine; }
+    public getPhysicsWorld(): PhysicsWorld { return this.physicsWorld; }
+}
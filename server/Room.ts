@@ -0,0 +1,290 @@
+import { ReplayChannel } from '../src/classes/ReplayChannel';
+import { NetworkInputSource } from '../src/classes/NetworkInputSource';
+import { CarConfig } from '../src/interfaces/CarConfig';
+import { DEFAULT_RACE_CONFIG } from '../src/interfaces/RaceConfig';
+import { TrackManifest } from '../src/interfaces/TrackManifest';
+import { WeatherType } from '../src/interfaces/Weather';
+import { ReplayInputFrame } from '../src/interfaces/Replay';
+import { NetworkConfig, NetworkCarState, RoomInfo, RoomStatus, ServerMessage } from '../src/interfaces/Network';
+import { ServerTrack, ServerVehicle } from './AssetLoader';
+import { HeadlessCar, HeadlessSimulation } from './HeadlessSimulation';
+
+/**
+ * Client connecté au serveur
+ */
+export interface ServerClient {
+    id: string;
+    name: string;
+    send(message: ServerMessage): void;
+}
+
+/**
+ * Joueur du salon et sa voiture dans la simulation, dont les tours détectent la fin de la course
+ */
+interface RoomMember extends HeadlessCar {
+    client: ServerClient;
+    vehicleId: string;
+    input: NetworkInputSource;
+    hasFinished: boolean;
+    pendingInputs: { sequence: number, input: ReplayInputFrame }[];
+    lastInput: number;
+    isReady: boolean;
+}
+
+/**
+ * Salon de course : simule la physique de toutes les voitures du salon
+ * à partir des commandes reçues et diffuse leur état aux joueurs
+ */
+export class Room {
+    private id: string;
+    private name: string;
+    private config: NetworkConfig;
+    private manifest: TrackManifest;
+    private weather: WeatherType;
+    private simulation: HeadlessSimulation;
+    private members: RoomMember[] = [];
+    private hostId: string | null = null;
+    private status: RoomStatus = 'waiting';
+    private tick: number = 0;
+    private loadingTime: number = 0;
+    private finishTimer: number | null = null;     // Temps restant aux autres joueurs après la première arrivée
+
+    private static readonly INPUT_CONFIG = {
+        MAX_BUFFERED_INPUTS: 10    // Au-delà, les commandes les plus anciennes sont abandonnées
+    };
+
+    constructor(id: string, name: string, track: ServerTrack, weather: WeatherType, config: NetworkConfig, carConfig: CarConfig) {
+        this.id = id;
+        this.name = name;
+        this.config = config;
+        this.manifest = track.manifest;
+        this.weather = weather;
+        // Les chronomètres ne démarrent qu'au départ de la course
+        this.simulation = new HeadlessSimulation(track, { weather, carConfig, startTimers: false });
+    }
+
+    /**
+     * Ajoute un joueur sur la première place libre de la grille
+     * @returns false si le salon est complet ou la course déjà lancée
+     */
+    public addPlayer(client: ServerClient, vehicle: ServerVehicle): boolean {
+        if (this.status !== 'waiting' || this.members.length >= this.config.maxPlayersPerRoom) {
+            return false;
+        }
+
+        const input = new NetworkInputSource();
+        this.members.push({
+            ...this.simulation.addCar(vehicle, input), client, vehicleId: vehicle.definition.id, input,
+            hasFinished: false, pendingInputs: [], lastInput: 0, isReady: false
+        });
+        if (!this.hostId) {
+            this.hostId = client.id;
+        }
+
+        this.broadcast({ type: 'roomUpdated', room: this.getInfo() });
+        return true;
+    }
+
+    public removePlayer(clientId: string): void {
+        const member = this.members.find(other => other.client.id === clientId);
+        if (!member) return;
+
+        this.simulation.removeCar(member.car);
+        this.members = this.members.filter(other => other !== member);
+
+        // L'hôte suivant est le plus ancien joueur du salon
+        if (this.hostId === clientId) {
+            this.hostId = this.members[0]?.client.id ?? null;
+        }
+        if (this.members.length === 0) {
+            this.status = 'waiting';
+        }
+
+        this.broadcast({ type: 'roomUpdated', room: this.getInfo() });
+        this.startIfEveryoneReady();
+        this.endIfEveryoneFinished();
+    }
+
+    /**
+     * Replace les voitures sur la grille et demande aux joueurs de charger la course
+     * @returns Message d'erreur si la demande est refusée
+     */
+    public startRace(clientId: string): string | null {
+        if (clientId !== this.hostId) {
+            return "Seul l'hôte peut lancer la course";
+        }
+        if (this.status === 'loading') {
+            return 'La course est déjà en préparation';
+        }
+
+        this.members.forEach((member) => {
+            this.simulation.placeOnGrid(member);
+            member.input.setInput({ throttle: 0, brake: 0, steering: 0, handbrake: false, reset: false, nitro: false });
+            member.pendingInputs = [];
+            member.isReady = false;
+            member.hasFinished = false;
+            member.raceManager.reset();
+        });
+
+        this.simulation.getPhysicsWorld().getWeather().reset();
+        this.status = 'loading';
+        this.loadingTime = 0;
+        this.finishTimer = null;
+        this.broadcast({ type: 'raceStarting', room: this.getInfo() });
+        return null;
+    }
+
+    /**
+     * Un joueur a chargé la course : elle démarre quand tout le monde est prêt
+     */
+    public setReady(clientId: string): void {
+        const member = this.members.find(other => other.client.id === clientId);
+        if (!member || this.status !== 'loading') return;
+
+        member.isReady = true;
+        this.startIfEveryoneReady();
+    }
+
+    private startIfEveryoneReady(): void {
+        if (this.status !== 'loading' || this.members.some(member => !member.isReady)) return;
+        this.beginRace();
+    }
+
+    private beginRace(): void {
+        this.status = 'racing';
+        this.members.forEach(member => member.raceManager.start());
+        this.broadcast({ type: 'raceStart' });
+        console.log(`Salon ${this.name} : départ avec ${this.members.length} joueur(s)`);
+    }
+
+    /**
+     * Arrivée d'un joueur : la course se termine quand tous les joueurs sont arrivés
+     * ou à la fin du délai laissé aux retardataires, comme dans le jeu
+     */
+    private updateFinish(deltaTime: number): void {
+        this.members.forEach((member) => {
+            if (member.hasFinished || member.raceManager.getLaps().length < this.manifest.laps) return;
+
+            member.hasFinished = true;
+            member.raceManager.stop();
+            if (this.finishTimer === null) {
+                this.finishTimer = DEFAULT_RACE_CONFIG.finishTimeout;
+            }
+        });
+
+        if (this.finishTimer !== null) {
+            this.finishTimer -= deltaTime;
+            if (this.finishTimer <= 0) {
+                this.endRace();
+                return;
+            }
+        }
+        this.endIfEveryoneFinished();
+    }
+
+    private endIfEveryoneFinished(): void {
+        if (this.status !== 'racing' || this.members.length === 0 || this.members.some(member => !member.hasFinished)) return;
+        this.endRace();
+    }
+
+    /**
+     * Fin de la course : retour au salon, qui accepte de nouveau des joueurs jusqu'au prochain départ
+     */
+    private endRace(): void {
+        this.status = 'waiting';
+        this.finishTimer = null;
+        this.members.forEach((member) => {
+            member.raceManager.stop();
+            member.pendingInputs = [];
+        });
+        this.broadcast({ type: 'roomUpdated', room: this.getInfo() });
+        console.log(`Salon ${this.name} : course terminée`);
+    }
+
+    /**
+     * Met en file une commande d'un joueur (appliquée au prochain pas de simulation)
+     * Les commandes reçues avant le départ sont ignorées : les voitures restent immobiles sur la grille
+     */
+    public queueInput(clientId: string, sequence: number, input: ReplayInputFrame): void {
+        const member = this.members.find(other => other.client.id === clientId);
+        if (!member || this.status !== 'racing' || sequence <= member.lastInput) return;
+
+        member.pendingInputs.push({ sequence, input: ReplayChannel.quantize(input) });
+        if (member.pendingInputs.length > Room.INPUT_CONFIG.MAX_BUFFERED_INPUTS) {
+            member.pendingInputs.shift();
+        }
+    }
+
+    /**
+     * Pas fixe de la simulation du salon
+     */
+    public step(deltaTime: number): void {
+        if (this.status === 'waiting') return;
+
+        if (this.status === 'loading') {
+            this.loadingTime += deltaTime;
+            if (this.loadingTime >= this.config.readyTimeout) {
+                console.warn(`Salon ${this.name} : départ sans les joueurs encore en chargement`);
+                this.beginRace();
+            }
+        }
+
+        // Une commande par joueur et par pas ; sans nouvelle commande la précédente est conservée
+        // (pendant le chargement, la commande neutre posée par startRace)
+        const isRacing = this.status === 'racing';
+        this.members.forEach((member) => {
+            const next = isRacing ? member.pendingInputs.shift() : undefined;
+            if (next) {
+                member.input.setInput(next.input);
+                member.lastInput = next.sequence;
+            }
+        });
+        // Les chronomètres arrêtés (avant le départ, après l'arrivée) ignorent les checkpoints
+        this.simulation.step(deltaTime);
+        this.tick++;
+
+        if (isRacing) {
+            this.updateFinish(deltaTime);
+        }
+
+        if (this.tick % Math.round(this.config.tickRate / this.config.snapshotRate) === 0) {
+            this.broadcastSnapshot();
+        }
+    }
+
+    private broadcastSnapshot(): void {
+        const cars: NetworkCarState[] = [];
+        this.members.forEach((member) => {
+            const state = member.car.getSnapshot();
+            if (state) {
+                cars.push({ playerId: member.client.id, lastInput: member.lastInput, input: member.input.getInput(), state });
+            }
+        });
+        this.broadcast({ type: 'snapshot', tick: this.tick, cars, weather: this.simulation.getPhysicsWorld().getWeather().getState() });
+    }
+
+    private broadcast(message: ServerMessage): void {
+        this.members.forEach(member => member.client.send(message));
+    }
+
+    public getInfo(): RoomInfo {
+        return {
+            id: this.id,
+            name: this.name,
+            status: this.status,
+            trackId: this.manifest.id,
+            weather: this.weather,
+            maxPlayers: this.config.maxPlayersPerRoom,
+            players: this.members.map(member => ({
+                id: member.client.id,
+                name: member.client.name,
+                slot: member.slot,
+                vehicleId: member.vehicleId,
+                isHost: member.client.id === this.hostId
+            }))
+        };
+    }
+
+    public getId(): string { return this.id; }
+    public isEmpty(): boolean { return this.members.length === 0; }
+}
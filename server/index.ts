@@ -0,0 +1,28 @@
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { AssetLoader } from './AssetLoader';
+import { GameServer } from './GameServer';
+import { DEFAULT_NETWORK_CONFIG } from '../src/interfaces/Network';
+import { DEFAULT_SCENE_CONFIG } from '../src/interfaces/SceneConfig';
+
+// Serveur de course en ligne : npm run server (port configurable avec PORT)
+const PUBLIC_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../public');
+const config = {
+    ...DEFAULT_NETWORK_CONFIG,
+    port: Number(process.env.PORT) || DEFAULT_NETWORK_CONFIG.port
+};
+
+AssetLoader.loadServerAssets(PUBLIC_DIR)
+    .then((assets) => {
+        const server = new GameServer(assets, config, DEFAULT_SCENE_CONFIG.car);
+        console.log(`Serveur de course démarré sur ws://localhost:${config.port}`);
+
+        process.on('SIGINT', () => {
+            server.close();
+            process.exit(0);
+        });
+    })
+    .catch((error) => {
+        console.error('Impossible de charger les modèles du serveur:', error);
+        process.exit(1);
+    });
@@ -0,0 +1,110 @@
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+import { AssetLoader, ServerTrack } from './AssetLoader';
+import { HeadlessSimulation } from './HeadlessSimulation';
+import { RaceManager } from '../src/classes/RaceManager';
+import { AI_SKILL_PRESETS, AISkillLevel } from '../src/interfaces/AIConfig';
+import { WEATHER_TYPES, WeatherType } from '../src/interfaces/Weather';
+
+// Simulation sans affichage, options toutes facultatives
+const USAGE = `npm run simulate -- --track <id ou fichier> --car <id> --driver ai|throttle --skill ${Object.keys(AI_SKILL_PRESETS).join('|')} `
+    + `--weather ${WEATHER_TYPES.join('|')} --duration <s> --laps <tours> --json`;
+const PUBLIC_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../public');
+
+const { values: args } = parseArgs({
+    options: {
+        track: { type: 'string' },
+        car: { type: 'string' },
+        driver: { type: 'string', default: 'ai' },
+        skill: { type: 'string', default: 'medium' },
+        weather: { type: 'string' },
+        duration: { type: 'string', default: '180' },
+        laps: { type: 'string' },
+        json: { type: 'boolean', default: false }
+    }
+});
+
+/**
+ * Arrête le programme sur un argument invalide en rappelant l'usage
+ */
+function fail(message: string): never {
+    console.error(`${message}\nUsage : ${USAGE}`);
+    process.exit(1);
+}
+
+function parseSkill(value: string): AISkillLevel {
+    const level = (Object.keys(AI_SKILL_PRESETS) as AISkillLevel[]).find(key => key === value);
+    return level ?? fail(`Niveau d'IA inconnu : ${value}`);
+}
+
+function parseWeather(value: string): WeatherType {
+    return WEATHER_TYPES.find(type => type === value) ?? fail(`Météo inconnue : ${value}`);
+}
+
+const duration = Number(args.duration);
+if (!Number.isFinite(duration) || duration <= 0) {
+    fail(`Durée invalide : ${args.duration}`);
+}
+const lapsArg = args.laps === undefined ? null : Number(args.laps);
+if (lapsArg !== null && (!Number.isInteger(lapsArg) || lapsArg <= 0)) {
+    fail(`Nombre de tours invalide : ${args.laps}`);
+}
+if (args.driver !== 'ai' && args.driver !== 'throttle') {
+    fail(`Pilote inconnu : ${args.driver}`);
+}
+const skill = parseSkill(args.skill);
+const weather = args.weather === undefined ? undefined : parseWeather(args.weather);
+
+async function main(): Promise<void> {
+    const assets = await AssetLoader.loadServerAssets(PUBLIC_DIR);
+
+    // Un identifiant du catalogue, sinon un fichier de circuit
+    let track: ServerTrack | undefined = args.track ? assets.tracks.get(args.track) : assets.tracks.values().next().value;
+    if (!track && args.track) {
+        track = await AssetLoader.loadTrackFile(path.resolve(args.track), PUBLIC_DIR);
+    }
+    const vehicle = args.car ? assets.cars.get(args.car) : assets.cars.values().next().value;
+    if (!track || !vehicle) {
+        throw new Error('Aucun circuit ou aucune voiture disponible');
+    }
+
+    const simulation = new HeadlessSimulation(track, { weather });
+    const { raceManager } = args.driver === 'throttle'
+        ? simulation.addScriptedCar(vehicle, () => ({ throttle: 1 }))
+        : simulation.addAICar(vehicle, skill);
+
+    const laps = lapsArg ?? track.manifest.laps;
+    const startTime = performance.now();
+    const steps = simulation.run(duration, () => raceManager.getLaps().length >= laps);
+    const elapsed = (performance.now() - startTime) / 1000;
+
+    const car = simulation.getCars()[0].car;
+    const position = car.getPosition();
+    const result = {
+        track: track.manifest.id,
+        car: vehicle.definition.id,
+        driver: args.driver,
+        simulatedTime: simulation.getTime(),
+        steps,
+        stepsPerSecond: Math.round(steps / elapsed),
+        laps: raceManager.getLaps().map(lap => lap.time),
+        bestLap: raceManager.getBestLap()?.time ?? null,
+        position: [position.x, position.y, position.z],
+        speed: car.getSpeed()
+    };
+
+    if (args.json) {
+        console.log(JSON.stringify(result));
+        return;
+    }
+    console.log(`Circuit ${result.track}, voiture ${result.car}, pilote ${result.driver}`);
+    console.log(`${steps} pas (${result.simulatedTime.toFixed(1)} s simulées) en ${elapsed.toFixed(1)} s, ${result.stepsPerSecond} pas/s`);
+    raceManager.getLaps().forEach((lap, index) => console.log(`Tour ${index + 1} : ${RaceManager.formatTime(lap.time)}`));
+    console.log(`Position finale (${position.x.toFixed(1)}, ${position.y.toFixed(1)}, ${position.z.toFixed(1)}), ${(result.speed * 3.6).toFixed(0)} km/h`);
+}
+
+main().catch((error) => {
+    console.error('Simulation impossible:', error);
+    process.exit(1);
+});
@@ -1,21 +1,153 @@
 import { Scene } from "./Scene/scene";
 import { LoadingScreen } from "./classes/LoadingScreen";
+import { Lobby } from "./classes/Lobby";
+import { OnlineSession } from "./classes/OnlineSession";
+import { TrackCatalog } from "./classes/TrackCatalog";
+import { TrackSelect } from "./classes/TrackSelect";
+import { CarCatalog } from "./classes/CarCatalog";
+import { Garage } from "./classes/Garage";
+import { TrackEditor } from "./classes/TrackEditor";
+import { ControlsMenu } from "./classes/ControlsMenu";
+import { TrackManifest } from "./interfaces/TrackManifest";
+import { VehicleDefinition } from "./interfaces/VehicleDefinition";
+import { DEFAULT_WEATHER_TYPE, WeatherType } from "./interfaces/Weather";
+import { DEFAULT_TIME_OF_DAY_CONFIG } from "./interfaces/TimeOfDay";
+import { TrackDesign } from "./interfaces/TrackDesign";
 
 class App {
     private scene: Scene | null = null;
     private loadingScreen: LoadingScreen;
+    private lobby: Lobby | null = null;
+    private garage: Garage | null = null;
+    private trackSelect: TrackSelect | null = null;
+    private trackEditor: TrackEditor | null = null;
+    private controlsMenu: ControlsMenu | null = null;
+    private tracks: Promise<TrackManifest[]>;
+    private cars: Promise<VehicleDefinition[]>;
 
     constructor() {
-        this.loadingScreen = new LoadingScreen(() => this.startGame());
+        this.tracks = TrackCatalog.fetchAll();
+        this.cars = CarCatalog.fetchAll();
+        this.loadingScreen = new LoadingScreen(
+            (playerCount) => this.openGarage(playerCount),
+            () => this.openLobby(),
+            () => this.openTrackEditor(),
+            () => this.openControlsMenu()
+        );
     }
 
-    private startGame() {
+    private async openGarage(playerCount: number) {
+        const cars = await this.cars;
+        this.garage = new Garage(
+            cars,
+            playerCount,
+            (vehicles) => {
+                this.closeGarage();
+                this.openTrackSelect(playerCount, vehicles);
+            },
+            () => this.closeGarage()
+        );
+    }
+
+    private closeGarage() {
+        this.garage?.dispose();
+        this.garage = null;
+    }
+
+    private async openTrackSelect(playerCount: number, vehicles: VehicleDefinition[]) {
+        const tracks = await this.tracks;
+        this.trackSelect = new TrackSelect(
+            tracks,
+            (track, weather, hour) => {
+                this.closeTrackSelect();
+                this.loadingScreen.showLoadingState();
+                this.startGame(playerCount, track, vehicles, weather, hour);
+            },
+            () => this.closeTrackSelect()
+        );
+    }
+
+    private closeTrackSelect() {
+        this.trackSelect?.dispose();
+        this.trackSelect = null;
+    }
+
+    private async openLobby() {
+        const [tracks, cars] = await Promise.all([this.tracks, this.cars]);
+        this.lobby = new Lobby(
+            tracks,
+            cars,
+            (session) => {
+                // Le circuit est choisi par le créateur du salon
+                const track = tracks.find(other => other.id === session.getRoom().trackId);
+                if (!track) {
+                    console.error(`Circuit ${session.getRoom().trackId} absent du catalogue`);
+                    session.dispose();
+                    return;
+                }
+                const vehicle = cars.find(car => car.id === session.getLocalPlayer()?.vehicleId) ?? cars[0];
+                this.closeLobby();
+                this.loadingScreen.showLoadingState();
+                this.startGame(1, track, [vehicle], session.getRoom().weather, DEFAULT_TIME_OF_DAY_CONFIG.hour, session);
+            },
+            () => this.closeLobby()
+        );
+    }
+
+    private closeLobby() {
+        this.lobby?.dispose();
+        this.lobby = null;
+    }
+
+    private openControlsMenu() {
+        this.controlsMenu = new ControlsMenu(() => this.closeControlsMenu());
+    }
+
+    private closeControlsMenu() {
+        this.controlsMenu?.dispose();
+        this.controlsMenu = null;
+    }
+
+    private openTrackEditor() {
+        this.trackEditor = new TrackEditor(
+            (design) => {
+                this.closeTrackEditor();
+                this.loadingScreen.showLoadingState();
+                this.testTrack(design);
+            },
+            () => this.closeTrackEditor()
+        );
+    }
+
+    private closeTrackEditor() {
+        this.trackEditor?.dispose();
+        this.trackEditor = null;
+    }
+
+    /**
+     * Lance directement le circuit de l'éditeur avec la première voiture du garage
+     */
+    private async testTrack(design: TrackDesign) {
+        const cars = await this.cars;
+        this.startGame(1, TrackCatalog.fromDesign(design), [cars[0]], DEFAULT_WEATHER_TYPE, DEFAULT_TIME_OF_DAY_CONFIG.hour);
+    }
+
+    private async startGame(
+        playerCount: number,
+        track: TrackManifest,
+        vehicles: VehicleDefinition[],
+        weather: WeatherType,
+        hour: number,
+        onlineSession?: OnlineSession
+    ) {
+        const vehicleCatalog = await this.cars;
+        const timeOfDay = { ...DEFAULT_TIME_OF_DAY_CONFIG, hour };
         // Initialiser la scène avec un callback pour suivre la progression du chargement
-        this.scene = new Scene({}, (progress) => {
+        this.scene = new Scene({ players: playerCount, track, vehicles, vehicleCatalog, weather, timeOfDay }, (progress) => {
             // Mettre à jour la barre de progression
             this.loadingScreen.updateProgress(progress);
-        });
+        }, onlineSession);
     }
 }
 
-new App();
\ No newline at end of file
+new App();
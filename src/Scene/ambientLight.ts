@@ -1,13 +1,16 @@
 import * as THREE from "three";
 
+/**
+ * Lumière ambiante en hémisphère : teinte du ciel par le haut, lumière renvoyée par le sol par le bas
+ */
 export class AmbientLight {
-    private light: THREE.AmbientLight;
-    
+    private light: THREE.HemisphereLight;
+
     constructor() {
-        this.light = new THREE.AmbientLight(0xffffff, 1.0);
+        this.light = new THREE.HemisphereLight(0xffffff, 0x807060, 1.0);
     }
 
-    public getLight() {
+    public getLight(): THREE.HemisphereLight {
         return this.light;
     }
 }
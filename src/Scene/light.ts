@@ -1,23 +1,42 @@
 import * as THREE from "three";
 
+/**
+ * Soleil (ou lune la nuit) : lumière directionnelle dont l'ombre suit la voiture du joueur
+ */
 export class Light {
-    private light: THREE.Light;
-    
+    private light: THREE.DirectionalLight;
+
+    private static readonly SHADOW_CONFIG = {
+        DISTANCE: 60,       // Distance de la lumière à la zone ombrée en m
+        SIZE: 40            // Demi-côté de la zone ombrée en m
+    };
+
     constructor() {
+        const config = Light.SHADOW_CONFIG;
         this.light = new THREE.DirectionalLight(0xffffff, 2.0);
         this.light.position.set(10, 20, 10);
         this.light.castShadow = true;
-        this.light.shadow!.mapSize.set(2048, 2048);
-        (this.light.shadow!.camera as THREE.OrthographicCamera).near = 1;
-        (this.light.shadow!.camera as THREE.OrthographicCamera).far = 100;
-        (this.light.shadow!.camera as THREE.OrthographicCamera).left = -20;
-        (this.light.shadow!.camera as THREE.OrthographicCamera).right = 20;
-        (this.light.shadow!.camera as THREE.OrthographicCamera).top = 20;
-        (this.light.shadow!.camera as THREE.OrthographicCamera).bottom = -20;
-        this.light.shadow!.bias = -0.001;
+        this.light.shadow.mapSize.set(2048, 2048);
+        this.light.shadow.camera.near = 1;
+        this.light.shadow.camera.far = config.DISTANCE * 2;
+        this.light.shadow.camera.left = -config.SIZE;
+        this.light.shadow.camera.right = config.SIZE;
+        this.light.shadow.camera.top = config.SIZE;
+        this.light.shadow.camera.bottom = -config.SIZE;
+        this.light.shadow.bias = -0.001;
+    }
+
+    /**
+     * @param direction Direction normalisée vers le soleil
+     * @param center Centre de la zone ombrée
+     */
+    public setDirection(direction: THREE.Vector3, center: THREE.Vector3): void {
+        this.light.position.copy(center).addScaledVector(direction, Light.SHADOW_CONFIG.DISTANCE);
+        this.light.target.position.copy(center);
+        this.light.target.updateMatrixWorld();
     }
 
-    public getLight() {
+    public getLight(): THREE.DirectionalLight {
         return this.light;
     }
-}
\ No newline at end of file
+}
@@ -6,27 +6,98 @@ import { Car } from "../classes/Car";
 import { Environment } from "../classes/Environment";
 import { Renderer } from "../classes/Renderer";
 import { SceneConfig, DEFAULT_SCENE_CONFIG } from "../interfaces/SceneConfig";
+import { CarConfig } from "../interfaces/CarConfig";
 import { PhysicsWorld } from "../classes/PhysicsWorld";
 import { ThirdPersonCamera } from "../classes/ThirdPersonCamera";
 import { TrackPhysics } from '../classes/TrackPhysics';
+import { TrackElementRegistry } from '../classes/TrackElementRegistry';
 import { FPSCounter } from '../classes/FPSCounter';
 import { Speedometer } from '../classes/Speedometer';
 import { PerformanceMonitor } from '../classes/PerformanceMonitor';
 import { CullingManager } from '../classes/CullingManager';
+import { RaceManager, LapResult } from '../classes/RaceManager';
+import { LapTimer } from '../classes/LapTimer';
+import { RaceStateMachine, RaceState } from '../classes/RaceStateMachine';
+import { StartLights } from '../classes/StartLights';
+import { RaceResults } from '../classes/RaceResults';
+import { TrackBuilder } from '../classes/TrackBuilder';
+import { RacingLine } from '../classes/RacingLine';
+import { AIDriver } from '../classes/AIDriver';
+import { GhostRecorder, GhostLap } from '../classes/GhostRecorder';
+import { GhostCar } from '../classes/GhostCar';
+import { GhostStorage } from '../classes/GhostStorage';
+import { CarControls } from '../classes/CarControls';
+import { ReplayChannel } from '../classes/ReplayChannel';
+import { ReplaySystem } from '../classes/ReplaySystem';
+import { ReplayControls } from '../classes/ReplayControls';
+import { TuningPanel } from '../classes/TuningPanel';
+import { WeatherEffects } from '../classes/WeatherEffects';
+import { ReplayData } from '../interfaces/Replay';
+import { DriftScoreDisplay } from '../classes/DriftScoreDisplay';
+import { NitroGauge } from '../classes/NitroGauge';
+import { ControlAction, PLAYER_CONTROL_SCHEMES } from '../interfaces/ControlScheme';
+import { InputBindings } from '../classes/InputBindings';
+import { GamepadControls } from '../classes/GamepadControls';
+import { CombinedInputSource } from '../classes/CombinedInputSource';
+import { TouchControls } from '../classes/TouchControls';
+import { StartingGrid } from '../classes/StartingGrid';
+import { OnlineSession } from '../classes/OnlineSession';
+import { NetworkInputSource } from '../classes/NetworkInputSource';
+import { RoomPlayer } from '../interfaces/Network';
+import { TrackManifest } from '../interfaces/TrackManifest';
+import { VehicleDefinition } from '../interfaces/VehicleDefinition';
+
+interface Opponent {
+    car: Car;
+    vehicle: VehicleDefinition;
+    driver: AIDriver;
+}
+
+interface Player {
+    name: string;
+    car: Car;
+    vehicle: VehicleDefinition;
+    channel: ReplayChannel;
+    gamepad: GamepadControls;
+    touch: TouchControls | null;    // Commandes à l'écran du joueur 1 sur appareil tactile
+    camera: ThirdPersonCamera;
+    raceManager: RaceManager;
+    hud: HTMLDivElement | null;     // Conteneur du HUD en écran partagé
+    speedometer: Speedometer;
+    driftScoreDisplay: DriftScoreDisplay;
+    nitroGauge: NitroGauge;
+    lapTimer: LapTimer;
+    hasFinished: boolean;
+}
 
 export class Scene {
     private scene: THREE.Scene;
     private renderer!: Renderer; 
-    private thirdPersonCamera!: ThirdPersonCamera;
     private environment!: Environment;
-    private car!: Car;
+    private players: Player[] = [];
     private config: SceneConfig;
     private physicsWorld: PhysicsWorld;
     private controls!: OrbitControls;
     private track!: THREE.Object3D;
     private trackPhysics!: TrackPhysics;
     private fpsCounter!: FPSCounter;
-    private speedometer!: Speedometer;
+    private raceStateMachine: RaceStateMachine;
+    private finishTimer: number | null = null;  // Temps restant aux autres joueurs après la première arrivée
+    private startLights!: StartLights;
+    private raceResults!: RaceResults;
+    private racingLine: RacingLine | null = null;
+    private opponents: Opponent[] = [];
+    private trackId: string;
+    private ghostRecorder: GhostRecorder;
+    private ghostStorage: GhostStorage;
+    private ghostCar: GhostCar | null = null;
+    private replaySystem: ReplaySystem;
+    private replayControls!: ReplayControls;
+    private tuningPanel: TuningPanel | null = null;
+    private weatherEffects: WeatherEffects | null = null;
+    private lastReplay: ReplayData | null = null;
+    private onlineSession: OnlineSession | null;
+    private carTemplates: Map<string, THREE.Group> = new Map();    // Modèles intacts par URL, dupliqués pour chaque voiture
 
     // Configuration du temps et de la physique
     private lastTime: number = performance.now();
@@ -39,6 +110,14 @@ export class Scene {
         MIN_DELTA: 1/120,   // Évite les calculs trop fréquents
         TIME_SCALE: 1.0     // Permet de ralentir/accélérer le temps
     };
+
+    // Vibrations de la manette
+    private static readonly RUMBLE_CONFIG = {
+        FULL_IMPACT_SPEED: 15,  // Vitesse d'impact donnant la vibration maximale en m/s
+        IMPACT_DURATION: 200,   // ms
+        DRIFT_STRENGTH: 0.25,
+        DRIFT_DURATION: 120     // Relancée à chaque image tant que la voiture glisse
+    };
     
     private physicsAccumulator: number = 0;
     private performanceMonitor: PerformanceMonitor;
@@ -50,13 +129,39 @@ export class Scene {
     private totalAssetsToLoad: number = 0;
     private loadedAssets: number = 0;
 
-    constructor(config: Partial<SceneConfig> = {}, onLoadingProgress?: (progress: number) => void) {
+    /**
+     * @param onlineSession Session de course en ligne (un seul joueur local, pas d'IA ni de fantôme)
+     */
+    constructor(config: Partial<SceneConfig> = {}, onLoadingProgress?: (progress: number) => void, onlineSession?: OnlineSession) {
         this.scene = new THREE.Scene();
-        this.scene.background = new THREE.Color(0x87CEEB);
         this.config = { ...DEFAULT_SCENE_CONFIG, ...config };
+        this.scene.background = new THREE.Color(this.config.track.sky.color);
+        // Le nombre de tours fait partie du circuit
+        this.config.race = { ...this.config.race, laps: this.config.track.laps };
+        this.trackId = this.config.track.id;
+        this.config.players = Math.max(1, Math.min(this.config.players, PLAYER_CONTROL_SCHEMES.length));
+        this.onlineSession = onlineSession || null;
+        if (this.onlineSession) {
+            this.config.players = 1;
+            this.config.opponents = { ...this.config.opponents, count: 0 };
+        }
         this.physicsWorld = new PhysicsWorld();
+        this.physicsWorld.getWeather().configure(this.config.weather, this.config.track.forecast);
         this.fpsCounter = new FPSCounter();
         this.performanceMonitor = new PerformanceMonitor();
+        this.raceStateMachine = new RaceStateMachine(this.config.race);
+        // En ligne, le départ est donné par le serveur quand tous les joueurs ont chargé la course
+        this.raceStateMachine.holdOnGrid(this.onlineSession !== null);
+        this.ghostRecorder = new GhostRecorder(this.trackId, Scene.TIME_CONFIG.FIXED_TIMESTEP);
+        this.ghostStorage = new GhostStorage();
+        this.replaySystem = new ReplaySystem(
+            this.physicsWorld.getWorld(),
+            this.physicsWorld.getWeather(),
+            this.trackId,
+            Scene.TIME_CONFIG.FIXED_TIMESTEP,
+            () => this.stepReplay(Scene.TIME_CONFIG.FIXED_TIMESTEP)
+        );
+        this.setupRaceLifecycle();
         
         // Initialiser le gestionnaire de chargement
         this.onLoadingProgressCallback = onLoadingProgress || null;
@@ -67,8 +172,8 @@ export class Scene {
     }
 
     private setupLoadingManager(): void {
-        // Compter le nombre total d'assets à charger
-        this.totalAssetsToLoad = 2; // Voiture et circuit
+        // Compter le nombre total d'assets à charger : modèles de voitures et circuit
+        this.totalAssetsToLoad = this.getCarModelUrls().length + (this.config.track.design ? 0 : 1);
         
         this.loadingManager.onProgress = (url, itemsLoaded, itemsTotal) => {
             this.loadedAssets = itemsLoaded;
@@ -95,107 +200,464 @@ export class Scene {
         };
     }
 
+    /**
+     * Orchestre la course : contrôles, chronométrage et écrans selon l'état de la course
+     */
+    private setupRaceLifecycle(): void {
+        this.raceStateMachine.onStateChange((state: RaceState) => {
+            switch (state) {
+                case 'grid':
+                    this.setControlsEnabled(false);
+                    this.physicsWorld.getWeather().reset();
+                    this.players.forEach((player) => {
+                        player.raceManager.reset();
+                        player.car.getDriftScorer().reset();
+                        player.hasFinished = false;
+                    });
+                    this.finishTimer = null;
+                    this.ghostRecorder.stop();
+                    break;
+                case 'racing':
+                    // Feu vert : les voitures deviennent pilotables et le chrono démarre
+                    this.setControlsEnabled(true);
+                    this.players.forEach(player => player.raceManager.start());
+                    // Le fantôme n'existe qu'en solo : première frame au temps 0 pour l'aligner sur le chrono du tour
+                    if (this.ghostCar) {
+                        this.ghostRecorder.startLap();
+                        this.ghostRecorder.record(this.players[0].car);
+                    }
+                    if (!this.onlineSession) {
+                        this.replaySystem.startRecording();
+                    }
+                    break;
+                case 'finished':
+                    this.setControlsEnabled(false);
+                    this.players.forEach(player => player.raceManager.stop());
+                    this.finishTimer = null;
+                    this.ghostRecorder.stop();
+                    this.ghostCar?.hide();
+                    this.lastReplay = this.replaySystem.stopRecording();
+                    break;
+                case 'results':
+                    this.showResults();
+                    break;
+            }
+        });
+    }
+
+    /**
+     * Fin de tour d'un joueur : fantôme en solo, arrivée après le dernier tour
+     */
+    private onPlayerLapCompleted(player: Player, lap: LapResult): void {
+        const ghostLap = this.ghostRecorder.finishLap(lap.time, player.car);
+        if (ghostLap) {
+            this.onGhostLapRecorded(ghostLap);
+        }
+
+        if (player.hasFinished || lap.lap < this.raceStateMachine.getTotalLaps()) return;
+
+        player.hasFinished = true;
+        player.raceManager.stop();
+        player.car.disableControls();
+
+        // La course se termine quand tous les joueurs sont arrivés ou à la fin du délai laissé aux retardataires
+        if (this.players.every(other => other.hasFinished)) {
+            this.raceStateMachine.finish();
+        } else if (this.finishTimer === null) {
+            this.finishTimer = this.config.race.finishTimeout;
+            console.log(`${player.name} a terminé, ${this.finishTimer} s pour les autres joueurs`);
+        }
+    }
+
+    private updateFinishTimer(deltaTime: number): void {
+        if (this.finishTimer === null || !this.raceStateMachine.isRacing()) return;
+
+        this.finishTimer -= deltaTime;
+        if (this.finishTimer <= 0) {
+            this.finishTimer = null;
+            this.raceStateMachine.finish();
+        }
+    }
+
+    private showResults(): void {
+        const results = this.players.map(player => ({
+            name: player.name,
+            laps: player.raceManager.getLaps(),
+            hasFinished: player.hasFinished
+        }));
+        this.raceResults?.show(results, this.lastReplay !== null);
+    }
+
+    /**
+     * Remplace le fantôme affiché si le tour est plus rapide et le sauvegarde pour ce circuit
+     */
+    private onGhostLapRecorded(ghostLap: GhostLap): void {
+        if (!this.ghostCar) return;
+
+        const currentGhost = this.ghostCar.getLap();
+        if (!currentGhost || ghostLap.lapTime < currentGhost.lapTime) {
+            this.ghostCar.setLap(ghostLap);
+        }
+
+        this.ghostStorage.saveIfBest(ghostLap).then((saved) => {
+            if (saved) {
+                console.log(`Nouveau fantôme enregistré pour ${this.trackId} : ${RaceManager.formatTime(ghostLap.lapTime)}`);
+            }
+        });
+    }
+
+    /**
+     * Crée le fantôme et charge le meilleur tour sauvegardé pour le circuit
+     */
+    private initializeGhost(template: THREE.Group): void {
+        this.ghostCar = new GhostCar(this.scene, template);
+        this.ghostStorage.load(this.trackId).then((ghostLap) => {
+            if (ghostLap && this.ghostCar && !this.ghostCar.getLap()) {
+                this.ghostCar.setLap(ghostLap);
+                console.log(`Fantôme chargé pour ${this.trackId} : ${RaceManager.formatTime(ghostLap.lapTime)}`);
+            }
+        });
+    }
+
+    /**
+     * Réglages des matériaux du circuit : valeurs par défaut du manifeste puis réglages par nom de matériau
+     */
+    private applyTrackMaterials(trackModel: THREE.Object3D, track: TrackManifest): void {
+        trackModel.traverse((child) => {
+            if (!(child instanceof THREE.Mesh)) return;
+
+            const materials = Array.isArray(child.material) ? child.material : [child.material];
+            materials.forEach((material) => {
+                if (!(material instanceof THREE.MeshStandardMaterial)) return;
+
+                // Forcer le chargement des textures
+                if (material.map) {
+                    material.map.colorSpace = THREE.SRGBColorSpace;
+                    material.map.needsUpdate = true;
+                }
+
+                const override = { ...track.materials.default, ...track.materials.surfaces[material.name] };
+                if (override.roughness !== undefined) material.roughness = override.roughness;
+                if (override.metalness !== undefined) material.metalness = override.metalness;
+                if (override.envMapIntensity !== undefined) material.envMapIntensity = override.envMapIntensity;
+                if (override.color !== undefined) material.color.set(override.color);
+                material.needsUpdate = true;
+            });
+
+            child.castShadow = true;
+            child.receiveShadow = true;
+        });
+    }
+
+    /**
+     * Voitures présentes dans la course : joueurs locaux, puis joueurs distants en ligne
+     */
+    private getCarModelUrls(): string[] {
+        const vehicles = [
+            ...this.config.vehicles,
+            ...(this.onlineSession?.getRemotePlayers() ?? []).map(player => this.findVehicle(player.vehicleId))
+        ];
+        return Array.from(new Set(vehicles.map(vehicle => vehicle.model)));
+    }
+
+    private findVehicle(vehicleId: string): VehicleDefinition {
+        return this.config.vehicleCatalog.find(vehicle => vehicle.id === vehicleId) ?? this.config.vehicles[0];
+    }
+
+    private getPlayerVehicle(index: number): VehicleDefinition {
+        return this.config.vehicles[index] ?? this.config.vehicles[0];
+    }
+
+    private cloneCarModel(vehicle: VehicleDefinition): THREE.Group {
+        return this.carTemplates.get(vehicle.model)!.clone(true);
+    }
+
     private initialize(): void {  
-        // Load car model first
+        // Load car models first
+        const urls = this.getCarModelUrls();
         const loader = new GLTFLoader(this.loadingManager);
-        loader.load('/models/car/car.glb', (gltf) => {
-            // Create car with loaded model
-            this.car = new Car(gltf.scene, this.config.car);
-            this.scene.add(gltf.scene);
-
-            if (this.config.car.position) {
-                this.car.setPosition(
-                    this.config.car.position.x,
-                    this.config.car.position.y,
-                    this.config.car.position.z
-                );
+        Promise.all(urls.map(url => loader.loadAsync(url))).then((gltfs) => {
+            // Garder une copie intacte de chaque modèle pour les voitures et le fantôme
+            gltfs.forEach((gltf, i) => this.carTemplates.set(urls[i], gltf.scene));
+
+            // Une voiture, une caméra et un HUD par joueur humain
+            for (let i = 0; i < this.config.players; i++) {
+                this.players.push(this.createPlayer(i, this.getPlayerVehicle(i)));
             }
 
-            // Initialize speedometer
-            this.speedometer = new Speedometer(this.car);
+            // Un circuit de l'éditeur est construit à partir de son tracé, les autres sont chargés
+            const track = this.config.track;
+            if (track.design) {
+                this.setupTrack(TrackBuilder.build(track.design));
+            } else {
+                new GLTFLoader(this.loadingManager).load(track.model, (trackGltf) => this.setupTrack(trackGltf.scene));
+            }
+        }).catch((error) => {
+            console.error('Erreur lors du chargement des voitures:', error);
+        });
+    }
+
+    /**
+     * Installe le circuit puis démarre la course
+     */
+    private setupTrack(trackModel: THREE.Group): void {
+        const track = this.config.track;
+        this.track = trackModel;
+        this.applyTrackMaterials(this.track, track);
+        // Éclairage et ciel selon l'heure de la course, avant la météo qui s'appuie sur le brouillard du circuit
+        this.environment = new Environment(this.scene, this.players[0].camera, this.config);
 
-            // Load track model
-            const trackLoader = new GLTFLoader(this.loadingManager);
-            
-            trackLoader.setPath('/models/race/');
-            
-            trackLoader.load('race.glb', (trackGltf) => {
-                this.track = trackGltf.scene;
-                
-                // Debug des matériaux
-                this.track.traverse((child) => {
-                    if (child instanceof THREE.Mesh) {
-                        if (Array.isArray(child.material)) {
-                            child.material.forEach((mat, index) => {
-                                if (mat instanceof THREE.MeshStandardMaterial) {
-                                    // Forcer le chargement des textures
-                                    if (mat.map) {
-                                        mat.map.colorSpace = THREE.SRGBColorSpace;
-                                        mat.map.needsUpdate = true;
-                                    }
-                                    mat.needsUpdate = true;
-                                    mat.envMapIntensity = 1.0;
-                                    mat.roughness = 0.5;
-                                    mat.metalness = 0.3;
-                                }
-                            });
-                        } else if (child.material instanceof THREE.MeshStandardMaterial) {
-                            // Forcer le chargement des textures
-                            if (child.material.map) {
-                                child.material.map.colorSpace = THREE.SRGBColorSpace;
-                                child.material.map.needsUpdate = true;
-                            }
-                            child.material.needsUpdate = true;
-                            child.material.envMapIntensity = 1.0;
-                            child.material.roughness = 0.5;
-                            child.material.metalness = 0.3;
-                        }
-                        
-                        child.castShadow = true;
-                        child.receiveShadow = true;
-                    }
-                });
-
-                // Ajouter un éclairage d'ambiance plus fort
-                const ambientLight = new THREE.AmbientLight(0xffffff, 1.5);
-                this.scene.add(ambientLight);
-
-                // Ajouter une lumière directionnelle plus forte
-                const directionalLight = new THREE.DirectionalLight(0xffffff, 2);
-                directionalLight.position.set(10, 20, 10);
-                directionalLight.castShadow = true;
-                this.scene.add(directionalLight);
-
-                this.scene.add(this.track);
-                
-                // Initialiser la physique du circuit
-                this.trackPhysics = new TrackPhysics(this.physicsWorld.getWorld());
-                this.trackPhysics.createTrackBody(this.track);
-                
-                // Initialize other components
-                this.thirdPersonCamera = new ThirdPersonCamera(this.car);
-                this.environment = new Environment(this.scene, this.thirdPersonCamera, this.config);
-                this.renderer = new Renderer(this.thirdPersonCamera, this.config);
-                this.thirdPersonCamera.setRenderer(this.renderer.getRenderer());
-                
-                // Add car to physics world
-                this.physicsWorld.addCar(this.car);
-
-                // Initialiser les gestionnaires d'optimisation
-                this.initializeOptimizationManagers();
+        this.scene.add(this.track);
+        this.weatherEffects = new WeatherEffects(this.scene, this.physicsWorld.getWeather());
+        this.weatherEffects.setTrack(this.track);
+
+        // Lire les checkpoints avant la physique pour exclure leurs volumes des collisions
+        this.players.forEach(player => player.raceManager.loadFromTrack(this.track, track.checkpoints));
+        const raceManager = this.players[0].raceManager;
+        this.racingLine = RacingLine.fromTrack(
+            this.track,
+            raceManager.getCheckpoints(),
+            raceManager.getFinishLine()
+        );
+        this.players.forEach(player => player.car.enableRespawn(this.racingLine));
+        this.startLights = new StartLights(this.raceStateMachine);
+        this.raceResults = new RaceResults(
+            () => this.restartRace(),
+            () => {
+                if (this.lastReplay) {
+                    this.startReplay(this.lastReplay);
+                }
+            }
+        );
+        this.replayControls = new ReplayControls(
+            this.replaySystem,
+            (replay) => this.startReplay(replay),
+            () => this.exitReplay()
+        );
+        
+        // Initialiser la physique du circuit
+        this.trackPhysics = new TrackPhysics(this.physicsWorld.getWorld(), this.physicsWorld.getCarMaterial());
+        this.trackPhysics.createTrackBody(this.track);
+        const trackElements = new TrackElementRegistry();
+        trackElements.loadFromTrack(this.track);
+        this.physicsWorld.setTrackElements(trackElements);
+        
+        // Initialize other components
+        this.renderer = new Renderer(this.players.map(player => player.camera), this.config);
+        this.renderer.enableEffects(this.scene);
+        this.players.forEach(player => player.camera.setRenderer(this.renderer.getRenderer()));
+        
+        // Add cars to physics world
+        this.players.forEach(player => this.physicsWorld.addCar(player.car));
+        if (this.onlineSession) {
+            this.setupOnlineRace(this.onlineSession);
+        } else {
+            this.spawnOpponents();
+            // Réglages à chaud du joueur 1 (la physique en ligne est celle du serveur)
+            this.tuningPanel = new TuningPanel(
+                this.players[0].car,
+                this.players[0].camera,
+                this.physicsWorld.getWeather(),
+                this.environment
+            );
+            if (this.players.length === 1) {
+                this.initializeGhost(this.carTemplates.get(this.getPlayerVehicle(0).model)!);
+            }
+        }
+
+        // Initialiser les gestionnaires d'optimisation
+        this.initializeOptimizationManagers();
               
-                // Démarrer les boucles seulement après l'initialisation complète
-                this.isInitialized = true;
-                this.gameLoop();
-            });
-        });
+        // Démarrer les boucles seulement après l'initialisation complète
+        this.isInitialized = true;
+        this.gameLoop();
     }
     
+    /**
+     * Crée la voiture d'un joueur humain avec ses touches, sa caméra et son HUD
+     * @param index Rang du joueur (0 = joueur 1, en haut de l'écran)
+     */
+    private createPlayer(index: number, vehicle: VehicleDefinition): Player {
+        // Touches choisies dans le menu des commandes, la manette du même rang si elle est branchée
+        // et, pour le joueur 1, les commandes tactiles
+        const controls = new CarControls(InputBindings.load()[index]);
+        const gamepad = new GamepadControls(index);
+        const touchLayout = TouchControls.loadLayout();
+        const touch = index === 0 && TouchControls.shouldDisplay(touchLayout) ? new TouchControls(touchLayout) : null;
+        const sources = touch ? [controls, gamepad, touch] : [controls, gamepad];
+        const channel = new ReplayChannel(new CombinedInputSource(sources));
+        const model = this.cloneCarModel(vehicle);
+        const car = new Car(model, this.getCarConfig(vehicle), channel, vehicle.handling);
+        car.setRandomSeed(index + 1);
+        car.disableControls();
+        this.replaySystem.register(car, channel);
+        this.scene.add(model);
+        this.placeOnGrid(car, index);
+
+        // En solo le HUD reste attaché à la page, en écran partagé il suit la bande du joueur
+        const hud = this.config.players > 1 ? this.createPlayerHud(index) : null;
+        const hudParent = hud ?? document.body;
+        const raceManager = new RaceManager();
+
+        const player: Player = {
+            name: `Joueur ${index + 1}`,
+            car,
+            vehicle,
+            channel,
+            gamepad,
+            touch,
+            camera: new ThirdPersonCamera(car),
+            raceManager,
+            hud,
+            speedometer: new Speedometer(car, hudParent),
+            driftScoreDisplay: new DriftScoreDisplay(car, hudParent),
+            nitroGauge: new NitroGauge(car, hudParent),
+            lapTimer: new LapTimer(raceManager, this.raceStateMachine.getTotalLaps(), hudParent),
+            hasFinished: false
+        };
+        raceManager.onLapCompleted((lap) => this.onPlayerLapCompleted(player, lap));
+        const onAction = (action: ControlAction) => {
+            if (action === 'toggleCamera') {
+                player.camera.toggleOrbitMode();
+            }
+        };
+        controls.onActionPressed(onAction);
+        gamepad.onActionPressed(onAction);
+        touch?.onActionPressed(onAction);
+        car.onCollision((impactSpeed) => {
+            const strength = Math.min(impactSpeed / Scene.RUMBLE_CONFIG.FULL_IMPACT_SPEED, 1);
+            gamepad.rumble(strength, strength / 2, Scene.RUMBLE_CONFIG.IMPACT_DURATION);
+        });
+        return player;
+    }
+
+    /**
+     * Conteneur du HUD couvrant la bande d'écran du joueur (même découpage que le Renderer)
+     */
+    private createPlayerHud(index: number): HTMLDivElement {
+        const height = 100 / this.config.players;
+        const hud = document.createElement('div');
+        hud.className = 'player-hud';
+        hud.style.top = `${index * height}%`;
+        hud.style.height = `${height}%`;
+        document.body.appendChild(hud);
+        return hud;
+    }
+
+    /**
+     * Course en ligne : voiture locale prédite, voitures des autres joueurs interpolées
+     */
+    private setupOnlineRace(session: OnlineSession): void {
+        const local = this.players[0];
+        const localSlot = session.getLocalPlayer()?.slot ?? 0;
+        local.name = session.getLocalPlayer()?.name ?? local.name;
+        local.car.setRandomSeed(localSlot + 1);
+        this.placeOnGrid(local.car, localSlot);
+        session.attachLocalCar(
+            local.car,
+            local.channel,
+            this.physicsWorld.getWeather(),
+            () => this.simulateCars(Scene.TIME_CONFIG.FIXED_TIMESTEP)
+        );
+
+        session.getRemotePlayers().forEach(player => this.addRemoteCar(session, player));
+        session.onPlayerJoined(player => this.addRemoteCar(session, player));
+        session.onPlayerLeft(car => this.removeRemoteCar(car));
+        session.onRaceStarting(() => this.onOnlineRaceStarting(session));
+        session.onRaceStart(() => this.raceStateMachine.holdOnGrid(false));
+
+        // Le départ a pu être donné sans attendre la fin de notre chargement
+        if (session.hasRaceStarted()) {
+            this.raceStateMachine.holdOnGrid(false);
+        } else {
+            session.sendReady();
+        }
+    }
+
+    private addRemoteCar(session: OnlineSession, player: RoomPlayer): void {
+        const vehicle = this.findVehicle(player.vehicleId);
+        const model = this.cloneCarModel(vehicle);
+        const input = new NetworkInputSource();
+        const car = new Car(model, this.getCarConfig(vehicle), input, vehicle.handling);
+        car.setRandomSeed(player.slot + 1);
+
+        this.scene.add(model);
+        this.physicsWorld.addCar(car);
+        this.placeOnGrid(car, player.slot);
+        session.addRemoteCar(player.id, car, input);
+    }
+
+    private removeRemoteCar(car: Car): void {
+        this.physicsWorld.removeCar(car);
+        const model = car.getModel();
+        if (model) {
+            this.scene.remove(model);
+        }
+    }
+
+    /**
+     * Nouvelle course demandée par l'hôte : retour sur la grille en attendant le départ du serveur
+     */
+    private onOnlineRaceStarting(session: OnlineSession): void {
+        this.raceResults.hide();
+        this.placeOnGrid(this.players[0].car, session.getLocalPlayer()?.slot ?? 0);
+        this.raceStateMachine.holdOnGrid(true);
+        this.raceStateMachine.restart();
+        session.sendReady();
+    }
+
+    /**
+     * Crée les voitures pilotées par l'IA (voiture du joueur 1) sur la grille derrière les joueurs
+     */
+    private spawnOpponents(): void {
+        if (!this.racingLine) {
+            console.warn("Pas de trajectoire : aucun adversaire IA ne sera créé");
+            return;
+        }
+
+        for (let i = 0; i < this.config.opponents.count; i++) {
+            const vehicle = this.getPlayerVehicle(0);
+            const model = this.cloneCarModel(vehicle);
+            const driver = new AIDriver(this.racingLine, this.config.opponents.skill, i * 1.3);
+            const channel = new ReplayChannel(driver);
+            const car = new Car(model, this.getCarConfig(vehicle), channel, vehicle.handling);
+            car.setRandomSeed(this.players.length + i + 1);
+            car.enableRespawn(this.racingLine);
+            car.disableControls();
+            this.replaySystem.register(car, channel);
+
+            this.scene.add(model);
+            this.physicsWorld.addCar(car);
+            this.opponents.push({ car, vehicle, driver });
+            this.placeOnGrid(car, this.players.length + i);
+        }
+
+        console.log(`${this.opponents.length} adversaires IA (${this.config.opponents.skill}) sur la grille`);
+    }
+
+    /**
+     * Place une voiture à l'arrêt sur une place de la grille (0 = position de départ du joueur 1)
+     */
+    private placeOnGrid(car: Car, slot: number): void {
+        StartingGrid.placeCar(car, this.config.track.grid, slot);
+    }
+
+    private setControlsEnabled(enabled: boolean): void {
+        const cars = [...this.players, ...this.opponents].map(({ car }) => car);
+        cars.forEach((car) => {
+            if (enabled) {
+                car.enableControls();
+            } else {
+                car.disableControls();
+            }
+        });
+    }
+
     /**
      * Initialise les gestionnaires d'optimisation
      */
     private initializeOptimizationManagers(): void {
-        this.cullingManager = new CullingManager(this.scene, this.thirdPersonCamera.getCamera(), {
+        this.cullingManager = new CullingManager(this.scene, this.players[0].camera.getCamera(), {
             enabled: true,
             maxDistance: 1000
         });
@@ -216,11 +678,13 @@ export class Scene {
             }
         });
         
-        // Appliquer le culling à la voiture
-        const carModel = this.car.getModel();
-        if (carModel) {
-            this.cullingManager.registerObject(carModel);
-        }
+        // Appliquer le culling aux voitures
+        const carModels = [...this.players, ...this.opponents].map(({ car }) => car.getModel());
+        carModels.forEach((carModel) => {
+            if (carModel) {
+                this.cullingManager.registerObject(carModel);
+            }
+        });
         
         console.log("Optimisations appliquées avec succès");
     }
@@ -234,7 +698,7 @@ export class Scene {
         
         // Limiter le delta time
         deltaTime = Math.max(Math.min(deltaTime, Scene.TIME_CONFIG.MAX_DELTA), Scene.TIME_CONFIG.MIN_DELTA);
-        deltaTime *= Scene.TIME_CONFIG.TIME_SCALE;
+        deltaTime *= Scene.TIME_CONFIG.TIME_SCALE * this.replaySystem.getTimeScale();
         
         this.lastTime = currentTime;
         
@@ -262,6 +726,50 @@ export class Scene {
         requestAnimationFrame(() => this.gameLoop());
     }
     
+    /**
+     * Pas de simulation commun au jeu et au replay : voitures puis monde physique
+     */
+    private simulateCars(deltaTime: number): void {
+        this.players.forEach(({ car }) => car.update(deltaTime));
+        this.opponents.forEach(({ car }) => car.update(deltaTime));
+        this.onlineSession?.getRemoteCars().forEach(car => car.update(deltaTime));
+        this.physicsWorld.update(deltaTime);
+    }
+
+    /**
+     * Pas de lecture du replay : les voitures reçoivent les commandes enregistrées
+     */
+    private stepReplay(deltaTime: number): void {
+        if (this.replaySystem.beginStep()) {
+            this.simulateCars(deltaTime);
+        }
+    }
+
+    /**
+     * Lance la lecture d'un replay enregistré ou importé
+     */
+    private startReplay(replay: ReplayData): void {
+        if (!this.replaySystem.startPlayback(replay)) return;
+
+        this.raceResults.hide();
+        this.ghostCar?.hide();
+        this.physicsAccumulator = 0;
+        this.players.forEach(player => player.touch?.setVisible(false));
+        this.replayControls.show();
+    }
+
+    private exitReplay(): void {
+        this.replaySystem.stopPlayback();
+        this.replayControls.hide();
+        this.players.forEach(player => player.touch?.setVisible(true));
+
+        if (this.raceStateMachine.getState() === 'results') {
+            this.showResults();
+        } else {
+            this.restartRace();
+        }
+    }
+
     /**
      * Met à jour les gestionnaires d'optimisation
      */
@@ -270,25 +778,84 @@ export class Scene {
     }
     
     private updatePhysics(deltaTime: number): void {
-        // Mise à jour de la physique
-        if (this.car) {
-            this.car.update(deltaTime);
+        if (this.replaySystem.getState() === 'playback') {
+            this.stepReplay(deltaTime);
+            return;
         }
-        this.physicsWorld.update(deltaTime);
+
+        this.raceStateMachine.update(deltaTime);
+        this.updateFinishTimer(deltaTime);
+
+        // Les pilotes IA calculent leurs commandes avant que le replay ne les échantillonne
+        this.opponents.forEach(({ car, driver }) => driver.update(deltaTime, car));
+
+        // En ligne, la session envoie la commande locale au serveur et place les voitures distantes
+        if (this.onlineSession) {
+            this.onlineSession.beginStep();
+        } else {
+            this.replaySystem.beginStep();
+        }
+        this.simulateCars(deltaTime);
+        this.onlineSession?.endStep();
+
+        // Tester le passage des checkpoints après le pas de physique
+        this.players.forEach(({ car, raceManager }) => {
+            const body = car.getBody();
+            if (body) {
+                raceManager.update(deltaTime, body);
+            }
+        });
+        this.ghostRecorder.record(this.players[0].car);
     }
     
     private updateRender(deltaTime: number, alpha: number): void {
         // Mise à jour des composants visuels
-        if (this.thirdPersonCamera) {
-            this.thirdPersonCamera.update();
+        this.players.forEach((player) => {
+            player.gamepad.update();
+            if (player.car.isDrifting()) {
+                player.gamepad.rumble(0, Scene.RUMBLE_CONFIG.DRIFT_STRENGTH, Scene.RUMBLE_CONFIG.DRIFT_DURATION);
+            }
+            player.camera.update();
+            player.speedometer.update();
+            player.driftScoreDisplay.update();
+            player.nitroGauge.update();
+            player.lapTimer.update();
+        });
+
+        // Effets de vitesse et de nitro de la voiture suivie (une seule caméra)
+        const effects = this.renderer.getEffects();
+        if (effects) {
+            const car = this.players[0].car;
+            const rotation = new THREE.Euler(0, car.getRotation().y, 0);
+            effects.update(car.getSpeed(), car.isDrifting(), car.getPosition(), rotation, car.getNitro().getActiveRatio());
         }
 
+        // Heure de la course, puis précipitations et brouillard autour de la caméra du joueur 1
+        this.environment.update(deltaTime);
+        this.weatherEffects?.update(
+            deltaTime,
+            this.players[0].camera.getCamera().position,
+            this.environment.getSkyColor(),
+            this.environment.getDaylight()
+        );
+        const headlights = this.environment.getHeadlightLevel();
+        [...this.players, ...this.opponents].forEach(({ car }) => car.setHeadlights(headlights));
+        this.onlineSession?.getRemoteCars().forEach(car => car.setHeadlights(headlights));
+
         if (this.controls) {
             this.controls.update();
         }
 
-        if (this.speedometer) {
-            this.speedometer.update();
+        if (this.startLights) {
+            this.startLights.update();
+        }
+
+        if (this.replayControls && this.replaySystem.getState() === 'playback') {
+            this.replayControls.update();
+        }
+
+        if (this.ghostCar && this.raceStateMachine.isRacing()) {
+            this.ghostCar.update(this.players[0].raceManager.getCurrentLapTime());
         }
 
         this.fpsCounter.update();
@@ -304,22 +871,94 @@ export class Scene {
         this.environment.updateConfig(newConfig);
         this.renderer.updateConfig(newConfig);
         if (newConfig.car) {
-            this.car.updateConfig(newConfig.car);
+            [...this.players, ...this.opponents].forEach(({ car, vehicle }) => car.updateConfig(this.getCarConfig(vehicle)));
         }
     }
 
+    /**
+     * Performances d'une voiture : configuration de la scène complétée par celles de sa définition
+     */
+    private getCarConfig(vehicle: VehicleDefinition): CarConfig {
+        return { ...this.config.car, ...vehicle.performance };
+    }
+
     private onWindowResize(): void {
-        if (this.thirdPersonCamera && this.renderer) {
-            this.thirdPersonCamera.getCamera().aspect = window.innerWidth / window.innerHeight;
-            this.thirdPersonCamera.getCamera().updateProjectionMatrix();
+        // Le Renderer adapte le ratio de chaque caméra à son viewport
+        if (this.renderer) {
             this.renderer.setSize(window.innerWidth, window.innerHeight);
         }
     }
 
     public dispose(): void {
         this.isInitialized = false;
-        if (this.speedometer) {
-            this.speedometer.dispose();
+        this.onlineSession?.dispose();
+        this.players.forEach((player) => {
+            player.gamepad.dispose();
+            player.touch?.dispose();
+            player.speedometer.dispose();
+            player.driftScoreDisplay.dispose();
+            player.nitroGauge.dispose();
+            player.lapTimer.dispose();
+            player.hud?.remove();
+        });
+        if (this.startLights) {
+            this.startLights.dispose();
+        }
+        if (this.raceResults) {
+            this.raceResults.dispose();
+        }
+        if (this.ghostCar) {
+            this.ghostCar.dispose();
+        }
+        if (this.replayControls) {
+            this.replayControls.dispose();
+        }
+        this.tuningPanel?.dispose();
+        this.weatherEffects?.dispose();
+        this.environment?.dispose();
+    }
+
+    /**
+     * Replace les voitures sur la grille et relance le cycle de course
+     */
+    private restartRace(): void {
+        // En ligne, la nouvelle course est lancée par le serveur pour tous les joueurs
+        if (this.onlineSession) {
+            if (this.onlineSession.getLocalPlayer()?.isHost) {
+                this.onlineSession.requestRestart();
+            } else {
+                console.warn("Seul l'hôte peut relancer la course");
+                this.showResults();
+            }
+            return;
         }
+
+        this.replaySystem.stopPlayback();
+        this.players.forEach(({ car }, index) => this.placeOnGrid(car, index));
+        this.opponents.forEach(({ car }, index) => this.placeOnGrid(car, this.players.length + index));
+        this.raceStateMachine.restart();
+    }
+
+    public getRaceState(): RaceState {
+        return this.raceStateMachine.getState();
+    }
+
+    public getOpponents(): Car[] {
+        return this.opponents.map(opponent => opponent.car);
+    }
+
+    public getRaceStateMachine(): RaceStateMachine {
+        return this.raceStateMachine;
+    }
+
+    /**
+     * Chronométrage du joueur 1
+     */
+    public getRaceManager(): RaceManager {
+        return this.players[0].raceManager;
+    }
+
+    public getPlayerCars(): Car[] {
+        return this.players.map(player => player.car);
     }
 }
\ No newline at end of file
@@ -0,0 +1,165 @@
+import * as THREE from 'three';
+import * as CANNON from 'cannon-es';
+import { CarInputSource } from '../interfaces/CarInput';
+import { AISkill, AISkillLevel, AI_SKILL_PRESETS } from '../interfaces/AIConfig';
+import { RacingLine } from './RacingLine';
+import { Car } from './Car';
+
+/**
+ * Pilote automatique qui suit la trajectoire du circuit.
+ * Calcule à chaque pas fixe l'accélérateur, le frein et la direction
+ * consommés par la voiture comme s'ils venaient du clavier.
+ */
+export class AIDriver implements CarInputSource {
+    private racingLine: RacingLine;
+    private skill: AISkill;
+    private isEnabled: boolean = true;
+
+    // Commandes calculées
+    private throttle: number = 0;
+    private brake: number = 0;
+    private steering: number = 0;
+
+    // Suivi de la trajectoire
+    private currentSample: number = -1;
+    private elapsedTime: number = 0;
+    private readonly wobblePhase: number;
+
+    // Détection des blocages (mur, tête-à-queue)
+    private stuckTime: number = 0;
+    private recoveryTime: number = 0;
+
+    private static readonly DRIVER_CONFIG = {
+        SPEED_MARGIN: 2,            // Tolérance au-dessus de la vitesse cible avant de freiner en m/s
+        STUCK_SPEED: 1,             // Vitesse en dessous de laquelle la voiture est considérée bloquée
+        STUCK_DELAY: 2.5,           // Durée avant de déclencher une manœuvre de dégagement
+        RECOVERY_DURATION: 1.5,     // Durée de la marche arrière de dégagement
+    };
+
+    constructor(racingLine: RacingLine, skill: AISkillLevel | AISkill = 'medium', wobblePhase: number = 0) {
+        this.racingLine = racingLine;
+        this.skill = typeof skill === 'string' ? AI_SKILL_PRESETS[skill] : skill;
+        this.wobblePhase = wobblePhase;
+    }
+
+    /**
+     * Calcule les commandes à partir de l'état du châssis (appelé avant Car.update)
+     * @param deltaTime Pas de temps fixe de la physique
+     * @param car Voiture pilotée : son châssis et son braquage maximum
+     */
+    public update(deltaTime: number, car: Car): void {
+        this.elapsedTime += deltaTime;
+        const body = car.getBody();
+        if (!body) return;
+
+        if (!this.isEnabled) {
+            this.throttle = 0;
+            this.brake = 0;
+            this.steering = 0;
+            return;
+        }
+
+        const position = new THREE.Vector3(body.position.x, body.position.y, body.position.z);
+        const speed = Math.sqrt(body.velocity.x * body.velocity.x + body.velocity.z * body.velocity.z);
+        this.currentSample = this.racingLine.findClosestSample(position, this.currentSample);
+
+        if (this.updateRecovery(deltaTime, speed)) return;
+
+        this.updateSteering(body, speed, car.getHandling().engine.maxSteer);
+        this.updateSpeed(speed);
+    }
+
+    /**
+     * Direction : vise un point de la trajectoire d'autant plus loin que la vitesse est élevée
+     */
+    private updateSteering(body: CANNON.Body, speed: number, maxSteer: number): void {
+        const lookahead = this.skill.lookaheadBase + speed * this.skill.lookaheadSpeedFactor;
+        const target = this.racingLine.getPointAhead(this.currentSample, lookahead);
+
+        // Exprimer la cible dans le repère du châssis : angle positif si elle est à droite de la direction de la marche
+        const localTarget = body.pointToLocalFrame(new CANNON.Vec3(target.x, target.y, target.z));
+        const angle = Math.atan2(localTarget.dot(Car.RIGHT_AXIS), localTarget.dot(Car.FORWARD_AXIS));
+
+        const wobble = Math.sin(this.elapsedTime * 1.7 + this.wobblePhase) * this.skill.steeringWobble;
+        // L'angle visé est rapporté au braquage maximum de la voiture pilotée
+        const steering = angle / maxSteer * this.skill.steeringGain + wobble;
+        this.steering = THREE.MathUtils.clamp(steering, -1, 1);
+    }
+
+    /**
+     * Vitesse : freine avant les virages selon la courbure de la trajectoire à venir
+     */
+    private updateSpeed(speed: number): void {
+        const curvature = this.racingLine.getCurvatureAhead(this.currentSample, this.skill.brakingDistance);
+        const cornerSpeed = curvature > 0
+            ? Math.sqrt(this.skill.lateralGrip / curvature) * this.skill.cornerSpeedFactor
+            : this.skill.maxSpeed;
+        const targetSpeed = Math.min(this.skill.maxSpeed, cornerSpeed);
+
+        if (speed > targetSpeed + AIDriver.DRIVER_CONFIG.SPEED_MARGIN) {
+            this.throttle = 0;
+            this.brake = THREE.MathUtils.clamp((speed - targetSpeed) / 10, 0.2, 1);
+        } else {
+            this.brake = 0;
+            this.throttle = THREE.MathUtils.clamp((targetSpeed - speed) / 5, 0.3, 1);
+        }
+    }
+
+    /**
+     * Marche arrière temporaire lorsque la voiture n'avance plus
+     * @returns true si une manœuvre de dégagement est en cours
+     */
+    private updateRecovery(deltaTime: number, speed: number): boolean {
+        if (this.recoveryTime > 0) {
+            this.recoveryTime -= deltaTime;
+            this.throttle = 0;
+            this.brake = 1;
+            return true;
+        }
+
+        if (speed < AIDriver.DRIVER_CONFIG.STUCK_SPEED && this.throttle > 0) {
+            this.stuckTime += deltaTime;
+            if (this.stuckTime > AIDriver.DRIVER_CONFIG.STUCK_DELAY) {
+                // Braquer à l'opposé pendant la marche arrière pour se dégager
+                this.stuckTime = 0;
+                this.recoveryTime = AIDriver.DRIVER_CONFIG.RECOVERY_DURATION;
+                this.steering = -this.steering;
+                return true;
+            }
+        } else {
+            this.stuckTime = 0;
+        }
+
+        return false;
+    }
+
+    public setSkill(skill: AISkillLevel | AISkill): void {
+        this.skill = typeof skill === 'string' ? AI_SKILL_PRESETS[skill] : skill;
+    }
+
+    /**
+     * Progression sur la trajectoire entre 0 et 1
+     */
+    public getTrackProgress(): number {
+        return this.currentSample < 0 ? 0 : this.racingLine.sampleToParameter(this.currentSample);
+    }
+
+    // Implémentation de CarInputSource
+    public getThrottle(): number { return this.throttle; }
+    public getBrake(): number { return this.brake; }
+    public getSteering(): number { return this.steering; }
+    public isHandbrakePressed(): boolean { return false; }
+    public isResetPressed(): boolean { return false; }
+    public isNitroPressed(): boolean { return false; }
+
+    public enable(): void {
+        this.isEnabled = true;
+    }
+
+    public disable(): void {
+        this.isEnabled = false;
+        this.throttle = 0;
+        this.brake = 0;
+        this.steering = 0;
+    }
+}
@@ -0,0 +1,36 @@
+import * as CANNON from 'cannon-es';
+import { Car } from './Car';
+import { TrackElement, TrackElementNode } from '../interfaces/TrackElement';
+
+/**
+ * Booster : propulse les voitures qui roulent dessus dans le sens de la piste.
+ * Extras glTF : strength (m/s²), maxSpeed (m/s).
+ */
+export class BoosterElement implements TrackElement {
+    public readonly node: TrackElementNode;
+    private readonly direction: CANNON.Vec3;
+    private readonly strength: number;
+    private readonly maxSpeed: number;
+
+    private static readonly BOOSTER_CONFIG = {
+        STRENGTH: 25,           // Accélération donnée par le booster en m/s²
+        MAX_SPEED: 60,          // Au-delà de cette vitesse dans le sens de la piste, plus de poussée
+        MIN_WHEELS: 1           // Roues au contact nécessaires (pas de poussée en l'air)
+    };
+
+    constructor(node: TrackElementNode) {
+        this.node = node;
+        this.direction = new CANNON.Vec3(node.direction.x, node.direction.y, node.direction.z);
+        this.strength = node.params.strength ?? BoosterElement.BOOSTER_CONFIG.STRENGTH;
+        this.maxSpeed = node.params.maxSpeed ?? BoosterElement.BOOSTER_CONFIG.MAX_SPEED;
+    }
+
+    public apply(car: Car, deltaTime: number): void {
+        const body = car.getBody();
+        if (!body || car.getWheelsInContact() < BoosterElement.BOOSTER_CONFIG.MIN_WHEELS) return;
+        if (body.velocity.dot(this.direction) >= this.maxSpeed) return;
+
+        // Impulsion de chaque pas le long de la piste
+        body.applyImpulse(this.direction.scale(body.mass * this.strength * deltaTime));
+    }
+}
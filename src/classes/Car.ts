@@ -1,5 +1,19 @@
 import { CarConfig, DEFAULT_CAR_CONFIG } from "../interfaces/CarConfig";
 import { CarControls } from "./CarControls";
+import { CarInputSource } from "../interfaces/CarInput";
+import { CarSnapshot } from "../interfaces/Replay";
+import { NEUTRAL_VEHICLE_INPUT, VehicleInput } from "../interfaces/VehicleInput";
+import { SeededRandom } from "./SeededRandom";
+import { DriftScorer, DriftState } from "./DriftScorer";
+import { RespawnManager } from "./RespawnManager";
+import { NitroSystem } from "./NitroSystem";
+import { VehicleInputFilter } from "./VehicleInputFilter";
+import { ExhaustFlame } from "./ExhaustFlame";
+import { Headlights } from "./Headlights";
+import { RacingLine } from "./RacingLine";
+import { WeatherSystem } from "./WeatherSystem";
+import { VehicleHandling, DEFAULT_VEHICLE_HANDLING } from "../interfaces/VehicleDefinition";
+import { DEFAULT_SURFACE_TYPE, SURFACE_PROPERTIES, SURFACE_TYPES, SurfaceProperties, SurfaceType } from "../interfaces/TrackSurface";
 import * as THREE from "three";
 import * as CANNON from 'cannon-es';
 
@@ -13,96 +27,64 @@ export class Car {
     // Composants essentiels
     private model: THREE.Group | null = null;
     private config: CarConfig;
-    private controls: CarControls;
+    private controls: CarInputSource;
+    // Commandes lissées appliquées au pas de physique courant
+    private inputFilter: VehicleInputFilter;
+    private input: VehicleInput = { ...NEUTRAL_VEHICLE_INPUT };
 
     // Composants physiques
     private body: CANNON.Body | null = null;
     private vehicle: CANNON.RaycastVehicle | null = null;
     private wheelBodies: CANNON.Body[] = [];
     private wheelMeshes: THREE.Object3D[] = [];
+    private wheelSurfaces: (SurfaceType | null)[] = [null, null, null, null];
 
-    // Configuration des roues
+    // Comportement propre au modèle de voiture (garage)
+    private handling: VehicleHandling;
+
+    // Sens de la marche dans le repère du châssis : la force moteur pousse la voiture vers son -z local, +x est à sa droite
+    public static readonly FORWARD_AXIS = new CANNON.Vec3(0, 0, -1);
+    public static readonly RIGHT_AXIS = new CANNON.Vec3(1, 0, 0);
+
+    // Configuration des roues commune à toutes les voitures
     private static readonly WHEEL_CONFIG = {
-        radius: 0.4,
         directionLocal: new CANNON.Vec3(0, -1, 0),
         axleLocal: new CANNON.Vec3(-1, 0, 0),
-        suspensionStiffness: 45,        // Augmenté pour une meilleure réponse
-        suspensionRestLength: 0.4,      // Augmenté pour plus de débattement
-        frictionSlip: 2.2,              // Augmenté pour une meilleure adhérence
-        dampingRelaxation: 3.0,         // Augmenté pour une meilleure réponse
-        dampingCompression: 4.8,        // Augmenté pour plus de contrôle
-        maxSuspensionForce: 150000,     // Augmenté pour une meilleure tenue de route
-        rollInfluence: 0.04,            // Réduit pour moins de roulis
-        maxSuspensionTravel: 0.4,       // Augmenté pour plus de débattement
         customSlidingRotationalSpeed: -35,
         useCustomSlidingRotationalSpeed: true,
     };
 
-    // Configuration du drift
-    private static readonly DRIFT_CONFIG = {
-        REAR_BRAKE_FORCE: 20,           // Réduit pour un drift moins agressif
-        REAR_FRICTION_HANDBRAKE: 0.3,   // Augmenté pour un meilleur contrôle
-        REAR_FRICTION_NORMAL: 2,        // Inchangé
-        FRONT_FRICTION: 2.4,            // Inchangé
-        DRIFT_ANGLE_THRESHOLD: 0.3,     // Augmenté pour éviter les drifts accidentels
-        DRIFT_RECOVERY_RATE: 0.25,      // Réduit pour une transition plus douce
-        DRIFT_INITIATION_SPEED: 40,     // Inchangé
-        DRIFT_STEERING_MULTIPLIER: 1.1, // Réduit pour éviter les 180° trop faciles
-        DRIFT_MOMENTUM_FACTOR: 0.9,     // Augmenté pour conserver plus d'élan
-        DRIFT_STABILITY_FACTOR: 0.7,    // Augmenté pour une meilleure stabilité
-        DRIFT_EXIT_THRESHOLD: 0.15,     // Inchangé
-        DRIFT_TRANSITION_TIME: 0.3,     // Inchangé
-    };
-
-    // Configuration de la dynamique du véhicule
-    private static readonly VEHICLE_DYNAMICS = {
-        // Vitesse et accélération
-        MIN_SPEED_FACTOR: 0.2,         // Facteur de vitesse minimum
-        MAX_SPEED_KMH: 180,           // Vitesse maximale réduite pour plus de stabilité
-        MIN_STEERING_FACTOR: 0.3,      // Facteur de direction minimum
-        MAX_STEERING_SPEED_KMH: 200,   // Vitesse maximale de direction
-        STEERING_POWER_FACTOR: 1.4,    // Facteur de puissance de direction
-        
-        // Résistances et forces
-        TURN_RESISTANCE_FACTOR: 0.015,  // Résistance en virage
-        MIN_SPEED_FOR_LATERAL_RESISTANCE: 10,
-        LATERAL_RESISTANCE_FACTOR: 0.02,
-        BASE_LINEAR_DAMPING: 0.1,      // Amortissement linéaire de base
-        BASE_ANGULAR_DAMPING: 0.5,     // Amortissement angulaire de base
-        
-        // Conversion
-        KMH_TO_MS: 1/3.6,              // Convertir km/h en m/s
-        DOWNFORCE_FACTOR: 0.001,        // Force vers le bas proportionnelle à la vitesse
-        AIR_RESISTANCE_FACTOR: 0.0001   // Résistance de l'air
-    };
-
-    // Configuration aérodynamique avancée
-    private static readonly AERODYNAMICS_CONFIG = {
-        DOWNFORCE_FACTOR: 0.004,        // Doublé de 0.002 à 0.004 pour plus de downforce
-        AIR_RESISTANCE_FACTOR: 0.00015, // Inchangé
-        GROUND_EFFECT_FACTOR: 0.002,    // Doublé de 0.001 à 0.002 pour plus d'effet de sol
-        LIFT_FACTOR: 0.00005,          // Réduit de 0.0001 à 0.00005 pour moins de portance
-        TURBULENCE_FACTOR: 0.00005,     // Inchangé
-        WIND_RESISTANCE: 0.0001,        // Inchangé
-        SPEED_THRESHOLD: 30,           // Inchangé
-    };
-
     // États du véhicule
     private isDriftDetected: boolean = false;
 
-    // Constantes de physique
-    private static readonly PHYSICS_CONFIG = {
-        MAX_FORCE: 3000,            // Force maximale raisonnable
-        MAX_STEER: 0.5,            // Angle de braquage maximum
-        BRAKE_FORCE: 70,           // Force de freinage
-        REVERSE_POWER_RATIO: 0.7,   // Ratio de puissance en marche arrière
-        ENGINE_BRAKE_FACTOR: 3      // Facteur de frein moteur
+    // Score de drift et détection des contacts avec les murs
+    private driftScorer: DriftScorer = new DriftScorer();
+    private collisionListeners: ((impactSpeed: number) => void)[] = [];
+    private respawnManager: RespawnManager | null = null;
+    private nitro: NitroSystem;
+    private exhaustFlame: ExhaustFlame | null = null;
+    private headlights: Headlights | null = null;
+    private weather: WeatherSystem | null = null;
+    private static readonly WALL_CONTACT_CONFIG = {
+        MAX_NORMAL_Y: 0.5,          // Normale de contact quasi horizontale = mur
+        MIN_IMPACT_VELOCITY: 2      // Vitesse d'impact minimum en m/s
     };
 
-    constructor(model: THREE.Group, config: Partial<CarConfig> = {}) {
+    // Aléatoire déterministe de la simulation (turbulences)
+    private random: SeededRandom = new SeededRandom(1);
+
+    /**
+     * @param handling Comportement de la voiture choisie au garage
+     */
+    constructor(model: THREE.Group, config: Partial<CarConfig> = {}, controls?: CarInputSource, handling: VehicleHandling = DEFAULT_VEHICLE_HANDLING) {
         this.model = model;
         this.config = { ...DEFAULT_CAR_CONFIG, ...config };
-        this.controls = new CarControls();
+        this.handling = handling;
+        this.nitro = new NitroSystem(handling.nitro);
+        this.inputFilter = new VehicleInputFilter(handling.response);
+        this.updateSteeringSpeed();
+        // Clavier par défaut, une IA peut fournir sa propre source de commandes
+        this.controls = controls || new CarControls();
         this.controls.enable();
         this.initializeModel(model, config);
     }
@@ -110,7 +92,9 @@ export class Car {
     // Méthodes publiques d'accès
     public getModel(): THREE.Group | null { return this.model; }
     public getBody(): CANNON.Body | null { return this.body; }
+    public getVehicle(): CANNON.RaycastVehicle | null { return this.vehicle; }
     public getWheelBodies(): CANNON.Body[] { return this.wheelBodies; }
+    public getWheelMeshes(): THREE.Object3D[] { return this.wheelMeshes; }
     public getPosition(): THREE.Vector3 {
         if (!this.body) return new THREE.Vector3();
         return new THREE.Vector3(
@@ -138,12 +122,125 @@ export class Car {
         );
     }
 
+    /**
+     * Direction de la marche dans le repère du monde
+     */
+    public getForwardDirection(): CANNON.Vec3 {
+        if (!this.body) return Car.FORWARD_AXIS.clone();
+        return this.body.quaternion.vmult(Car.FORWARD_AXIS);
+    }
+
+    /**
+     * Direction de la marche d'une voiture posée à plat avec ce cap (voir resetTo)
+     */
+    public static getForwardFromYaw(yaw: number): THREE.Vector3 {
+        return new THREE.Vector3(-Math.sin(yaw), 0, -Math.cos(yaw));
+    }
+
+    /**
+     * Cap (voir resetTo) qui tourne une voiture posée à plat dans cette direction horizontale
+     */
+    public static getYawFromForward(direction: { x: number, z: number }): number {
+        return Math.atan2(-direction.x, -direction.z);
+    }
+
+    /**
+     * Remplace le comportement de la voiture en cours de course.
+     * Les boîtes de collision et la position des roues restent celles de la création.
+     */
+    public setHandling(handling: VehicleHandling): void {
+        this.handling = handling;
+        this.nitro.setSettings(handling.nitro);
+        this.inputFilter.setSettings(handling.response);
+        this.updateSteeringSpeed();
+        if (!this.body || !this.vehicle) return;
+
+        const { chassis, suspension, tires, wheels } = handling;
+        this.body.mass = chassis.mass;
+        this.body.updateMassProperties();
+        if (this.body.material) {
+            this.body.material.friction = chassis.friction;
+            this.body.material.restitution = chassis.restitution;
+        }
+
+        this.vehicle.wheelInfos.forEach((wheel, i) => {
+            const isFront = i < 2;
+            wheel.radius = wheels.radius;
+            wheel.suspensionStiffness = suspension.stiffness;
+            wheel.suspensionRestLength = suspension.restLength;
+            wheel.maxSuspensionTravel = suspension.maxTravel;
+            wheel.maxSuspensionForce = suspension.maxForce;
+            wheel.dampingRelaxation = suspension.dampingRelaxation;
+            wheel.dampingCompression = suspension.dampingCompression;
+            wheel.rollInfluence = isFront ? suspension.frontRollInfluence : suspension.rearRollInfluence;
+            wheel.frictionSlip = isFront ? tires.frontFriction : tires.rearFriction;
+        });
+    }
+
     // Méthodes publiques de contrôle
     public enableControls(): void { this.controls.enable(); }
     public disableControls(): void { this.controls.disable(); }
+    public getControls(): CarInputSource { return this.controls; }
+    /**
+     * Commandes lissées appliquées au dernier pas de physique
+     */
+    public getInput(): VehicleInput { return this.input; }
+    public isDrifting(): boolean { return this.isDriftDetected; }
+    public getDriftState(): DriftState { return this.driftScorer.getState(); }
+    public getDriftScorer(): DriftScorer { return this.driftScorer; }
+    /**
+     * Appelé à chaque choc (mur ou autre voiture) avec la vitesse d'impact en m/s
+     */
+    public onCollision(listener: (impactSpeed: number) => void): void { this.collisionListeners.push(listener); }
+    /**
+     * Modifie la configuration ; elle est relue à chaque pas de physique, le changement s'applique donc immédiatement
+     */
     public updateConfig(newConfig: Partial<CarConfig>): void {
         this.config = { ...this.config, ...newConfig };
+        this.updateSteeringSpeed();
+    }
+
+    /**
+     * La vitesse de braquage de la configuration (rad/s) devient celle de la commande de direction lissée
+     */
+    private updateSteeringSpeed(): void {
+        this.inputFilter.setSteeringSpeed(this.config.rotationSpeed / this.handling.engine.maxSteer);
     }
+    public getConfig(): CarConfig { return this.config; }
+    /**
+     * Revêtement sous chaque roue (null pour une roue en l'air), dans l'ordre avant gauche, avant droite, arrière gauche, arrière droite
+     */
+    public getWheelSurfaces(): (SurfaceType | null)[] { return this.wheelSurfaces; }
+    public getWheelsInContact(): number {
+        return this.vehicle ? this.vehicle.wheelInfos.filter(wheel => wheel.isInContact).length : 0;
+    }
+    public getHandling(): VehicleHandling { return this.handling; }
+    public setRandomSeed(seed: number): void { this.random = new SeededRandom(seed); }
+    public getRespawnManager(): RespawnManager | null { return this.respawnManager; }
+    public getNitro(): NitroSystem { return this.nitro; }
+
+    /**
+     * Active le replacement automatique sur la piste (retournement, chute, blocage) et la touche de replacement
+     * @param racingLine Trajectoire du circuit servant à placer et orienter la voiture
+     */
+    public enableRespawn(racingLine: RacingLine | null): void {
+        this.respawnManager = new RespawnManager(racingLine);
+    }
+
+    /**
+     * Allumage des phares de 0 (éteints) à 1, selon l'heure de la course
+     */
+    public setHeadlights(level: number): void {
+        this.headlights?.setLevel(level);
+    }
+
+    /**
+     * Météo modifiant l'adhérence des pneus et poussant la voiture (sans météo : temps sec sans vent)
+     */
+    public setWeather(weather: WeatherSystem | null): void {
+        this.weather = weather;
+    }
+
     public setPosition(x: number, y: number, z: number): void {
         if (this.body) {
             this.body.position.set(x, y, z);
@@ -153,6 +250,146 @@ export class Car {
         }
     }
 
+    /**
+     * Capture l'état complet de la simulation du véhicule (châssis, roues, aléatoire)
+     * nécessaire pour reprendre la simulation à l'identique
+     */
+    public getSnapshot(): CarSnapshot | null {
+        if (!this.body || !this.vehicle) return null;
+
+        const body = this.body;
+        return {
+            position: [body.position.x, body.position.y, body.position.z],
+            quaternion: [body.quaternion.x, body.quaternion.y, body.quaternion.z, body.quaternion.w],
+            velocity: [body.velocity.x, body.velocity.y, body.velocity.z],
+            angularVelocity: [body.angularVelocity.x, body.angularVelocity.y, body.angularVelocity.z],
+            linearDamping: body.linearDamping,
+            angularDamping: body.angularDamping,
+            isDriftDetected: this.isDriftDetected,
+            randomState: this.random.getState(),
+            respawn: this.respawnManager?.getState() ?? null,
+            nitro: this.nitro.getState(),
+            drift: this.driftScorer.getSnapshot(),
+            input: this.inputFilter.getState(),
+            wheels: this.vehicle.wheelInfos.map((wheel, index) => ({
+                suspensionLength: wheel.suspensionLength,
+                suspensionRelativeVelocity: wheel.suspensionRelativeVelocity,
+                rotation: wheel.rotation,
+                deltaRotation: wheel.deltaRotation,
+                steering: wheel.steering,
+                sideImpulse: wheel.sideImpulse,
+                forwardImpulse: wheel.forwardImpulse,
+                skidInfo: wheel.skidInfo,
+                sliding: wheel.sliding,
+                isInContact: wheel.isInContact,
+                frictionSlip: wheel.frictionSlip,
+                materialFriction: this.wheelBodies[index]?.material?.friction ?? 0,
+                surface: this.wheelSurfaces[index]
+            }))
+        };
+    }
+
+    /**
+     * Restaure un état capturé par getSnapshot
+     */
+    public applySnapshot(snapshot: CarSnapshot): void {
+        if (!this.body || !this.vehicle) return;
+
+        const body = this.body;
+        body.position.set(...snapshot.position);
+        body.quaternion.set(...snapshot.quaternion);
+        body.velocity.set(...snapshot.velocity);
+        body.angularVelocity.set(...snapshot.angularVelocity);
+        body.force.set(0, 0, 0);
+        body.torque.set(0, 0, 0);
+        body.linearDamping = snapshot.linearDamping;
+        body.angularDamping = snapshot.angularDamping;
+        this.isDriftDetected = snapshot.isDriftDetected;
+        this.random.setState(snapshot.randomState);
+
+        snapshot.wheels.forEach((wheelSnapshot, index) => {
+            const wheel = this.vehicle!.wheelInfos[index];
+            if (!wheel) return;
+            wheel.suspensionLength = wheelSnapshot.suspensionLength;
+            wheel.suspensionRelativeVelocity = wheelSnapshot.suspensionRelativeVelocity;
+            wheel.rotation = wheelSnapshot.rotation;
+            wheel.deltaRotation = wheelSnapshot.deltaRotation;
+            wheel.steering = wheelSnapshot.steering;
+            wheel.sideImpulse = wheelSnapshot.sideImpulse;
+            wheel.forwardImpulse = wheelSnapshot.forwardImpulse;
+            wheel.skidInfo = wheelSnapshot.skidInfo;
+            wheel.sliding = wheelSnapshot.sliding;
+            wheel.isInContact = wheelSnapshot.isInContact;
+            wheel.frictionSlip = wheelSnapshot.frictionSlip;
+            this.wheelSurfaces[index] = wheelSnapshot.surface;
+
+            const material = this.wheelBodies[index]?.material;
+            if (material) {
+                material.friction = wheelSnapshot.materialFriction;
+            }
+        });
+
+        for (let i = 0; i < this.vehicle.wheelInfos.length; i++) {
+            this.vehicle.updateWheelTransform(i);
+        }
+        this.updateWheels();
+        this.model?.position.set(...snapshot.position);
+        this.model?.quaternion.set(...snapshot.quaternion);
+
+        if (snapshot.respawn) {
+            this.respawnManager?.setState(snapshot.respawn);
+        }
+        this.nitro.setState(snapshot.nitro);
+        this.driftScorer.applySnapshot(snapshot.drift);
+        this.inputFilter.setState(snapshot.input);
+        this.input = this.inputFilter.getState();
+    }
+
+    /**
+     * Replace la voiture à l'arrêt et à plat, orientée selon un cap, roues et suspensions au repos
+     * @param yaw Cap autour de l'axe vertical (0 = voiture tournée vers -z, voir getForwardFromYaw)
+     */
+    public resetTo(position: THREE.Vector3, yaw: number): void {
+        if (!this.body || !this.vehicle) return;
+
+        const body = this.body;
+        body.position.set(position.x, position.y, position.z);
+        body.previousPosition.copy(body.position);
+        body.interpolatedPosition.copy(body.position);
+        body.quaternion.setFromAxisAngle(new CANNON.Vec3(0, 1, 0), yaw);
+        body.previousQuaternion.copy(body.quaternion);
+        body.interpolatedQuaternion.copy(body.quaternion);
+        body.velocity.set(0, 0, 0);
+        body.angularVelocity.set(0, 0, 0);
+        body.force.set(0, 0, 0);
+        body.torque.set(0, 0, 0);
+        this.isDriftDetected = false;
+
+        this.vehicle.wheelInfos.forEach((wheel, index) => {
+            wheel.suspensionLength = wheel.suspensionRestLength;
+            wheel.suspensionRelativeVelocity = 0;
+            wheel.deltaRotation = 0;
+            wheel.steering = 0;
+            wheel.engineForce = 0;
+            wheel.brake = 0;
+            wheel.sideImpulse = 0;
+            wheel.forwardImpulse = 0;
+            wheel.skidInfo = 0;
+            wheel.sliding = false;
+            this.vehicle!.updateWheelTransform(index);
+        });
+
+        // Un replacement interrompt le combo de drift comme un choc
+        this.driftScorer.cancelCombo();
+        this.respawnManager?.clearTimers();
+        this.inputFilter.reset();
+        this.input = this.inputFilter.getState();
+
+        this.updateWheels();
+        this.model?.position.copy(position);
+        this.model?.quaternion.set(body.quaternion.x, body.quaternion.y, body.quaternion.z, body.quaternion.w);
+    }
+
     // Méthodes de gestion du monde physique
     public addToWorld(world: CANNON.World): void {
         if (this.vehicle) {
@@ -176,32 +413,48 @@ export class Car {
 
         this.initializePhysics(model, config);
         this.initializeWheels(model);
+
+        // Sortie d'échappement au centre de l'arrière de la caisse (+z), phares à l'avant (-z, voir FORWARD_AXIS)
+        const body = this.handling.chassis.shapes[0];
+        if (body) {
+            const exhaust = new THREE.Vector3(0, body.offset.y, body.offset.z + body.halfExtents.z);
+            this.exhaustFlame = new ExhaustFlame(model, exhaust);
+            const front = new THREE.Vector3(0, body.offset.y, body.offset.z - body.halfExtents.z);
+            this.headlights = new Headlights(model, front, body.halfExtents.x);
+        }
     }
 
     private initializePhysics(model: THREE.Group, config: Partial<CarConfig>): void {
         const position = config.position || { x: 0, y: 1, z: 0 };
         
+        const chassis = this.handling.chassis;
+
         // Créer le matériau du châssis
         const chassisMaterial = new CANNON.Material('chassis');
-        chassisMaterial.friction = 0.7;
-        chassisMaterial.restitution = 0.3;
+        chassisMaterial.friction = chassis.friction;
+        chassisMaterial.restitution = chassis.restitution;
         
         // Créer le corps du châssis physique
         this.body = new CANNON.Body({ 
-            mass: 800, // Réduit pour une meilleure maniabilité
+            mass: chassis.mass,
             material: chassisMaterial,
             angularDamping: 0.3, // Réduit pour permettre plus de rotation en cas de collision
             linearDamping: 0.05, // Réduit pour une meilleure réponse aux collisions
             allowSleep: false
         });
 
-        // Ajouter une forme de boîte pour le châssis principal
-        const chassisShape = new CANNON.Box(new CANNON.Vec3(0.68, 0.35, 1.55));
-        this.body.addShape(chassisShape, new CANNON.Vec3(0, 0.2, 0));
+        // Boîtes de collision du châssis (caisse, toit...)
+        chassis.shapes.forEach(({ halfExtents, offset }) => {
+            this.body!.addShape(
+                new CANNON.Box(new CANNON.Vec3(halfExtents.x, halfExtents.y, halfExtents.z)),
+                new CANNON.Vec3(offset.x, offset.y, offset.z)
+            );
+        });
 
-        // Ajouter une forme de boîte plus petite pour le toit
-        const roofShape = new CANNON.Box(new CANNON.Vec3(0.5, 0.2, 0.8));
-        this.body.addShape(roofShape, new CANNON.Vec3(0, 0.6, 0));
+        // Un contact latéral avec le décor annule le combo de drift
+        this.body.addEventListener('collide', (event: { body: CANNON.Body; contact: CANNON.ContactEquation }) => {
+            this.handleCollision(event.body, event.contact);
+        });
 
         // Positionner le corps
         this.body.position.set(position.x, position.y, position.z);
@@ -220,6 +473,22 @@ export class Car {
         });
     }
 
+    private handleCollision(other: CANNON.Body, contact: CANNON.ContactEquation): void {
+        // Seul le décor statique compte comme un mur (pas les autres voitures)
+        const isWall = other.type === CANNON.Body.STATIC &&
+            Math.abs(contact.ni.y) < Car.WALL_CONTACT_CONFIG.MAX_NORMAL_Y;
+        const impactSpeed = Math.abs(contact.getImpactVelocityAlongNormal());
+        if (impactSpeed <= Car.WALL_CONTACT_CONFIG.MIN_IMPACT_VELOCITY) return;
+
+        if (isWall) {
+            this.driftScorer.cancelCombo();
+        }
+        // Les contacts du sol (normale verticale) ne sont pas des chocs
+        if (isWall || other.type !== CANNON.Body.STATIC) {
+            this.collisionListeners.forEach(listener => listener(impactSpeed));
+        }
+    }
+
     private initializeWheels(model: THREE.Group): void {
         const wheelMeshes = this.findWheelMeshes(model);
         if (wheelMeshes.length !== 4) {
@@ -227,8 +496,13 @@ export class Car {
             return;
         }
 
-        // Extraire les positions des roues du modèle
-        const wheelPositions = wheelMeshes.map(wheel => {
+        // Positions imposées par la voiture, sinon celles des roues du modèle
+        const layout = this.handling.wheels.layout;
+        const wheelPositions = wheelMeshes.map((wheel, i) => {
+            if (layout) {
+                const side = i % 2 === 0 ? -1 : 1;   // Gauche vers -x, voir RIGHT_AXIS
+                return { x: side * layout.trackWidth / 2, y: layout.height, z: i < 2 ? layout.frontAxle : layout.rearAxle };
+            }
             const pos = wheel.position || new THREE.Vector3();
             return { x: pos.x, y: 0, z: pos.z }; 
         });
@@ -240,21 +514,23 @@ export class Car {
     private addWheel(pos: { x: number, y: number, z: number }, index: number, wheelMesh: THREE.Object3D, model: THREE.Group): void {
         if (!this.vehicle || !this.body) return;
 
+        const { suspension, tires } = this.handling;
+        const isFront = index < 2;
         const wheelOptions = {
             ...Car.WHEEL_CONFIG,
+            radius: this.handling.wheels.radius,
+            suspensionStiffness: suspension.stiffness,
+            suspensionRestLength: suspension.restLength,
+            maxSuspensionTravel: suspension.maxTravel,
+            maxSuspensionForce: suspension.maxForce,
+            dampingRelaxation: suspension.dampingRelaxation,
+            dampingCompression: suspension.dampingCompression,
+            rollInfluence: isFront ? suspension.frontRollInfluence : suspension.rearRollInfluence,
+            frictionSlip: isFront ? tires.frontFriction : tires.rearFriction,
             chassisConnectionPointLocal: new CANNON.Vec3(pos.x, pos.y, pos.z),
-            isFrontWheel: index < 2
+            isFrontWheel: isFront
         };
 
-        // Ajuster les paramètres selon la position de la roue
-        if (index < 2) {
-            wheelOptions.frictionSlip = 2.0;
-            wheelOptions.rollInfluence = 0.08;
-        } else {
-            wheelOptions.frictionSlip = 1.2;
-            wheelOptions.rollInfluence = 0.05;
-        }
-
         const wheelIndex = this.vehicle.addWheel(wheelOptions);
         this.wheelMeshes[wheelIndex] = wheelMesh;
 
@@ -315,75 +591,163 @@ export class Car {
         
         // Limiter le delta pour éviter les grands sauts de physique
         const limitedDelta = Math.min(delta, 1/30);
-        
+
+        this.updateWheelSurfaces();
+        this.updateRespawn(limitedDelta);
+        this.nitro.update(limitedDelta, this.getDriftState().isDrifting, this.controls.isNitroPressed(), this.getWheelsInContact());
+        this.input = this.inputFilter.update(this.controls, Math.min(this.getSpeed() / this.config.maxSpeed, 1), limitedDelta);
         this.updateVehicleControls(limitedDelta);
         this.applyAdvancedAerodynamics(limitedDelta);
         this.updateWheels();
         this.updateModel();
+        this.exhaustFlame?.update(limitedDelta, this.nitro.isActive());
         this.updateDriftState();
+        this.driftScorer.update(limitedDelta, this.body, this.getForwardDirection(), this.isDriftDetected);
+    }
+
+    private updateRespawn(delta: number): void {
+        if (!this.respawnManager || !this.vehicle || !this.body) return;
+
+        const reason = this.respawnManager.update(delta, this.body, this.controls, this.getWheelsInContact());
+        if (reason) {
+            const point = this.respawnManager.getRespawnPoint(this.getPosition());
+            this.resetTo(point.position, point.yaw);
+        }
     }
 
     private updateVehicleControls(delta: number): void {
-        if (!this.vehicle) return;
+        if (!this.vehicle || !this.body) return;
 
-        const maxSteerVal = Car.PHYSICS_CONFIG.MAX_STEER;
-        const maxForce = Car.PHYSICS_CONFIG.MAX_FORCE;
-        const brakeForce = Car.PHYSICS_CONFIG.BRAKE_FORCE;
+        // Frein en marchant vers l'avant, marche arrière une fois arrêté
+        const forwardSpeed = this.getForwardSpeed();
+        const brake = this.input.brake;
+        const isBraking = brake > 0 && forwardSpeed > this.handling.dynamics.brakeToReverseSpeed;
+        const serviceBrake = isBraking ? brake * this.body.mass * this.config.deceleration : 0;
 
-        this.handleAcceleration(maxForce, delta);
-        this.handleBraking(brakeForce, delta);
-        this.handleSteering(maxSteerVal);
+        this.handleAcceleration(forwardSpeed, isBraking);
+        this.applySurfaceResistance(forwardSpeed);
+        this.handleBraking(this.handling.engine.handbrakeForce, serviceBrake);
+        this.handleSteering(this.handling.engine.maxSteer);
     }
 
-    private handleAcceleration(maxForce: number, delta: number): void {
-        if (!this.vehicle) return;
+    /**
+     * Vitesse le long de l'axe de la voiture en m/s (négative en marche arrière)
+     */
+    public getForwardSpeed(): number {
+        if (!this.body) return 0;
+        return this.getForwardDirection().dot(this.body.velocity);
+    }
 
-        // Calculer la force en fonction de la vitesse et du drift
-        const speed = this.getSpeed();
-        const speedFactor = Math.max(
-            Car.VEHICLE_DYNAMICS.MIN_SPEED_FACTOR, 
-            1 - speed / Car.VEHICLE_DYNAMICS.MAX_SPEED_KMH
-        );
-        
-        // Ne pas multiplier la force de base par delta, seulement les variations
-        const engineForce = maxForce * speedFactor;
-
-        if (this.controls.isKeyPressed('s')) {
-            const reverseForce = engineForce * Car.PHYSICS_CONFIG.REVERSE_POWER_RATIO;
-            // Distribution plus équilibrée des forces en marche arrière
-            this.vehicle.applyEngineForce(-reverseForce * 0.7, 2);
-            this.vehicle.applyEngineForce(-reverseForce * 0.7, 3);
-            this.vehicle.applyEngineForce(-reverseForce * 0.3, 0);
-            this.vehicle.applyEngineForce(-reverseForce * 0.3, 1);
-        } else if (this.controls.isKeyPressed('z')) {
-            // Distribution plus équilibrée des forces en marche avant
-            this.vehicle.applyEngineForce(engineForce * 0.7, 2);
-            this.vehicle.applyEngineForce(engineForce * 0.7, 3);
-            this.vehicle.applyEngineForce(engineForce * 0.3, 0);
-            this.vehicle.applyEngineForce(engineForce * 0.3, 1);
+    private handleAcceleration(forwardSpeed: number, isBraking: boolean): void {
+        if (!this.vehicle || !this.body) return;
+
+        // Force donnant l'accélération demandée, qui s'annule à l'approche de la vitesse maximale
+        const { maxSpeed, acceleration } = this.config;
+        const driveForce = this.body.mass * acceleration;
+        const isBoosting = this.nitro.isActive();
+        const topSpeed = isBoosting ? maxSpeed + this.handling.nitro.speedBonus : maxSpeed;
+        const fade = maxSpeed * this.handling.dynamics.topSpeedFade;
+        const reverseMaxSpeed = maxSpeed * this.handling.dynamics.reverseSpeedRatio;
+
+        const { throttle, brake } = this.input;
+
+        const engine = this.handling.engine;
+        if (isBraking) {
+            this.applyDriveForce(0);
+        } else if (brake > 0) {
+            const speedFactor = THREE.MathUtils.clamp((reverseMaxSpeed + forwardSpeed) / fade, 0, 1);
+            this.applyDriveForce(-driveForce * brake * engine.reverseRatio * speedFactor);
+        } else if (throttle > 0 || isBoosting) {
+            // La nitro pousse même sans accélérateur
+            const power = throttle + (isBoosting ? this.handling.nitro.forceMultiplier : 0);
+            const speedFactor = THREE.MathUtils.clamp((topSpeed - forwardSpeed) / fade, 0, 1);
+            this.applyDriveForce(driveForce * power * speedFactor);
         } else {
-            // Pour le frein moteur, nous gardons le delta car c'est une force qui s'accumule
-            const engineBrakeForce = Math.min(this.getSpeed() * Car.PHYSICS_CONFIG.ENGINE_BRAKE_FACTOR, maxForce * 0.3);
-            // Distribution plus équilibrée du frein moteur
-            this.vehicle.applyEngineForce(-engineBrakeForce * Math.sign(this.body!.velocity.z) * 0.7, 2);
-            this.vehicle.applyEngineForce(-engineBrakeForce * Math.sign(this.body!.velocity.z) * 0.7, 3);
-            this.vehicle.applyEngineForce(-engineBrakeForce * Math.sign(this.body!.velocity.z) * 0.3, 0);
-            this.vehicle.applyEngineForce(-engineBrakeForce * Math.sign(this.body!.velocity.z) * 0.3, 1);
+            // Frein moteur proportionnel à la vitesse, opposé au sens de déplacement
+            const engineBrakeForce = Math.min(
+                Math.abs(forwardSpeed) * engine.engineBrakeFactor,
+                driveForce * this.handling.dynamics.engineBrakeRatio
+            );
+            this.applyDriveForce(-engineBrakeForce * Math.sign(forwardSpeed));
         }
     }
 
-    private handleBraking(brakeForce: number, delta: number): void {
+    /**
+     * Répartit la force motrice entre les essieux selon la transmission de la voiture
+     */
+    private applyDriveForce(force: number): void {
+        if (!this.vehicle) return;
+
+        const rearRatio = this.handling.engine.rearDriveRatio;
+        this.vehicle.applyEngineForce(force * rearRatio, 2);
+        this.vehicle.applyEngineForce(force * rearRatio, 3);
+        this.vehicle.applyEngineForce(force * (1 - rearRatio), 0);
+        this.vehicle.applyEngineForce(force * (1 - rearRatio), 1);
+    }
+
+    /**
+     * Lit le revêtement touché par chaque roue au dernier pas de physique (nom du matériau du corps touché)
+     */
+    private updateWheelSurfaces(): void {
+        if (!this.vehicle) return;
+
+        this.vehicle.wheelInfos.forEach((wheel, i) => {
+            if (!wheel.isInContact) {
+                this.wheelSurfaces[i] = null;
+                return;
+            }
+            const name = wheel.raycastResult.body?.material?.name;
+            this.wheelSurfaces[i] = SURFACE_TYPES.find(type => type === name) ?? DEFAULT_SURFACE_TYPE;
+        });
+    }
+
+    private getSurfaceProperties(wheelIndex: number): SurfaceProperties {
+        const surface = this.wheelSurfaces[wheelIndex] ?? DEFAULT_SURFACE_TYPE;
+        const properties = SURFACE_PROPERTIES[surface];
+        if (!this.weather) return properties;
+        return { ...properties, grip: properties.grip * this.weather.getGripMultiplier(surface) };
+    }
+
+    /**
+     * Résistance au roulement des revêtements meubles (herbe, sable...), opposée au déplacement
+     */
+    private applySurfaceResistance(forwardSpeed: number): void {
+        if (!this.body) return;
+
+        // Chaque roue au contact porte un quart de la décélération de son revêtement
+        const deceleration = this.wheelSurfaces.reduce((total, surface) => {
+            return surface ? total + SURFACE_PROPERTIES[surface].rollingResistance / 4 : total;
+        }, 0);
+        if (deceleration === 0) return;
+
+        // Atténuée à très basse vitesse pour ne pas faire reculer la voiture à l'arrêt
+        const speedFactor = Math.min(Math.abs(forwardSpeed), 1) * Math.sign(forwardSpeed);
+        const forward = this.getForwardDirection();
+        this.body.applyForce(forward.scale(-this.body.mass * deceleration * speedFactor));
+    }
+
+    /**
+     * @param serviceBrake Force de freinage totale en N, répartie sur les quatre roues
+     */
+    private handleBraking(handbrakeForce: number, serviceBrake: number): void {
         if (!this.vehicle) return;
 
-        if (this.controls.isKeyPressed('space')) {
+        // Adhérence des pneus (réduite à l'arrière au frein à main) modulée par le revêtement sous chaque roue
+        const tires = this.handling.tires;
+        const isHandbrakePressed = this.input.handbrake;
+        const rearFriction = isHandbrakePressed ? tires.rearHandbrakeFriction : tires.rearFriction;
+        [tires.frontFriction, tires.frontFriction, rearFriction, rearFriction].forEach((friction, i) => {
+            const wheel = this.vehicle!.wheelInfos[i];
+            if (wheel) {
+                wheel.frictionSlip = friction * this.getSurfaceProperties(i).grip;
+            }
+        });
+
+        if (isHandbrakePressed) {
             // Application du frein à main
             // Fort freinage sur les roues arrière
-            this.vehicle.setBrake(brakeForce * Car.DRIFT_CONFIG.REAR_BRAKE_FORCE, 2);
-            this.vehicle.setBrake(brakeForce * Car.DRIFT_CONFIG.REAR_BRAKE_FORCE, 3);
-            
-            // Réduire la friction des roues arrière pendant le frein à main
-            this.vehicle.wheelInfos[2].frictionSlip = Car.DRIFT_CONFIG.REAR_FRICTION_HANDBRAKE;
-            this.vehicle.wheelInfos[3].frictionSlip = Car.DRIFT_CONFIG.REAR_FRICTION_HANDBRAKE;
+            this.vehicle.setBrake(handbrakeForce, 2);
+            this.vehicle.setBrake(handbrakeForce, 3);
 
             // Pas de freinage sur les roues avant pour garder le contrôle
             this.vehicle.setBrake(0, 0);
@@ -393,15 +757,9 @@ export class Car {
             this.vehicle.applyEngineForce(0, 2);
             this.vehicle.applyEngineForce(0, 3);
         } else {
-            // Rétablir la friction normale des roues
-            this.vehicle.wheelInfos[0].frictionSlip = Car.DRIFT_CONFIG.FRONT_FRICTION;
-            this.vehicle.wheelInfos[1].frictionSlip = Car.DRIFT_CONFIG.FRONT_FRICTION;
-            this.vehicle.wheelInfos[2].frictionSlip = Car.DRIFT_CONFIG.REAR_FRICTION_NORMAL;
-            this.vehicle.wheelInfos[3].frictionSlip = Car.DRIFT_CONFIG.REAR_FRICTION_NORMAL;
-
-            // Relâcher tous les freins
+            // Freinage réparti sur les quatre roues (aucun sans pédale de frein)
             for (let i = 0; i < 4; i++) {
-                this.vehicle.setBrake(0, i);
+                this.vehicle.setBrake(serviceBrake / 4, i);
             }
         }
 
@@ -416,43 +774,30 @@ export class Car {
     private handleSteering(maxSteer: number): void {
         if (!this.vehicle) return;
 
-        // Ajuster le facteur de vitesse pour le braquage de manière plus progressive
+        // La direction lissée tient déjà compte de la vitesse (VehicleInputFilter) : elle est seulement
+        // ramenée au braquage maximum, une valeur positive braquant les roues vers la gauche
         const speed = this.getSpeed();
-        const speedFactor = Math.max(
-            Car.VEHICLE_DYNAMICS.MIN_STEERING_FACTOR,
-            Math.pow(
-                1 - (speed / Car.VEHICLE_DYNAMICS.MAX_STEERING_SPEED_KMH),
-                Car.VEHICLE_DYNAMICS.STEERING_POWER_FACTOR
-            )
-        );
-        const currentMaxSteer = maxSteer * speedFactor;
-
-        let targetSteering = 0;
-        if (this.controls.isKeyPressed('q')) {
-            targetSteering = currentMaxSteer;
-        } else if (this.controls.isKeyPressed('d')) {
-            targetSteering = -currentMaxSteer;
-        }
+        const steering = -this.input.steer * maxSteer;
 
         // Modifier la physique du véhicule pour des virages plus réalistes
         if (this.body) {
             // Augmenter la résistance au roulement en virage
-            const turnResistance = Math.abs(targetSteering) * speed * 
-                Car.VEHICLE_DYNAMICS.TURN_RESISTANCE_FACTOR;
-            this.body.angularDamping = Car.VEHICLE_DYNAMICS.BASE_ANGULAR_DAMPING + turnResistance;
+            const turnResistance = Math.abs(steering) * speed * 
+                this.handling.dynamics.turnResistanceFactor;
+            this.body.angularDamping = this.handling.dynamics.baseAngularDamping + turnResistance;
             
             // Ajouter une légère résistance latérale
-            if (speed > Car.VEHICLE_DYNAMICS.MIN_SPEED_FOR_LATERAL_RESISTANCE) {
+            if (speed > this.handling.dynamics.minSpeedForLateralResistance) {
                 const lateralVelocity = new CANNON.Vec3();
                 this.body.vectorToLocalFrame(this.body.velocity, lateralVelocity);
                 const lateralResistance = Math.abs(lateralVelocity.x) * 
-                    Car.VEHICLE_DYNAMICS.LATERAL_RESISTANCE_FACTOR;
-                this.body.linearDamping = Car.VEHICLE_DYNAMICS.BASE_LINEAR_DAMPING + 
+                    this.handling.dynamics.lateralResistanceFactor;
+                this.body.linearDamping = this.handling.dynamics.baseLinearDamping + 
                     lateralResistance;
             }
         }
 
-        this.setSteeringAngle(targetSteering);
+        this.setSteeringAngle(steering);
     }
 
     private setSteeringAngle(angle: number): void {
@@ -626,9 +971,16 @@ export class Car {
 
     private applyAdvancedAerodynamics(delta: number): void {
         if (!this.body || !this.vehicle) return;
-        
+
+        // Vent météo, quelle que soit la vitesse de la voiture
+        const wind = this.weather?.getWind();
+        if (wind && (wind.x !== 0 || wind.z !== 0)) {
+            const windForce = Math.hypot(wind.x, wind.z) * this.handling.aerodynamics.windForceFactor;
+            this.body.applyForce(new CANNON.Vec3(wind.x * windForce, 0, wind.z * windForce));
+        }
+
         const speed = this.getSpeed();
-        if (speed < Car.AERODYNAMICS_CONFIG.SPEED_THRESHOLD) return;
+        if (speed < this.handling.aerodynamics.speedThreshold) return;
 
         const speedSquared = speed * speed;
         const velocity = this.body.velocity;
@@ -636,7 +988,7 @@ export class Car {
         this.body.vectorToWorldFrame(forward, forward);
 
         // Downforce
-        const downforce = speedSquared * Car.AERODYNAMICS_CONFIG.DOWNFORCE_FACTOR;
+        const downforce = speedSquared * this.handling.aerodynamics.downforceFactor;
         this.body.applyLocalForce(
             new CANNON.Vec3(0, -downforce, 0),
             new CANNON.Vec3(0, 0, 0)
@@ -644,14 +996,14 @@ export class Car {
 
         // Ground effect (plus la voiture est proche du sol, plus la downforce est importante)
         const groundEffect = Math.max(0, 1 - this.body.position.y) * 
-            speedSquared * Car.AERODYNAMICS_CONFIG.GROUND_EFFECT_FACTOR;
+            speedSquared * this.handling.aerodynamics.groundEffectFactor;
         this.body.applyLocalForce(
             new CANNON.Vec3(0, -groundEffect, 0),
             new CANNON.Vec3(0, 0, 0)
         );
 
         // Air resistance
-        const airResistance = speedSquared * Car.AERODYNAMICS_CONFIG.AIR_RESISTANCE_FACTOR;
+        const airResistance = speedSquared * this.handling.aerodynamics.airResistanceFactor;
         const resistanceForce = new CANNON.Vec3(
             -velocity.x * airResistance,
             -velocity.y * airResistance,
@@ -660,22 +1012,22 @@ export class Car {
         this.body.applyForce(resistanceForce, this.body.position);
 
         // Lift force (légère force de portance)
-        const lift = speedSquared * Car.AERODYNAMICS_CONFIG.LIFT_FACTOR;
+        const lift = speedSquared * this.handling.aerodynamics.liftFactor;
         this.body.applyLocalForce(
             new CANNON.Vec3(0, lift, 0),
             new CANNON.Vec3(0, 0, 0)
         );
 
-        // Turbulence (effet aléatoire pour plus de réalisme)
-        const turbulence = (Math.random() - 0.5) * 
-            speedSquared * Car.AERODYNAMICS_CONFIG.TURBULENCE_FACTOR;
+        // Turbulence (effet aléatoire déterministe pour plus de réalisme)
+        const turbulence = (this.random.next() - 0.5) * 
+            speedSquared * this.handling.aerodynamics.turbulenceFactor;
         this.body.applyLocalForce(
             new CANNON.Vec3(turbulence, 0, turbulence),
             new CANNON.Vec3(0, 0, 0)
         );
 
         // Wind resistance (résistance au vent latéral)
-        const windResistance = speedSquared * Car.AERODYNAMICS_CONFIG.WIND_RESISTANCE;
+        const windResistance = speedSquared * this.handling.aerodynamics.windResistance;
         this.body.applyLocalForce(
             new CANNON.Vec3(-velocity.x * windResistance, 0, 0),
             new CANNON.Vec3(0, 0, 0)
@@ -692,10 +1044,10 @@ export class Car {
 
         // Détection du drift basée sur plusieurs facteurs
         const isDrifting = 
-            speed > Car.DRIFT_CONFIG.DRIFT_INITIATION_SPEED && 
-            Math.abs(angularVelocity) > Car.DRIFT_CONFIG.DRIFT_ANGLE_THRESHOLD &&
+            speed > this.handling.drift.initiationSpeed && 
+            Math.abs(angularVelocity) > this.handling.drift.angleThreshold &&
             lateralVelocity > 5 &&
-            this.controls.isKeyPressed('space');
+            this.input.handbrake;
 
         // Transition progressive entre l'état normal et le drift
         if (isDrifting && !this.isDriftDetected) {
@@ -718,13 +1070,13 @@ export class Car {
         // Appliquer les paramètres de drift
         this.wheelBodies.forEach((wheel: CANNON.Body, index: number) => {
             if (index >= 2 && wheel.material) { // Roues arrière
-                wheel.material.friction = Car.DRIFT_CONFIG.REAR_FRICTION_HANDBRAKE;
+                wheel.material.friction = this.handling.tires.rearHandbrakeFriction;
             }
         });
 
         // Augmenter le couple moteur pendant le drift
         if (this.body) {
-            this.body.angularDamping *= Car.DRIFT_CONFIG.DRIFT_STABILITY_FACTOR;
+            this.body.angularDamping *= this.handling.drift.stabilityFactor;
         }
     }
 
@@ -734,13 +1086,13 @@ export class Car {
         // Restaurer les paramètres normaux
         this.wheelBodies.forEach((wheel: CANNON.Body, index: number) => {
             if (index >= 2 && wheel.material) { // Roues arrière
-                wheel.material.friction = Car.DRIFT_CONFIG.REAR_FRICTION_NORMAL;
+                wheel.material.friction = this.handling.tires.rearFriction;
             }
         });
 
         // Restaurer l'amortissement angulaire
         if (this.body) {
-            this.body.angularDamping = Car.VEHICLE_DYNAMICS.BASE_ANGULAR_DAMPING;
+            this.body.angularDamping = this.handling.dynamics.baseAngularDamping;
         }
     }
 
@@ -749,30 +1101,30 @@ export class Car {
 
         // Ajuster la direction en fonction de la vitesse et de l'angle de drift
         const driftSteeringMultiplier = Math.min(
-            1 + (speed / Car.DRIFT_CONFIG.DRIFT_INITIATION_SPEED),
-            Car.DRIFT_CONFIG.DRIFT_STEERING_MULTIPLIER
+            1 + (speed / this.handling.drift.initiationSpeed),
+            this.handling.drift.steeringMultiplier
         );
 
         // Appliquer un couple de correction pour maintenir le drift
-        const correctionTorque = -angularVelocity * Car.DRIFT_CONFIG.DRIFT_STABILITY_FACTOR;
+        const correctionTorque = -angularVelocity * this.handling.drift.stabilityFactor;
         this.body.applyTorque(new CANNON.Vec3(0, correctionTorque, 0));
 
         // Ajuster la friction en fonction de la vitesse latérale
         // Utiliser une courbe plus douce pour la friction latérale
         const lateralFrictionFactor = Math.max(
             0.3, // Augmenté pour un meilleur contrôle
-            1 - (lateralVelocity / speed) * Car.DRIFT_CONFIG.DRIFT_MOMENTUM_FACTOR
+            1 - (lateralVelocity / speed) * this.handling.drift.momentumFactor
         );
 
         // Appliquer une force de propulsion supplémentaire pendant le drift pour conserver l'élan
-        if (this.controls.isKeyPressed('z')) {
-            const forwardForce = new CANNON.Vec3(0, 0, 10 * speed / Car.DRIFT_CONFIG.DRIFT_INITIATION_SPEED);
+        if (this.input.throttle > 0) {
+            const forwardForce = new CANNON.Vec3(0, 0, 10 * speed / this.handling.drift.initiationSpeed);
             this.body.applyLocalForce(forwardForce, new CANNON.Vec3(0, 0, 0));
         }
 
         this.wheelBodies.forEach((wheel: CANNON.Body, index: number) => {
             if (index >= 2 && wheel.material) { // Roues arrière
-                wheel.material.friction = Car.DRIFT_CONFIG.REAR_FRICTION_HANDBRAKE * lateralFrictionFactor;
+                wheel.material.friction = this.handling.tires.rearHandbrakeFriction * lateralFrictionFactor;
             }
         });
     }
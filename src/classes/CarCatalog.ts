@@ -0,0 +1,77 @@
+import { CAR_INDEX_URL, DEFAULT_VEHICLE, DEFAULT_VEHICLE_HANDLING, VehicleDefinition } from '../interfaces/VehicleDefinition';
+
+/**
+ * Catalogue des voitures du garage : l'index public/cars/index.json liste les définitions disponibles.
+ * La lecture des fichiers est fournie par l'appelant (fetch dans le navigateur, disque sur le serveur).
+ */
+export class CarCatalog {
+    /**
+     * Charge toutes les définitions listées dans l'index (une définition invalide est ignorée)
+     * @param readJson Lit et décode un fichier JSON à partir de son URL
+     */
+    public static async load(readJson: (url: string) => Promise<unknown>): Promise<VehicleDefinition[]> {
+        const index = await readJson(CAR_INDEX_URL) as { cars: string[] };
+        const baseUrl = CAR_INDEX_URL.slice(0, CAR_INDEX_URL.lastIndexOf('/') + 1);
+
+        const results = await Promise.allSettled(
+            index.cars.map(async (file) => CarCatalog.parse(await readJson(baseUrl + file)))
+        );
+
+        return results.flatMap((result, i) => {
+            if (result.status === 'fulfilled') return [result.value];
+            console.error(`Définition de voiture ${index.cars[i]} invalide:`, result.reason);
+            return [];
+        });
+    }
+
+    /**
+     * Valide une définition et complète le comportement avec les réglages de la voiture d'origine
+     */
+    public static parse(data: unknown): VehicleDefinition {
+        const definition = data as Partial<VehicleDefinition>;
+        if (!definition || typeof definition.id !== 'string' || typeof definition.model !== 'string') {
+            throw new Error('Une définition de voiture doit définir id et model');
+        }
+
+        const defaults = DEFAULT_VEHICLE_HANDLING;
+        const handling = definition.handling;
+        return {
+            id: definition.id,
+            name: definition.name ?? definition.id,
+            description: definition.description,
+            model: definition.model,
+            performance: definition.performance,
+            handling: {
+                chassis: { ...defaults.chassis, ...handling?.chassis },
+                wheels: { ...defaults.wheels, ...handling?.wheels },
+                suspension: { ...defaults.suspension, ...handling?.suspension },
+                tires: { ...defaults.tires, ...handling?.tires },
+                engine: { ...defaults.engine, ...handling?.engine },
+                nitro: { ...defaults.nitro, ...handling?.nitro },
+                drift: { ...defaults.drift, ...handling?.drift },
+                dynamics: { ...defaults.dynamics, ...handling?.dynamics },
+                aerodynamics: { ...defaults.aerodynamics, ...handling?.aerodynamics },
+                response: { ...defaults.response, ...handling?.response }
+            }
+        };
+    }
+
+    /**
+     * Voitures disponibles dans le navigateur, la voiture d'origine si le catalogue est inaccessible
+     */
+    public static async fetchAll(): Promise<VehicleDefinition[]> {
+        try {
+            const cars = await CarCatalog.load(async (url) => {
+                const response = await fetch(url);
+                if (!response.ok) {
+                    throw new Error(`${url} : ${response.status}`);
+                }
+                return response.json();
+            });
+            if (cars.length > 0) return cars;
+        } catch (error) {
+            console.error('Impossible de charger le catalogue des voitures:', error);
+        }
+        return [DEFAULT_VEHICLE];
+    }
+}
@@ -1,17 +1,34 @@
-export class CarControls {
+import { CarInputSource } from "../interfaces/CarInput";
+import { CONTROL_ACTIONS, ControlAction, ControlScheme, PLAYER_ONE_CONTROLS } from "../interfaces/ControlScheme";
+import { InputBindings } from "./InputBindings";
+
+export class CarControls implements CarInputSource {
     private keys: { [key: string]: boolean } = {};
     private isEnabled: boolean = true;
+    private scheme: ControlScheme;
+    private actionListeners: ((action: ControlAction) => void)[] = [];
 
-    constructor() {
+    /**
+     * @param scheme Touches du joueur (plusieurs instances peuvent partager le clavier)
+     */
+    constructor(scheme: ControlScheme = PLAYER_ONE_CONTROLS) {
+        this.scheme = { ...scheme };
         this.setupKeyboardControls();
     }
 
     private setupKeyboardControls(): void {
         window.addEventListener('keydown', (event) => {
+            const normalizedKey = this.normalizeKey(event.key);
             if (this.isEnabled) {
-                const normalizedKey = this.normalizeKey(event.key);
                 this.keys[normalizedKey] = true;
             }
+
+            // Les actions hors pilotage (caméra) restent disponibles voiture bloquée
+            if (!event.repeat) {
+                CONTROL_ACTIONS
+                    .filter(action => this.scheme[action] === normalizedKey)
+                    .forEach(action => this.actionListeners.forEach(listener => listener(action)));
+            }
         });
 
         window.addEventListener('keyup', (event) => {
@@ -28,15 +45,7 @@ export class CarControls {
      * @returns La touche normalisée
      */
     private normalizeKey(key: string): string {
-        // Convertir en minuscules
-        const lowerKey = key.toLowerCase();
-        
-        // Normaliser la touche espace
-        if (lowerKey === ' ' || lowerKey === 'space') {
-            return 'space';
-        }
-        
-        return lowerKey;
+        return InputBindings.normalizeKey(key);
     }
 
     /**
@@ -49,6 +58,59 @@ export class CarControls {
         return this.keys[normalizedKey] || false;
     }
 
+    /**
+     * Vérifie si la touche d'une action est pressée
+     */
+    public isActionPressed(action: ControlAction): boolean {
+        return this.isKeyPressed(this.scheme[action]);
+    }
+
+    public getThrottle(): number {
+        return this.isActionPressed('accelerate') ? 1 : 0;
+    }
+
+    public getBrake(): number {
+        return this.isActionPressed('brake') ? 1 : 0;
+    }
+
+    public getSteering(): number {
+        let steering = 0;
+        if (this.isActionPressed('steerLeft')) steering -= 1;
+        if (this.isActionPressed('steerRight')) steering += 1;
+        return steering;
+    }
+
+    public isHandbrakePressed(): boolean {
+        return this.isActionPressed('handbrake');
+    }
+
+    public isResetPressed(): boolean {
+        return this.isActionPressed('reset');
+    }
+
+    public isNitroPressed(): boolean {
+        return this.isActionPressed('nitro');
+    }
+
+    /**
+     * Appelé à chaque appui sur la touche d'une action, même commandes désactivées
+     */
+    public onActionPressed(listener: (action: ControlAction) => void): void {
+        this.actionListeners.push(listener);
+    }
+
+    public getScheme(): ControlScheme {
+        return this.scheme;
+    }
+
+    /**
+     * Change les touches du joueur (les touches enfoncées sont relâchées)
+     */
+    public setScheme(scheme: ControlScheme): void {
+        this.scheme = { ...scheme };
+        this.keys = {};
+    }
+
     public enable(): void {
         this.isEnabled = true;
     }
@@ -58,4 +120,4 @@ export class CarControls {
         // Reset all keys when disabled
         this.keys = {};
     }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,46 @@
+import { CarInputSource } from '../interfaces/CarInput';
+
+/**
+ * Réunit plusieurs sources de commandes pour une même voiture (clavier et manette) :
+ * la pédale la plus enfoncée l'emporte, les directions s'additionnent.
+ */
+export class CombinedInputSource implements CarInputSource {
+    private sources: CarInputSource[];
+
+    constructor(sources: CarInputSource[]) {
+        this.sources = sources;
+    }
+
+    public getThrottle(): number {
+        return Math.max(0, ...this.sources.map(source => source.getThrottle()));
+    }
+
+    public getBrake(): number {
+        return Math.max(0, ...this.sources.map(source => source.getBrake()));
+    }
+
+    public getSteering(): number {
+        const steering = this.sources.reduce((total, source) => total + source.getSteering(), 0);
+        return Math.min(Math.max(steering, -1), 1);
+    }
+
+    public isHandbrakePressed(): boolean {
+        return this.sources.some(source => source.isHandbrakePressed());
+    }
+
+    public isResetPressed(): boolean {
+        return this.sources.some(source => source.isResetPressed());
+    }
+
+    public isNitroPressed(): boolean {
+        return this.sources.some(source => source.isNitroPressed());
+    }
+
+    public enable(): void {
+        this.sources.forEach(source => source.enable());
+    }
+
+    public disable(): void {
+        this.sources.forEach(source => source.disable());
+    }
+}
@@ -0,0 +1,255 @@
+import {
+    CONTROL_ACTIONS,
+    CONTROL_ACTION_NAMES,
+    CONTROL_PRESETS,
+    CONTROL_PRESET_TYPES,
+    ControlAction,
+    ControlPresetType,
+    ControlScheme
+} from '../interfaces/ControlScheme';
+import {
+    DEFAULT_TOUCH_LAYOUT,
+    TOUCH_DISPLAY_MODES,
+    TOUCH_DISPLAY_NAMES,
+    TOUCH_STEERING_MODES,
+    TOUCH_STEERING_NAMES,
+    TouchLayout
+} from '../interfaces/TouchControls';
+import { InputBindings } from './InputBindings';
+import { TouchControls } from './TouchControls';
+
+/**
+ * Menu des commandes : choix d'un préréglage (AZERTY, QWERTY, flèches) ou d'une touche par action
+ * pour chaque joueur. Les touches attribuées deux fois sont signalées et bloquent l'enregistrement.
+ * La disposition des commandes tactiles du joueur 1 se règle dans la même fenêtre.
+ */
+export class ControlsMenu {
+    private container: HTMLDivElement;
+    private schemes: ControlScheme[];
+    private bindingButtons: Map<string, HTMLButtonElement> = new Map();
+    private presetSelects: HTMLSelectElement[] = [];
+    private touchLayout: TouchLayout;
+    private touchInputs: (() => void)[] = [];
+    private status: HTMLDivElement;
+    private listening: { player: number, action: ControlAction } | null = null;
+
+    /**
+     * @param onClose Appelé à la fermeture du menu
+     */
+    constructor(onClose: () => void) {
+        this.schemes = InputBindings.load();
+        this.touchLayout = TouchControls.loadLayout();
+
+        this.container = document.createElement('div');
+        this.container.className = 'menu-overlay';
+
+        const panel = document.createElement('div');
+        panel.className = 'lobby-panel controls-panel';
+
+        const title = document.createElement('h2');
+        title.className = 'lobby-title';
+        title.textContent = 'Commandes';
+
+        const columns = document.createElement('div');
+        columns.className = 'controls-columns';
+        this.schemes.forEach((_, player) => columns.appendChild(this.createPlayerColumn(player)));
+        columns.appendChild(this.createTouchColumn());
+
+        this.status = document.createElement('div');
+        this.status.className = 'lobby-status';
+
+        const saveButton = document.createElement('button');
+        saveButton.className = 'play-button';
+        saveButton.textContent = 'Enregistrer';
+        saveButton.addEventListener('click', () => {
+            if (InputBindings.findConflicts(this.schemes).length > 0) return;
+            InputBindings.save(this.schemes);
+            TouchControls.saveLayout(this.touchLayout);
+            onClose();
+        });
+
+        const defaultsButton = document.createElement('button');
+        defaultsButton.className = 'replay-button';
+        defaultsButton.textContent = 'Par défaut';
+        defaultsButton.addEventListener('click', () => {
+            this.schemes = InputBindings.getDefaults();
+            this.touchLayout = { ...DEFAULT_TOUCH_LAYOUT };
+            this.refresh();
+        });
+
+        const backButton = document.createElement('button');
+        backButton.className = 'replay-button';
+        backButton.textContent = 'Retour';
+        backButton.addEventListener('click', onClose);
+
+        panel.appendChild(title);
+        panel.appendChild(columns);
+        panel.appendChild(this.status);
+        panel.appendChild(saveButton);
+        panel.appendChild(defaultsButton);
+        panel.appendChild(backButton);
+        this.container.appendChild(panel);
+        document.body.appendChild(this.container);
+
+        // En phase de capture pour que la touche choisie n'atteigne pas le reste du jeu
+        window.addEventListener('keydown', this.onKeyDown, true);
+        this.refresh();
+    }
+
+    private createPlayerColumn(player: number): HTMLDivElement {
+        const column = document.createElement('div');
+        column.className = 'lobby-list';
+
+        const name = document.createElement('div');
+        name.className = 'menu-card-name';
+        name.textContent = `Joueur ${player + 1}`;
+
+        const presetSelect = document.createElement('select');
+        presetSelect.className = 'lobby-input';
+        const placeholder = document.createElement('option');
+        placeholder.value = '';
+        placeholder.textContent = 'Personnalisé';
+        presetSelect.appendChild(placeholder);
+        CONTROL_PRESET_TYPES.forEach((type) => {
+            const option = document.createElement('option');
+            option.value = type;
+            option.textContent = CONTROL_PRESETS[type].name;
+            presetSelect.appendChild(option);
+        });
+        presetSelect.addEventListener('change', () => {
+            if (!presetSelect.value) return;
+            this.schemes[player] = { ...CONTROL_PRESETS[presetSelect.value as ControlPresetType].scheme };
+            this.refresh();
+        });
+        this.presetSelects.push(presetSelect);
+
+        column.appendChild(name);
+        column.appendChild(presetSelect);
+        CONTROL_ACTIONS.forEach((action) => {
+            const row = document.createElement('div');
+            row.className = 'lobby-row';
+            row.textContent = CONTROL_ACTION_NAMES[action];
+
+            const button = document.createElement('button');
+            button.className = 'replay-button binding-button';
+            button.addEventListener('click', () => {
+                this.listening = { player, action };
+                this.refresh();
+            });
+            this.bindingButtons.set(`${player}:${action}`, button);
+
+            row.appendChild(button);
+            column.appendChild(row);
+        });
+        return column;
+    }
+
+    /**
+     * Disposition des commandes tactiles : affichage, mode de direction, côté, taille et opacité
+     */
+    private createTouchColumn(): HTMLDivElement {
+        const column = document.createElement('div');
+        column.className = 'lobby-list';
+
+        const name = document.createElement('div');
+        name.className = 'menu-card-name';
+        name.textContent = 'Écran tactile';
+        column.appendChild(name);
+
+        const addSelect = <K extends keyof TouchLayout>(label: string, key: K, options: [TouchLayout[K], string][]) => {
+            const row = document.createElement('div');
+            row.className = 'lobby-row';
+            row.textContent = label;
+
+            const select = document.createElement('select');
+            select.className = 'lobby-input';
+            options.forEach(([, text], index) => {
+                const option = document.createElement('option');
+                option.value = String(index);
+                option.textContent = text;
+                select.appendChild(option);
+            });
+            select.addEventListener('change', () => {
+                this.touchLayout = { ...this.touchLayout, [key]: options[Number(select.value)][0] };
+            });
+            // Valeur enregistrée absente de la liste : la première option est affichée
+            this.touchInputs.push(() => {
+                const current = this.touchLayout[key];
+                const index = options.findIndex(([value]) => value === current);
+                select.value = String(index >= 0 ? index : 0);
+            });
+
+            row.appendChild(select);
+            column.appendChild(row);
+        };
+
+        addSelect('Affichage', 'display', TOUCH_DISPLAY_MODES.map(mode => [mode, TOUCH_DISPLAY_NAMES[mode]]));
+        addSelect('Direction', 'steering', TOUCH_STEERING_MODES.map(mode => [mode, TOUCH_STEERING_NAMES[mode]]));
+        addSelect('Côté de la direction', 'steeringSide', [['left', 'Gauche'], ['right', 'Droite']]);
+        addSelect('Taille', 'scale', [[0.75, 'Petite'], [1, 'Normale'], [1.25, 'Grande'], [1.5, 'Très grande']]);
+        addSelect('Opacité', 'opacity', [[0.3, '30 %'], [0.6, '60 %'], [0.9, '90 %']]);
+        addSelect('Inclinaison', 'tiltAngle', [[15, 'Sensible (15°)'], [25, 'Normale (25°)'], [40, 'Douce (40°)']]);
+        return column;
+    }
+
+    /**
+     * Attend la touche de l'action choisie ; Échap annule
+     */
+    private onKeyDown = (event: KeyboardEvent): void => {
+        if (!this.listening) return;
+        event.preventDefault();
+        event.stopPropagation();
+
+        if (event.key !== 'Escape') {
+            const { player, action } = this.listening;
+            this.schemes[player] = { ...this.schemes[player], [action]: InputBindings.normalizeKey(event.key) };
+        }
+        this.listening = null;
+        this.refresh();
+    };
+
+    /**
+     * Met à jour les touches affichées, le préréglage reconnu et les conflits
+     */
+    private refresh(): void {
+        const conflicts = InputBindings.findConflicts(this.schemes);
+        const conflicting = new Set(conflicts.flatMap(conflict => conflict.bindings.map(({ player, action }) => `${player}:${action}`)));
+
+        this.bindingButtons.forEach((button, id) => {
+            const [player, action] = id.split(':') as [string, ControlAction];
+            const isListening = this.listening?.player === Number(player) && this.listening.action === action;
+            button.textContent = isListening ? '...' : InputBindings.formatKey(this.schemes[Number(player)][action]);
+            button.classList.toggle('binding-conflict', conflicting.has(id));
+        });
+
+        this.presetSelects.forEach((select, player) => {
+            const preset = CONTROL_PRESET_TYPES.find(type => CONTROL_ACTIONS.every(
+                action => CONTROL_PRESETS[type].scheme[action] === this.schemes[player][action]
+            ));
+            select.value = preset ?? '';
+        });
+        this.touchInputs.forEach(update => update());
+
+        if (this.listening) {
+            this.setStatus(`Appuyez sur une touche pour « ${CONTROL_ACTION_NAMES[this.listening.action]} » (Échap pour annuler)`);
+        } else if (conflicts.length > 0) {
+            const conflict = conflicts[0];
+            const actions = conflict.bindings
+                .map(({ player, action }) => `${CONTROL_ACTION_NAMES[action]} (joueur ${player + 1})`)
+                .join(', ');
+            this.setStatus(`${InputBindings.formatKey(conflict.key)} est utilisée plusieurs fois : ${actions}`, true);
+        } else {
+            this.setStatus('');
+        }
+    }
+
+    private setStatus(message: string, isError: boolean = false): void {
+        this.status.textContent = message;
+        this.status.classList.toggle('error', isError);
+    }
+
+    public dispose(): void {
+        window.removeEventListener('keydown', this.onKeyDown, true);
+        this.container.remove();
+    }
+}
@@ -0,0 +1,83 @@
+import { Car } from './Car';
+import { DriftEvent } from './DriftScorer';
+
+export class DriftScoreDisplay {
+    private car: Car;
+    private container: HTMLDivElement;
+    private totalElement: HTMLDivElement;
+    private comboElement: HTMLDivElement;
+    private messageElement: HTMLDivElement;
+    private messageTimeout: number | null = null;
+
+    constructor(car: Car, parent: HTMLElement = document.body) {
+        this.car = car;
+
+        // Créer le conteneur
+        this.container = document.createElement('div');
+        this.container.style.position = 'fixed';
+        this.container.style.top = '60px';
+        this.container.style.right = '10px';
+        this.container.style.textAlign = 'right';
+        this.container.style.color = 'white';
+        this.container.style.fontFamily = 'Racing Sans One, monospace';
+        this.container.style.textShadow = '2px 2px 4px rgba(0, 0, 0, 0.7)';
+        this.container.style.zIndex = '1000';
+
+        this.totalElement = document.createElement('div');
+        this.totalElement.style.fontSize = '24px';
+
+        this.comboElement = document.createElement('div');
+        this.comboElement.style.fontSize = '32px';
+        this.comboElement.style.color = '#ffcc00';
+
+        this.messageElement = document.createElement('div');
+        this.messageElement.style.fontSize = '20px';
+
+        this.container.appendChild(this.totalElement);
+        this.container.appendChild(this.comboElement);
+        this.container.appendChild(this.messageElement);
+        parent.appendChild(this.container);
+
+        this.car.getDriftScorer().onDriftEvent((event, points) => this.showEvent(event, points));
+    }
+
+    private showEvent(event: DriftEvent, points: number): void {
+        if (event === 'comboBanked') {
+            this.messageElement.textContent = `+${points}`;
+            this.messageElement.style.color = '#00ff88';
+        } else {
+            this.messageElement.textContent = `COMBO PERDU -${points}`;
+            this.messageElement.style.color = '#ff4040';
+        }
+
+        if (this.messageTimeout !== null) {
+            window.clearTimeout(this.messageTimeout);
+        }
+        this.messageTimeout = window.setTimeout(() => {
+            this.messageElement.textContent = '';
+            this.messageTimeout = null;
+        }, 1500);
+    }
+
+    public update(): void {
+        const state = this.car.getDriftState();
+
+        this.totalElement.textContent = `DRIFT ${Math.round(state.totalScore)}`;
+
+        if (state.comboPoints > 0 || state.isDrifting) {
+            const angle = state.isDrifting ? ` ${Math.round(state.angle)}°` : '';
+            this.comboElement.textContent = `${Math.round(state.comboPoints)} x${state.multiplier.toFixed(1)}${angle}`;
+        } else {
+            this.comboElement.textContent = '';
+        }
+    }
+
+    public dispose(): void {
+        if (this.messageTimeout !== null) {
+            window.clearTimeout(this.messageTimeout);
+        }
+        if (this.container.parentNode) {
+            this.container.parentNode.removeChild(this.container);
+        }
+    }
+}
@@ -0,0 +1,183 @@
+import * as CANNON from 'cannon-es';
+import { DriftSnapshot } from '../interfaces/Replay';
+
+export interface DriftState {
+    isDrifting: boolean;
+    angle: number;              // Angle de dérive en degrés
+    duration: number;           // Durée du drift en cours en secondes
+    driftPoints: number;        // Points du drift en cours (avant multiplicateur)
+    comboCount: number;         // Nombre de drifts enchaînés dans le combo
+    multiplier: number;
+    comboPoints: number;        // Points du combo en attente de validation (multiplicateur appliqué)
+    totalScore: number;         // Points validés
+}
+
+export type DriftEvent = 'comboBanked' | 'comboCancelled';
+
+/**
+ * Mesure les drifts (angle, vitesse, durée), les enchaîne en combos
+ * et valide le score lorsque le combo se termine sans toucher un mur.
+ */
+export class DriftScorer {
+    private state: DriftState = DriftScorer.createInitialState();
+    private timeSinceDrift: number = 0;
+    private committedComboPoints: number = 0; // Points des drifts terminés du combo en cours
+    private hasPendingCombo: boolean = false;
+    private listeners: ((event: DriftEvent, points: number) => void)[] = [];
+
+    private static readonly SCORE_CONFIG = {
+        MIN_ANGLE: 12,              // Angle minimum en degrés pour compter un drift
+        MAX_ANGLE: 90,              // Au-delà, la voiture part en tête-à-queue
+        MIN_SPEED: 8,               // Vitesse minimum en m/s
+        POINTS_FACTOR: 0.1,         // Points par degré et par m/s chaque seconde
+        MIN_DURATION: 0.4,          // Durée minimum pour qu'un drift compte dans le combo
+        END_GRACE_TIME: 0.3,        // Tolérance avant de considérer le drift terminé
+        COMBO_WINDOW: 2.0,          // Délai pour enchaîner le drift suivant
+        MULTIPLIER_STEP: 0.5,       // Multiplicateur ajouté par drift enchaîné
+        MAX_MULTIPLIER: 5
+    };
+
+    private static createInitialState(): DriftState {
+        return {
+            isDrifting: false,
+            angle: 0,
+            duration: 0,
+            driftPoints: 0,
+            comboCount: 0,
+            multiplier: 1,
+            comboPoints: 0,
+            totalScore: 0
+        };
+    }
+
+    /**
+     * Met à jour le drift en cours (appelé à chaque pas fixe)
+     * @param deltaTime Pas de temps fixe
+     * @param body Corps physique du châssis
+     * @param forward Direction de la marche de la voiture dans le repère du monde (Car.getForwardDirection)
+     * @param isDriftDetected Drift détecté par la physique du véhicule
+     */
+    public update(deltaTime: number, body: CANNON.Body, forward: CANNON.Vec3, isDriftDetected: boolean): void {
+        const config = DriftScorer.SCORE_CONFIG;
+        const up = body.quaternion.vmult(new CANNON.Vec3(0, 1, 0));
+        const forwardSpeed = body.velocity.dot(forward);
+        const lateralSpeed = body.velocity.dot(forward.cross(up));
+        const speed = Math.sqrt(forwardSpeed * forwardSpeed + lateralSpeed * lateralSpeed);
+
+        // Angle entre l'axe de la voiture et sa trajectoire (uniquement en marche avant)
+        const angle = forwardSpeed > 0
+            ? Math.atan2(Math.abs(lateralSpeed), forwardSpeed) * 180 / Math.PI
+            : 0;
+        this.state.angle = angle;
+
+        const isSliding = angle >= config.MIN_ANGLE && angle <= config.MAX_ANGLE && speed >= config.MIN_SPEED;
+
+        if (isSliding || (isDriftDetected && this.state.isDrifting && speed >= config.MIN_SPEED)) {
+            if (!this.state.isDrifting) {
+                this.startDrift();
+            }
+            this.timeSinceDrift = 0;
+            this.state.duration += deltaTime;
+            this.state.driftPoints += angle * speed * config.POINTS_FACTOR * deltaTime;
+            this.state.comboPoints = this.committedComboPoints + this.state.driftPoints * this.state.multiplier;
+            return;
+        }
+
+        this.timeSinceDrift += deltaTime;
+
+        if (this.state.isDrifting && this.timeSinceDrift >= config.END_GRACE_TIME) {
+            this.endDrift();
+        }
+
+        if (this.hasPendingCombo && !this.state.isDrifting && this.timeSinceDrift >= config.COMBO_WINDOW) {
+            this.bankCombo();
+        }
+    }
+
+    private startDrift(): void {
+        this.state.isDrifting = true;
+        this.state.duration = 0;
+        this.state.driftPoints = 0;
+    }
+
+    private endDrift(): void {
+        const config = DriftScorer.SCORE_CONFIG;
+        this.state.isDrifting = false;
+
+        // Un drift trop court ne compte pas mais ne casse pas le combo
+        if (this.state.duration < config.MIN_DURATION) {
+            this.state.driftPoints = 0;
+            this.state.comboPoints = this.committedComboPoints;
+            return;
+        }
+
+        this.state.comboPoints = this.committedComboPoints + this.state.driftPoints * this.state.multiplier;
+        this.committedComboPoints = this.state.comboPoints;
+        this.state.driftPoints = 0;
+        this.state.comboCount++;
+        this.state.multiplier = Math.min(
+            1 + this.state.comboCount * config.MULTIPLIER_STEP,
+            config.MAX_MULTIPLIER
+        );
+        this.hasPendingCombo = true;
+    }
+
+    private bankCombo(): void {
+        const points = Math.round(this.state.comboPoints);
+        this.state.totalScore += points;
+        this.resetCombo();
+        this.listeners.forEach(listener => listener('comboBanked', points));
+    }
+
+    /**
+     * Annule le drift et le combo en cours (contact avec un mur)
+     */
+    public cancelCombo(): void {
+        if (!this.state.isDrifting && !this.hasPendingCombo) return;
+
+        const lostPoints = Math.round(this.state.comboPoints);
+        this.state.isDrifting = false;
+        this.resetCombo();
+        this.listeners.forEach(listener => listener('comboCancelled', lostPoints));
+    }
+
+    private resetCombo(): void {
+        this.state.driftPoints = 0;
+        this.state.comboCount = 0;
+        this.state.multiplier = 1;
+        this.state.comboPoints = 0;
+        this.committedComboPoints = 0;
+        this.hasPendingCombo = false;
+    }
+
+    public reset(): void {
+        this.state = DriftScorer.createInitialState();
+        this.timeSinceDrift = 0;
+        this.committedComboPoints = 0;
+        this.hasPendingCombo = false;
+    }
+
+    public onDriftEvent(listener: (event: DriftEvent, points: number) => void): void {
+        this.listeners.push(listener);
+    }
+
+    public getState(): DriftState {
+        return { ...this.state };
+    }
+
+    public getSnapshot(): DriftSnapshot {
+        return {
+            state: { ...this.state },
+            timeSinceDrift: this.timeSinceDrift,
+            committedComboPoints: this.committedComboPoints,
+            hasPendingCombo: this.hasPendingCombo
+        };
+    }
+
+    public applySnapshot(snapshot: DriftSnapshot): void {
+        this.state = { ...snapshot.state };
+        this.timeSinceDrift = snapshot.timeSinceDrift;
+        this.committedComboPoints = snapshot.committedComboPoints;
+        this.hasPendingCombo = snapshot.hasPendingCombo;
+    }
+}
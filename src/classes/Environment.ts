@@ -2,42 +2,198 @@ import * as THREE from "three";
 import { Light } from "../Scene/light";
 import { AmbientLight } from "../Scene/ambientLight";
 import { SceneConfig } from "../interfaces/SceneConfig";
+import { SKY_KEYFRAMES, SkyKeyframe } from "../interfaces/TimeOfDay";
 import { ThirdPersonCamera } from "./ThirdPersonCamera";
+import { SkyDome } from "./SkyDome";
 
+/**
+ * Éclairage selon l'heure de la course : course du soleil (et de la lune), ciel,
+ * lumière ambiante et allumage des phares. L'éclairage du manifeste est celui du plein jour.
+ */
 export class Environment {
     private scene: THREE.Scene;
     private camera: ThirdPersonCamera;
     private light: Light;
     private ambientLight: AmbientLight;
+    private skyDome: SkyDome;
     private config: SceneConfig;
+    private hour: number;
+
+    // Valeurs interpolées de l'heure courante
+    private zenith: THREE.Color = new THREE.Color();
+    private horizon: THREE.Color = new THREE.Color();
+    private sunColor: THREE.Color = new THREE.Color();
+    private sunDirection: THREE.Vector3 = new THREE.Vector3(0, 1, 0);
+    private daylight: number = 1;
+
+    private static readonly LIGHTING_CONFIG = {
+        HEADLIGHTS_ON: 0.6,         // Clarté en dessous de laquelle les phares s'allument
+        HEADLIGHTS_FULL: 0.2,       // Clarté en dessous de laquelle ils sont pleinement allumés
+        HORIZON_FADE: 0.1           // Hauteur du soleil sur laquelle sa lumière s'éteint en passant sous l'horizon
+    };
 
     constructor(scene: THREE.Scene, camera: ThirdPersonCamera, config: SceneConfig) {
         this.scene = scene;
         this.camera = camera;
         this.config = config;
+        this.hour = config.timeOfDay.hour;
         this.light = new Light();
         this.ambientLight = new AmbientLight();
+        this.skyDome = new SkyDome(scene);
         this.setupEnvironment();
     }
 
     private setupEnvironment(): void {
-        this.setupLights();
         this.addToScene();
-    }
 
-    private setupLights(): void {
-        this.light.getLight().castShadow = true;
-        this.light.getLight().shadow!.mapSize.width = 2048;
-        this.light.getLight().shadow!.mapSize.height = 2048;
+        const fog = this.config.track.sky.fog;
+        if (fog) {
+            this.scene.fog = new THREE.Fog(fog.color, fog.near, fog.far);
+        }
+        this.update(0);
     }
 
     private addToScene(): void {
         this.scene.add(this.camera.getCamera());
         this.scene.add(this.light.getLight());
+        this.scene.add(this.light.getLight().target);
         this.scene.add(this.ambientLight.getLight());
     }
 
+    /**
+     * Avance l'horloge de la course et met à jour soleil, ciel et lumière ambiante
+     */
+    public update(deltaTime: number): void {
+        const { timeScale } = this.config.timeOfDay;
+        this.hour = (this.hour + deltaTime * timeScale / 60 + 24) % 24;
+
+        const { ambient, sun } = this.config.track.lighting;
+        const { from, to, blend } = this.getKeyframes(this.hour);
+        const mix = (value: (keyframe: SkyKeyframe) => number) => value(from) + (value(to) - value(from)) * blend;
+        const mixColor = (target: THREE.Color, value: (keyframe: SkyKeyframe) => string) => {
+            return target.set(value(from)).lerp(new THREE.Color(value(to)), blend);
+        };
+
+        this.daylight = mix(keyframe => keyframe.daylight);
+
+        // Ciel : en plein jour, l'horizon prend la couleur du circuit
+        mixColor(this.zenith, keyframe => keyframe.zenith);
+        mixColor(this.horizon, keyframe => keyframe.horizon).lerp(new THREE.Color(this.config.track.sky.color), this.daylight);
+        if (this.scene.background instanceof THREE.Color) {
+            this.scene.background.copy(this.horizon);
+        } else {
+            this.scene.background = this.horizon.clone();
+        }
+
+        // Soleil le jour, lune la nuit, éteints sous l'horizon
+        this.updateSunDirection();
+        mixColor(this.sunColor, keyframe => keyframe.sunColor);
+        const horizonFade = THREE.MathUtils.clamp(this.sunDirection.y / Environment.LIGHTING_CONFIG.HORIZON_FADE, 0, 1);
+        const light = this.light.getLight();
+        light.color.copy(this.sunColor).multiply(new THREE.Color(sun.color));
+        light.intensity = sun.intensity * mix(keyframe => keyframe.sunIntensity) * horizonFade;
+
+        const cameraPosition = this.camera.getCamera().position;
+        this.light.setDirection(this.sunDirection, cameraPosition);
+
+        const hemisphere = this.ambientLight.getLight();
+        const ambientColor = new THREE.Color(ambient.color);
+        mixColor(hemisphere.color, keyframe => keyframe.skyLight).multiply(ambientColor);
+        mixColor(hemisphere.groundColor, keyframe => keyframe.groundLight).multiply(ambientColor);
+        hemisphere.intensity = ambient.intensity * mix(keyframe => keyframe.ambientIntensity);
+
+        this.skyDome.update(cameraPosition, this.zenith, this.horizon, this.sunDirection, this.sunColor, 1 - this.daylight);
+    }
+
+    /**
+     * Étapes de la journée encadrant l'heure donnée
+     */
+    private getKeyframes(hour: number): { from: SkyKeyframe, to: SkyKeyframe, blend: number } {
+        const nextIndex = SKY_KEYFRAMES.findIndex(keyframe => keyframe.hour > hour);
+        const to = SKY_KEYFRAMES[nextIndex === -1 ? 0 : nextIndex];
+        const from = SKY_KEYFRAMES[nextIndex === -1 ? SKY_KEYFRAMES.length - 1 : (nextIndex + SKY_KEYFRAMES.length - 1) % SKY_KEYFRAMES.length];
+
+        // Les étapes font le tour du cadran : la dernière rejoint la première le lendemain
+        const span = (to.hour - from.hour + 24) % 24 || 24;
+        const elapsed = (hour - from.hour + 24) % 24;
+        return { from, to, blend: Math.min(1, elapsed / span) };
+    }
+
+    /**
+     * Le soleil se lève à l'est, passe à midi à la position du manifeste et se couche à l'ouest ;
+     * la lune suit le même arc pendant la nuit
+     */
+    private updateSunDirection(): void {
+        const { sunrise, sunset } = this.config.timeOfDay;
+        const dayLength = sunset - sunrise;
+        const isDay = this.hour >= sunrise && this.hour < sunset;
+        const progress = isDay
+            ? (this.hour - sunrise) / dayLength
+            : ((this.hour - sunset + 24) % 24) / (24 - dayLength);
+        const angle = progress * Math.PI;
+
+        const { x, y, z } = this.config.track.lighting.sun.position;
+        const noon = new THREE.Vector3(x, y, z).normalize();
+        const up = new THREE.Vector3(0, 1, 0);
+        const east = new THREE.Vector3().crossVectors(up, noon);
+        if (east.lengthSq() < 1e-6) {
+            east.set(1, 0, 0);
+        }
+        east.normalize();
+
+        this.sunDirection.copy(east).multiplyScalar(Math.cos(angle)).addScaledVector(noon, Math.sin(angle)).normalize();
+    }
+
+    /**
+     * Couleur du ciel à l'horizon (brouillard par temps clair)
+     */
+    public getSkyColor(): THREE.Color {
+        return this.horizon;
+    }
+
+    /**
+     * Clarté de 0 (nuit noire) à 1 (plein jour)
+     */
+    public getDaylight(): number {
+        return this.daylight;
+    }
+
+    /**
+     * Allumage des phares de 0 à 1
+     */
+    public getHeadlightLevel(): number {
+        const config = Environment.LIGHTING_CONFIG;
+        return THREE.MathUtils.clamp((config.HEADLIGHTS_ON - this.daylight) / (config.HEADLIGHTS_ON - config.HEADLIGHTS_FULL), 0, 1);
+    }
+
+    public getHour(): number {
+        return this.hour;
+    }
+
+    public setHour(hour: number): void {
+        this.hour = ((hour % 24) + 24) % 24;
+    }
+
+    public getTimeScale(): number {
+        return this.config.timeOfDay.timeScale;
+    }
+
+    /**
+     * @param timeScale Heures de jeu écoulées par minute réelle (0 = heure figée)
+     */
+    public setTimeScale(timeScale: number): void {
+        this.config = { ...this.config, timeOfDay: { ...this.config.timeOfDay, timeScale } };
+    }
+
     public updateConfig(newConfig: Partial<SceneConfig>): void {
         this.config = { ...this.config, ...newConfig };
+        if (newConfig.timeOfDay) {
+            this.setHour(newConfig.timeOfDay.hour);
+        }
+    }
+
+    public dispose(): void {
+        this.skyDome.dispose();
+        this.scene.remove(this.light.getLight(), this.light.getLight().target, this.ambientLight.getLight());
     }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,84 @@
+import * as THREE from 'three';
+
+/**
+ * Flamme d'échappement affichée à l'arrière de la voiture pendant le boost de nitro
+ */
+export class ExhaustFlame {
+    private group: THREE.Group;
+    private materials: THREE.MeshBasicMaterial[] = [];
+    private intensity: number = 0;
+    private time: number = 0;
+
+    private static readonly FLAME_CONFIG = {
+        LENGTH: 1.2,                // Longueur de la flamme en m
+        RADIUS: 0.16,
+        OUTER_COLOR: 0xff6a00,
+        INNER_COLOR: 0x7fd4ff,
+        INNER_SCALE: 0.55,          // Taille du cœur bleu par rapport à la flamme
+        FADE_SPEED: 8,              // Vitesse d'apparition et d'extinction (1/s)
+        FLICKER_SPEED: 45,          // Fréquence du scintillement en rad/s
+        FLICKER_AMOUNT: 0.2         // Variation de longueur due au scintillement
+    };
+
+    /**
+     * @param parent Modèle de la voiture
+     * @param position Sortie d'échappement dans le repère du modèle
+     */
+    constructor(parent: THREE.Object3D, position: THREE.Vector3) {
+        const config = ExhaustFlame.FLAME_CONFIG;
+        this.group = new THREE.Group();
+        this.group.name = 'exhaustFlame';
+        this.group.position.copy(position);
+        this.group.visible = false;
+
+        // Cône dont la base est à la sortie d'échappement et la pointe vers l'arrière (+z)
+        const geometry = new THREE.ConeGeometry(config.RADIUS, config.LENGTH, 12, 1, true);
+        geometry.translate(0, config.LENGTH / 2, 0);
+        geometry.rotateX(Math.PI / 2);
+
+        [[config.OUTER_COLOR, 1], [config.INNER_COLOR, config.INNER_SCALE]].forEach(([color, scale]) => {
+            const material = new THREE.MeshBasicMaterial({
+                color,
+                transparent: true,
+                opacity: 0,
+                blending: THREE.AdditiveBlending,
+                depthWrite: false,
+                side: THREE.DoubleSide
+            });
+            const mesh = new THREE.Mesh(geometry, material);
+            mesh.scale.setScalar(scale);
+            this.materials.push(material);
+            this.group.add(mesh);
+        });
+
+        parent.add(this.group);
+    }
+
+    /**
+     * @param isActive La nitro est-elle en cours d'utilisation
+     */
+    public update(deltaTime: number, isActive: boolean): void {
+        const config = ExhaustFlame.FLAME_CONFIG;
+        const target = isActive ? 1 : 0;
+        const step = config.FADE_SPEED * deltaTime;
+        this.intensity += THREE.MathUtils.clamp(target - this.intensity, -step, step);
+        this.time += deltaTime;
+
+        this.group.visible = this.intensity > 0;
+        if (!this.group.visible) return;
+
+        const flicker = 1 + Math.sin(this.time * config.FLICKER_SPEED) * config.FLICKER_AMOUNT;
+        this.group.scale.set(this.intensity, this.intensity, this.intensity * flicker);
+        this.materials.forEach(material => material.opacity = this.intensity * 0.9);
+    }
+
+    public dispose(): void {
+        this.group.removeFromParent();
+        this.group.children.forEach((child) => {
+            if (child instanceof THREE.Mesh) {
+                child.geometry.dispose();
+            }
+        });
+        this.materials.forEach(material => material.dispose());
+    }
+}
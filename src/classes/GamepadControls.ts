@@ -0,0 +1,161 @@
+import { CarInputSource } from '../interfaces/CarInput';
+import { ControlAction } from '../interfaces/ControlScheme';
+import { DEFAULT_GAMEPAD_CONFIG, GamepadButtonAction, GamepadConfig } from '../interfaces/Gamepad';
+
+/**
+ * Commandes analogiques d'une manette (API Gamepad) : gâchettes pour l'accélérateur et le frein,
+ * stick gauche pour la direction. La manette est relue à chaque appel, elle peut donc être
+ * branchée ou débranchée en pleine course.
+ */
+export class GamepadControls implements CarInputSource {
+    private playerIndex: number;
+    private config: GamepadConfig;
+    private isEnabled: boolean = true;
+    private previousButtons: Map<GamepadButtonAction, boolean> = new Map();
+    private actionListeners: ((action: ControlAction) => void)[] = [];
+    private rumbleUntil: number = 0;
+    private rumbleLevel: number = 0;
+
+    /**
+     * @param playerIndex Rang du joueur : le joueur 1 prend la première manette connectée, etc.
+     */
+    constructor(playerIndex: number, config: GamepadConfig = DEFAULT_GAMEPAD_CONFIG) {
+        this.playerIndex = playerIndex;
+        this.config = config;
+
+        window.addEventListener('gamepadconnected', this.onGamepadConnected);
+        window.addEventListener('gamepaddisconnected', this.onGamepadDisconnected);
+    }
+
+    private onGamepadConnected = (event: GamepadEvent): void => {
+        if (this.getGamepad() === event.gamepad) {
+            console.log(`Manette connectée pour le joueur ${this.playerIndex + 1} : ${event.gamepad.id}`);
+        }
+    };
+
+    private onGamepadDisconnected = (event: GamepadEvent): void => {
+        console.log(`Manette déconnectée : ${event.gamepad.id}`);
+        this.previousButtons.clear();
+    };
+
+    /**
+     * Manette du joueur parmi celles connectées, null s'il n'y en a pas
+     */
+    private getGamepad(): Gamepad | null {
+        if (typeof navigator === 'undefined' || !navigator.getGamepads) return null;
+        const gamepads = Array.from(navigator.getGamepads()).filter((gamepad): gamepad is Gamepad => gamepad !== null && gamepad.connected);
+        return gamepads[this.playerIndex] ?? null;
+    }
+
+    public isConnected(): boolean {
+        return this.getGamepad() !== null;
+    }
+
+    /**
+     * Supprime la zone morte puis applique la courbe de réponse
+     * @returns Valeur de même signe, de 0 (zone morte) à 1 (butée)
+     */
+    private static shape(value: number, deadZone: number, curve: number): number {
+        const magnitude = Math.max(0, (Math.abs(value) - deadZone) / (1 - deadZone));
+        return Math.sign(value) * Math.pow(Math.min(magnitude, 1), curve);
+    }
+
+    private readTrigger(button: number): number {
+        const gamepad = this.getGamepad();
+        if (!this.isEnabled || !gamepad?.buttons[button]) return 0;
+        return GamepadControls.shape(gamepad.buttons[button].value, this.config.triggerDeadZone, this.config.throttleCurve);
+    }
+
+    private isButtonPressed(action: GamepadButtonAction): boolean {
+        const gamepad = this.getGamepad();
+        return this.isEnabled && gamepad?.buttons[this.config.buttons[action]]?.pressed === true;
+    }
+
+    public getThrottle(): number {
+        return this.readTrigger(this.config.throttleButton);
+    }
+
+    public getBrake(): number {
+        return this.readTrigger(this.config.brakeButton);
+    }
+
+    public getSteering(): number {
+        const gamepad = this.getGamepad();
+        const axis = gamepad?.axes[this.config.steeringAxis];
+        if (!this.isEnabled || axis === undefined) return 0;
+        return GamepadControls.shape(axis, this.config.stickDeadZone, this.config.steeringCurve);
+    }
+
+    public isHandbrakePressed(): boolean {
+        return this.isButtonPressed('handbrake');
+    }
+
+    public isResetPressed(): boolean {
+        return this.isButtonPressed('reset');
+    }
+
+    public isNitroPressed(): boolean {
+        return this.isButtonPressed('nitro');
+    }
+
+    /**
+     * Détecte les appuis sur les boutons d'action (appelé à chaque image)
+     */
+    public update(): void {
+        const gamepad = this.getGamepad();
+        if (!gamepad) return;
+
+        (Object.keys(this.config.buttons) as GamepadButtonAction[]).forEach((action) => {
+            const isPressed = gamepad.buttons[this.config.buttons[action]]?.pressed === true;
+            if (isPressed && !this.previousButtons.get(action)) {
+                this.actionListeners.forEach(listener => listener(action));
+            }
+            this.previousButtons.set(action, isPressed);
+        });
+    }
+
+    /**
+     * Appelé à chaque appui sur un bouton d'action, même commandes désactivées
+     */
+    public onActionPressed(listener: (action: ControlAction) => void): void {
+        this.actionListeners.push(listener);
+    }
+
+    /**
+     * Fait vibrer la manette si elle le permet ; une vibration plus faible n'interrompt pas celle en cours
+     * @param strong Moteur lourd de 0 à 1 (chocs)
+     * @param weak Moteur léger de 0 à 1 (drift)
+     * @param duration Durée en ms
+     */
+    public rumble(strong: number, weak: number, duration: number): void {
+        const actuator = this.getGamepad()?.vibrationActuator;
+        if (!this.config.rumble || !actuator) return;
+
+        const now = performance.now();
+        const level = strong + weak;
+        if (now < this.rumbleUntil && level <= this.rumbleLevel) return;
+
+        this.rumbleUntil = now + duration;
+        this.rumbleLevel = level;
+        actuator.playEffect('dual-rumble', {
+            duration,
+            strongMagnitude: Math.min(strong, 1),
+            weakMagnitude: Math.min(weak, 1)
+        }).catch(() => {
+            // Vibrations refusées par le navigateur : la manette reste utilisable
+        });
+    }
+
+    public enable(): void {
+        this.isEnabled = true;
+    }
+
+    public disable(): void {
+        this.isEnabled = false;
+    }
+
+    public dispose(): void {
+        window.removeEventListener('gamepadconnected', this.onGamepadConnected);
+        window.removeEventListener('gamepaddisconnected', this.onGamepadDisconnected);
+    }
+}
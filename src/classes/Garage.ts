@@ -0,0 +1,100 @@
+import { DEFAULT_SCENE_CONFIG } from '../interfaces/SceneConfig';
+import { VehicleDefinition } from '../interfaces/VehicleDefinition';
+
+/**
+ * Garage : chaque joueur local choisit sa voiture tour à tour
+ */
+export class Garage {
+    private container: HTMLDivElement;
+    private title: HTMLHeadingElement;
+    private playerCount: number;
+    private choices: VehicleDefinition[] = [];
+    private onDoneCallback: (vehicles: VehicleDefinition[]) => void;
+
+    /**
+     * @param cars Voitures du catalogue
+     * @param playerCount Nombre de joueurs locaux
+     * @param onDone Appelé avec la voiture de chaque joueur
+     * @param onBack Appelé si le joueur revient au menu
+     */
+    constructor(cars: VehicleDefinition[], playerCount: number, onDone: (vehicles: VehicleDefinition[]) => void, onBack: () => void) {
+        this.playerCount = playerCount;
+        this.onDoneCallback = onDone;
+
+        this.container = document.createElement('div');
+        this.container.className = 'menu-overlay';
+
+        const panel = document.createElement('div');
+        panel.className = 'lobby-panel';
+
+        this.title = document.createElement('h2');
+        this.title.className = 'lobby-title';
+
+        const list = document.createElement('div');
+        list.className = 'menu-list';
+        cars.forEach(car => list.appendChild(this.createCard(car)));
+
+        const backButton = document.createElement('button');
+        backButton.className = 'replay-button';
+        backButton.textContent = 'Retour';
+        backButton.addEventListener('click', onBack);
+
+        panel.appendChild(this.title);
+        panel.appendChild(list);
+        panel.appendChild(backButton);
+        this.container.appendChild(panel);
+        document.body.appendChild(this.container);
+
+        this.updateTitle();
+    }
+
+    private createCard(car: VehicleDefinition): HTMLButtonElement {
+        const card = document.createElement('button');
+        card.className = 'menu-card';
+        card.addEventListener('click', () => this.select(car));
+
+        const name = document.createElement('div');
+        name.className = 'menu-card-name';
+        name.textContent = car.name;
+
+        const details = document.createElement('div');
+        details.className = 'menu-card-details';
+        details.textContent = Garage.describe(car);
+
+        card.appendChild(name);
+        card.appendChild(details);
+        return card;
+    }
+
+    /**
+     * Fiche technique courte : masse, vitesse maximale et transmission
+     */
+    public static describe(car: VehicleDefinition): string {
+        const { chassis, engine } = car.handling;
+        const maxSpeed = car.performance?.maxSpeed ?? DEFAULT_SCENE_CONFIG.car.maxSpeed;
+        const drive = engine.rearDriveRatio >= 1 ? 'propulsion'
+            : engine.rearDriveRatio <= 0 ? 'traction'
+            : '4 roues motrices';
+        const specs = `${chassis.mass} kg · ${Math.round(maxSpeed * 3.6)} km/h · ${drive}`;
+        return car.description ? `${specs} · ${car.description}` : specs;
+    }
+
+    private select(car: VehicleDefinition): void {
+        this.choices.push(car);
+        if (this.choices.length >= this.playerCount) {
+            this.onDoneCallback(this.choices);
+            return;
+        }
+        this.updateTitle();
+    }
+
+    private updateTitle(): void {
+        this.title.textContent = this.playerCount > 1
+            ? `Garage - Joueur ${this.choices.length + 1}`
+            : 'Garage';
+    }
+
+    public dispose(): void {
+        this.container.remove();
+    }
+}
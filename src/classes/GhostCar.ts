@@ -0,0 +1,118 @@
+import * as THREE from 'three';
+import { GhostLap, GhostRecorder } from './GhostRecorder';
+
+/**
+ * Copie translucide et sans collision de la voiture qui rejoue un tour enregistré
+ */
+export class GhostCar {
+    private model: THREE.Group;
+    private wheels: (THREE.Object3D | null)[] = [];
+    private lap: GhostLap | null = null;
+
+    private static readonly GHOST_CONFIG = {
+        OPACITY: 0.35,
+        COLOR: 0x66ccff
+    };
+
+    constructor(scene: THREE.Scene, template: THREE.Group) {
+        this.model = template.clone(true);
+        this.applyGhostMaterials();
+        this.model.visible = false;
+        scene.add(this.model);
+    }
+
+    /**
+     * Remplace les matériaux par des copies translucides pour ne pas modifier la vraie voiture
+     */
+    private applyGhostMaterials(): void {
+        this.model.traverse((child) => {
+            if (!(child instanceof THREE.Mesh)) return;
+
+            const toGhost = (material: THREE.Material): THREE.Material => {
+                const ghostMaterial = material.clone();
+                ghostMaterial.transparent = true;
+                ghostMaterial.opacity = GhostCar.GHOST_CONFIG.OPACITY;
+                ghostMaterial.depthWrite = false;
+                if (ghostMaterial instanceof THREE.MeshStandardMaterial) {
+                    ghostMaterial.emissive = new THREE.Color(GhostCar.GHOST_CONFIG.COLOR);
+                    ghostMaterial.emissiveIntensity = 0.4;
+                }
+                return ghostMaterial;
+            };
+
+            child.material = Array.isArray(child.material)
+                ? child.material.map(toGhost)
+                : toGhost(child.material);
+            child.castShadow = false;
+            child.receiveShadow = false;
+        });
+    }
+
+    /**
+     * Charge le tour à rejouer
+     */
+    public setLap(lap: GhostLap): void {
+        this.lap = lap;
+        this.wheels = lap.wheelNames.map(name => this.model.getObjectByName(name) || null);
+    }
+
+    public getLap(): GhostLap | null {
+        return this.lap;
+    }
+
+    /**
+     * Positionne le fantôme au temps donné du tour en interpolant entre deux frames
+     * @param lapTime Temps écoulé depuis le début du tour en cours
+     */
+    public update(lapTime: number): void {
+        if (!this.lap || lapTime > this.lap.lapTime) {
+            this.model.visible = false;
+            return;
+        }
+
+        const exactFrame = lapTime / this.lap.timestep;
+        const frameA = Math.min(Math.floor(exactFrame), this.lap.frameCount - 1);
+        const frameB = Math.min(frameA + 1, this.lap.frameCount - 1);
+        const alpha = exactFrame - Math.floor(exactFrame);
+
+        this.applyTransform(this.model, frameA, frameB, 0, alpha);
+        this.wheels.forEach((wheel, index) => {
+            if (wheel) {
+                const offset = GhostRecorder.CHASSIS_SIZE + index * GhostRecorder.WHEEL_SIZE;
+                this.applyTransform(wheel, frameA, frameB, offset, alpha);
+            }
+        });
+
+        this.model.visible = true;
+    }
+
+    private applyTransform(object: THREE.Object3D, frameA: number, frameB: number, offset: number, alpha: number): void {
+        const frames = this.lap!.frames;
+        const a = frameA * GhostRecorder.FRAME_SIZE + offset;
+        const b = frameB * GhostRecorder.FRAME_SIZE + offset;
+
+        object.position.set(
+            THREE.MathUtils.lerp(frames[a], frames[b], alpha),
+            THREE.MathUtils.lerp(frames[a + 1], frames[b + 1], alpha),
+            THREE.MathUtils.lerp(frames[a + 2], frames[b + 2], alpha)
+        );
+
+        const quaternionA = new THREE.Quaternion(frames[a + 3], frames[a + 4], frames[a + 5], frames[a + 6]);
+        const quaternionB = new THREE.Quaternion(frames[b + 3], frames[b + 4], frames[b + 5], frames[b + 6]);
+        object.quaternion.copy(quaternionA.slerp(quaternionB, alpha));
+    }
+
+    public hide(): void {
+        this.model.visible = false;
+    }
+
+    public dispose(): void {
+        this.model.removeFromParent();
+        this.model.traverse((child) => {
+            if (child instanceof THREE.Mesh) {
+                const materials = Array.isArray(child.material) ? child.material : [child.material];
+                materials.forEach(material => material.dispose());
+            }
+        });
+    }
+}
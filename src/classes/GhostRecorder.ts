@@ -0,0 +1,103 @@
+import { Car } from './Car';
+
+export interface GhostLap {
+    trackId: string;
+    lapTime: number;
+    timestep: number;
+    wheelNames: string[];
+    frameCount: number;
+    frames: Float32Array;       // Voir GhostRecorder.FRAME_SIZE pour la disposition d'une frame
+}
+
+/**
+ * Enregistre à chaque pas fixe la position et l'orientation du châssis
+ * ainsi que l'état des roues pour rejouer le meilleur tour.
+ */
+export class GhostRecorder {
+    private trackId: string;
+    private timestep: number;
+    private isRecording: boolean = false;
+    private buffer: number[] = [];
+    private frameCount: number = 0;
+
+    // Châssis : position (3) + quaternion (4), puis pour chaque roue : position (3) + quaternion (4)
+    public static readonly CHASSIS_SIZE = 7;
+    public static readonly WHEEL_SIZE = 7;
+    public static readonly WHEEL_COUNT = 4;
+    public static readonly FRAME_SIZE = GhostRecorder.CHASSIS_SIZE + GhostRecorder.WHEEL_SIZE * GhostRecorder.WHEEL_COUNT;
+
+    constructor(trackId: string, timestep: number) {
+        this.trackId = trackId;
+        this.timestep = timestep;
+    }
+
+    /**
+     * Commence l'enregistrement d'un nouveau tour
+     */
+    public startLap(): void {
+        this.buffer = [];
+        this.frameCount = 0;
+        this.isRecording = true;
+    }
+
+    public stop(): void {
+        this.isRecording = false;
+        this.buffer = [];
+        this.frameCount = 0;
+    }
+
+    /**
+     * Enregistre l'état de la voiture (appelé à chaque pas fixe)
+     */
+    public record(car: Car): void {
+        if (!this.isRecording) return;
+
+        const body = car.getBody();
+        if (!body) return;
+
+        this.buffer.push(
+            body.position.x, body.position.y, body.position.z,
+            body.quaternion.x, body.quaternion.y, body.quaternion.z, body.quaternion.w
+        );
+
+        const wheels = car.getWheelMeshes();
+        for (let i = 0; i < GhostRecorder.WHEEL_COUNT; i++) {
+            const wheel = wheels[i];
+            if (wheel) {
+                this.buffer.push(
+                    wheel.position.x, wheel.position.y, wheel.position.z,
+                    wheel.quaternion.x, wheel.quaternion.y, wheel.quaternion.z, wheel.quaternion.w
+                );
+            } else {
+                this.buffer.push(0, 0, 0, 0, 0, 0, 1);
+            }
+        }
+
+        this.frameCount++;
+    }
+
+    /**
+     * Termine le tour en cours et renvoie son enregistrement
+     * @param lapTime Temps officiel du tour donné par le RaceManager
+     * @param car La voiture enregistrée (pour le nom des roues)
+     */
+    public finishLap(lapTime: number, car: Car): GhostLap | null {
+        if (!this.isRecording || this.frameCount === 0) return null;
+
+        const lap: GhostLap = {
+            trackId: this.trackId,
+            lapTime,
+            timestep: this.timestep,
+            wheelNames: car.getWheelMeshes().map(wheel => wheel.name),
+            frameCount: this.frameCount,
+            frames: new Float32Array(this.buffer)
+        };
+
+        this.startLap();
+        return lap;
+    }
+
+    public isActive(): boolean {
+        return this.isRecording;
+    }
+}
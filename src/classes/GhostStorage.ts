@@ -0,0 +1,86 @@
+import { GhostLap } from './GhostRecorder';
+
+/**
+ * Persistance du meilleur fantôme de chaque circuit dans IndexedDB
+ */
+export class GhostStorage {
+    private dbPromise: Promise<IDBDatabase> | null = null;
+
+    private static readonly DB_NAME = 'hotwheels-race';
+    private static readonly DB_VERSION = 1;
+    private static readonly STORE_NAME = 'ghosts';
+
+    private open(): Promise<IDBDatabase> {
+        if (this.dbPromise) return this.dbPromise;
+
+        this.dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB indisponible'));
+                return;
+            }
+
+            const request = indexedDB.open(GhostStorage.DB_NAME, GhostStorage.DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(GhostStorage.STORE_NAME)) {
+                    db.createObjectStore(GhostStorage.STORE_NAME, { keyPath: 'trackId' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+
+        return this.dbPromise;
+    }
+
+    /**
+     * Charge le meilleur fantôme enregistré pour un circuit
+     * @returns Le tour enregistré ou null s'il n'existe pas
+     */
+    public async load(trackId: string): Promise<GhostLap | null> {
+        try {
+            const db = await this.open();
+            return await new Promise((resolve, reject) => {
+                const request = db
+                    .transaction(GhostStorage.STORE_NAME, 'readonly')
+                    .objectStore(GhostStorage.STORE_NAME)
+                    .get(trackId);
+                request.onsuccess = () => resolve((request.result as GhostLap) || null);
+                request.onerror = () => reject(request.error);
+            });
+        } catch (error) {
+            console.error('Erreur lors du chargement du fantôme:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Enregistre le fantôme si son temps est meilleur que celui déjà stocké
+     * @returns true si le fantôme a été enregistré
+     */
+    public async saveIfBest(lap: GhostLap): Promise<boolean> {
+        const current = await this.load(lap.trackId);
+        if (current && current.lapTime <= lap.lapTime) return false;
+
+        try {
+            const db = await this.open();
+            await new Promise<void>((resolve, reject) => {
+                const transaction = db.transaction(GhostStorage.STORE_NAME, 'readwrite');
+                transaction.objectStore(GhostStorage.STORE_NAME).put(lap);
+                transaction.oncomplete = () => resolve();
+                transaction.onerror = () => reject(transaction.error);
+            });
+            return true;
+        } catch (error) {
+            console.error("Erreur lors de l'enregistrement du fantôme:", error);
+            return false;
+        }
+    }
+
+    public async clear(trackId: string): Promise<void> {
+        const db = await this.open();
+        db.transaction(GhostStorage.STORE_NAME, 'readwrite')
+            .objectStore(GhostStorage.STORE_NAME)
+            .delete(trackId);
+    }
+}
@@ -0,0 +1,77 @@
+import * as THREE from 'three';
+
+/**
+ * Phares de la voiture, allumés au crépuscule et la nuit : un projecteur éclairant la route
+ * et deux optiques lumineuses à l'avant du modèle
+ */
+export class Headlights {
+    private group: THREE.Group;
+    private light: THREE.SpotLight;
+    private lampMaterial: THREE.MeshBasicMaterial;
+    private level: number = -1;
+
+    private static readonly HEADLIGHT_CONFIG = {
+        INTENSITY: 400,             // Intensité du projecteur phares allumés en candelas
+        DISTANCE: 60,               // Portée en m
+        ANGLE: Math.PI / 5,
+        PENUMBRA: 0.4,
+        COLOR: 0xfff4e0,
+        LAMP_INSET: 0.2,            // Distance entre une optique et le côté de la caisse en m
+        LAMP_RADIUS: 0.09
+    };
+
+    /**
+     * @param parent Modèle de la voiture
+     * @param position Centre de l'avant de la voiture dans le repère du modèle
+     * @param halfWidth Demi-largeur de la caisse en m
+     */
+    constructor(parent: THREE.Object3D, position: THREE.Vector3, halfWidth: number) {
+        const config = Headlights.HEADLIGHT_CONFIG;
+        this.group = new THREE.Group();
+        this.group.name = 'headlights';
+        this.group.position.copy(position);
+        this.group.visible = false;
+
+        // Projecteur orienté vers l'avant (-z) et légèrement vers la route
+        this.light = new THREE.SpotLight(config.COLOR, 0, config.DISTANCE, config.ANGLE, config.PENUMBRA);
+        this.light.target.position.set(0, -1, -10);
+        this.group.add(this.light);
+        this.group.add(this.light.target);
+
+        this.lampMaterial = new THREE.MeshBasicMaterial({ color: config.COLOR, transparent: true });
+        const lampGeometry = new THREE.CircleGeometry(config.LAMP_RADIUS, 12);
+        [-1, 1].forEach((side) => {
+            const lamp = new THREE.Mesh(lampGeometry, this.lampMaterial);
+            // Disque tourné vers l'avant pour rester visible malgré l'élimination des faces arrière
+            lamp.position.set(side * Math.max(0, halfWidth - config.LAMP_INSET), 0, -0.01);
+            lamp.rotation.y = Math.PI;
+            this.group.add(lamp);
+        });
+
+        parent.add(this.group);
+    }
+
+    /**
+     * @param level Allumage de 0 (éteints) à 1 (pleins phares)
+     */
+    public setLevel(level: number): void {
+        if (level === this.level) return;
+        this.level = level;
+
+        // Masqués en plein jour pour ne pas calculer un projecteur de plus par voiture
+        this.group.visible = level > 0;
+        this.light.intensity = level * Headlights.HEADLIGHT_CONFIG.INTENSITY;
+        this.lampMaterial.opacity = level;
+    }
+
+    public dispose(): void {
+        this.group.removeFromParent();
+        this.light.dispose();
+        this.group.children.forEach((child) => {
+            if (child instanceof THREE.Mesh) {
+                child.geometry.dispose();
+            }
+        });
+        this.lampMaterial.dispose();
+    }
+}
@@ -0,0 +1,101 @@
+import {
+    BindingConflict,
+    CONTROL_ACTIONS,
+    CONTROL_STORAGE_KEY,
+    ControlScheme,
+    PLAYER_CONTROL_SCHEMES
+} from '../interfaces/ControlScheme';
+
+/**
+ * Touches choisies par les joueurs : lecture et enregistrement dans le localStorage,
+ * détection des touches attribuées deux fois
+ */
+export class InputBindings {
+    private static readonly KEY_NAMES: { [key: string]: string } = {
+        space: 'Espace',
+        arrowup: '↑',
+        arrowdown: '↓',
+        arrowleft: '←',
+        arrowright: '→',
+        enter: 'Entrée',
+        backspace: 'Retour arrière',
+        shift: 'Maj',
+        control: 'Ctrl',
+        alt: 'Alt',
+        tab: 'Tab'
+    };
+
+    /**
+     * Touches de chaque joueur, celles par défaut pour les actions non enregistrées
+     */
+    public static load(): ControlScheme[] {
+        let stored: Partial<ControlScheme>[] = [];
+        try {
+            const data = localStorage.getItem(CONTROL_STORAGE_KEY);
+            if (data) {
+                const parsed = JSON.parse(data);
+                if (Array.isArray(parsed)) stored = parsed;
+            }
+        } catch (error) {
+            console.warn('Touches enregistrées illisibles, touches par défaut utilisées:', error);
+        }
+
+        return PLAYER_CONTROL_SCHEMES.map((defaults, player) => {
+            const scheme = { ...defaults };
+            CONTROL_ACTIONS.forEach((action) => {
+                const key = stored[player]?.[action];
+                if (typeof key === 'string' && key) {
+                    scheme[action] = InputBindings.normalizeKey(key);
+                }
+            });
+            return scheme;
+        });
+    }
+
+    public static save(schemes: ControlScheme[]): void {
+        try {
+            localStorage.setItem(CONTROL_STORAGE_KEY, JSON.stringify(schemes));
+        } catch (error) {
+            console.error("Impossible d'enregistrer les touches:", error);
+        }
+    }
+
+    public static getDefaults(): ControlScheme[] {
+        return PLAYER_CONTROL_SCHEMES.map(scheme => ({ ...scheme }));
+    }
+
+    /**
+     * Touches associées à plusieurs actions : les joueurs partagent le même clavier
+     */
+    public static findConflicts(schemes: ControlScheme[]): BindingConflict[] {
+        const bindings = new Map<string, BindingConflict['bindings']>();
+        schemes.forEach((scheme, player) => {
+            CONTROL_ACTIONS.forEach((action) => {
+                const key = scheme[action];
+                bindings.set(key, [...(bindings.get(key) ?? []), { player, action }]);
+            });
+        });
+
+        return Array.from(bindings.entries())
+            .filter(([, entries]) => entries.length > 1)
+            .map(([key, entries]) => ({ key, bindings: entries }));
+    }
+
+    /**
+     * Normalise une touche de KeyboardEvent.key : minuscules, ' ' devient 'space'
+     */
+    public static normalizeKey(key: string): string {
+        const lowerKey = key.toLowerCase();
+        if (lowerKey === ' ' || lowerKey === 'space' || lowerKey === 'spacebar') {
+            return 'space';
+        }
+        return lowerKey;
+    }
+
+    /**
+     * Nom affiché d'une touche
+     */
+    public static formatKey(key: string): string {
+        return InputBindings.KEY_NAMES[key] ?? key.toUpperCase();
+    }
+}
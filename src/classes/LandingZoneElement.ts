@@ -0,0 +1,37 @@
+import * as CANNON from 'cannon-es';
+import { Car } from './Car';
+import { TrackElement, TrackElementNode } from '../interfaces/TrackElement';
+
+/**
+ * Zone de réception : redresse les voitures en vol pour qu'elles retombent sur leurs roues.
+ * Extras glTF : alignment (1/s²).
+ */
+export class LandingZoneElement implements TrackElement {
+    public readonly node: TrackElementNode;
+    private readonly alignment: number;
+
+    private static readonly LANDING_CONFIG = {
+        ALIGNMENT: 12,          // Raideur du redressement vers la verticale (1/s²)
+        ANGULAR_DAMPING: 3      // Amortissement du tangage et du roulis en vol (1/s)
+    };
+
+    constructor(node: TrackElementNode) {
+        this.node = node;
+        this.alignment = node.params.alignment ?? LandingZoneElement.LANDING_CONFIG.ALIGNMENT;
+    }
+
+    public apply(car: Car, deltaTime: number): void {
+        const body = car.getBody();
+        if (!body || car.getWheelsInContact() > 0) return;
+
+        // Rotation qui ramène l'axe haut de la voiture vers la verticale
+        const up = body.quaternion.vmult(new CANNON.Vec3(0, 1, 0));
+        const correction = up.cross(new CANNON.Vec3(0, 1, 0));
+        body.angularVelocity.addScaledVector(this.alignment * deltaTime, correction, body.angularVelocity);
+
+        // Amortir le tangage et le roulis, le lacet reste libre
+        const damping = Math.max(1 - LandingZoneElement.LANDING_CONFIG.ANGULAR_DAMPING * deltaTime, 0);
+        body.angularVelocity.x *= damping;
+        body.angularVelocity.z *= damping;
+    }
+}
@@ -0,0 +1,93 @@
+import { RaceManager, SectorResult } from './RaceManager';
+
+export class LapTimer {
+    private raceManager: RaceManager;
+    private totalLaps: number;
+    private container: HTMLDivElement;
+    private lapElement: HTMLDivElement;
+    private currentTimeElement: HTMLDivElement;
+    private lastLapElement: HTMLDivElement;
+    private bestLapElement: HTMLDivElement;
+    private sectorElement: HTMLDivElement;
+
+    constructor(raceManager: RaceManager, totalLaps: number, parent: HTMLElement = document.body) {
+        this.raceManager = raceManager;
+        this.totalLaps = totalLaps;
+
+        // Créer le conteneur
+        this.container = document.createElement('div');
+        this.container.style.position = 'fixed';
+        this.container.style.top = '10px';
+        this.container.style.left = '10px';
+        this.container.style.backgroundColor = 'rgba(0, 0, 0, 0.7)';
+        this.container.style.padding = '10px 15px';
+        this.container.style.borderRadius = '10px';
+        this.container.style.color = 'white';
+        this.container.style.fontFamily = 'Racing Sans One, monospace';
+        this.container.style.fontSize = '18px';
+        this.container.style.zIndex = '1000';
+        this.container.style.minWidth = '220px';
+
+        this.lapElement = this.createLine('24px');
+        this.currentTimeElement = this.createLine('28px');
+        this.lastLapElement = this.createLine('16px');
+        this.bestLapElement = this.createLine('16px');
+        this.sectorElement = this.createLine('16px');
+
+        parent.appendChild(this.container);
+
+        this.raceManager.onSectorCompleted((sector) => this.showSector(sector));
+    }
+
+    private createLine(fontSize: string): HTMLDivElement {
+        const line = document.createElement('div');
+        line.style.fontSize = fontSize;
+        this.container.appendChild(line);
+        return line;
+    }
+
+    /**
+     * Affiche le temps du secteur et l'écart avec le meilleur secteur
+     */
+    private showSector(sector: SectorResult): void {
+        const delta = sector.deltaToBest;
+
+        let text = `S${sector.sector} ${RaceManager.formatTime(sector.time)}`;
+        if (delta !== null && delta > 0) {
+            text += ` +${delta.toFixed(3)}`;
+            this.sectorElement.style.color = '#ffcc00';
+        } else {
+            if (delta !== null) {
+                text += ` ${delta.toFixed(3)}`;
+            }
+            this.sectorElement.style.color = '#00ff88';
+        }
+        this.sectorElement.textContent = text;
+    }
+
+    public update(): void {
+        const currentLap = Math.min(this.raceManager.getCurrentLap(), this.totalLaps);
+        this.lapElement.textContent = `Tour ${currentLap}/${this.totalLaps}`;
+        this.currentTimeElement.textContent = RaceManager.formatTime(this.raceManager.getCurrentLapTime());
+
+        const lastLap = this.raceManager.getLastLap();
+        this.lastLapElement.textContent = `Dernier : ${lastLap ? RaceManager.formatTime(lastLap.time) : '--:--.---'}`;
+
+        const bestLap = this.raceManager.getBestLap();
+        this.bestLapElement.textContent = `Meilleur : ${bestLap ? RaceManager.formatTime(bestLap.time) : '--:--.---'}`;
+    }
+
+    public hide(): void {
+        this.container.style.display = 'none';
+    }
+
+    public show(): void {
+        this.container.style.display = 'block';
+    }
+
+    public dispose(): void {
+        if (this.container.parentNode) {
+            this.container.parentNode.removeChild(this.container);
+        }
+    }
+}
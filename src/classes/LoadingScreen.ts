@@ -1,14 +1,26 @@
 export class LoadingScreen {
     private container: HTMLDivElement;
-    private onPlayCallback: () => void;
+    private onPlayCallback: (playerCount: number) => void;
+    private onOnlineCallback: () => void;
+    private onEditorCallback: () => void;
+    private onControlsCallback: () => void;
     private progressBar!: HTMLDivElement;
     private progressFill!: HTMLDivElement;
     private progressText!: HTMLDivElement;
-    private playButton!: HTMLButtonElement;
+    private buttons!: HTMLDivElement;
     private isLoading: boolean = false;
 
-    constructor(onPlay: () => void) {
+    /**
+     * @param onPlay Appelé avec le nombre de joueurs choisi
+     * @param onOnline Appelé pour ouvrir la salle d'attente en ligne
+     * @param onEditor Appelé pour ouvrir l'éditeur de circuit
+     * @param onControls Appelé pour ouvrir le menu des commandes
+     */
+    constructor(onPlay: (playerCount: number) => void, onOnline: () => void, onEditor: () => void, onControls: () => void) {
         this.onPlayCallback = onPlay;
+        this.onOnlineCallback = onOnline;
+        this.onEditorCallback = onEditor;
+        this.onControlsCallback = onControls;
         this.container = document.createElement('div');
         this.container.className = 'loading-screen';
         this.initialize();
@@ -50,19 +62,45 @@ export class LoadingScreen {
         // Cacher la barre de progression initialement
         progressContainer.style.display = 'none';
 
-        this.playButton = document.createElement('button');
-        this.playButton.className = 'play-button';
-        this.playButton.textContent = 'Jouer';
-        this.playButton.addEventListener('click', () => this.startGame());
+        this.buttons = document.createElement('div');
+        this.buttons.className = 'loading-buttons';
+        this.buttons.appendChild(this.createPlayButton('Jouer', 1));
+        this.buttons.appendChild(this.createPlayButton('2 Joueurs', 2));
+
+        const onlineButton = document.createElement('button');
+        onlineButton.className = 'play-button';
+        onlineButton.textContent = 'En ligne';
+        onlineButton.addEventListener('click', () => this.onOnlineCallback());
+        this.buttons.appendChild(onlineButton);
+
+        const editorButton = document.createElement('button');
+        editorButton.className = 'play-button';
+        editorButton.textContent = 'Éditeur';
+        editorButton.addEventListener('click', () => this.onEditorCallback());
+        this.buttons.appendChild(editorButton);
+
+        const controlsButton = document.createElement('button');
+        controlsButton.className = 'play-button';
+        controlsButton.textContent = 'Commandes';
+        controlsButton.addEventListener('click', () => this.onControlsCallback());
+        this.buttons.appendChild(controlsButton);
 
         content.appendChild(title);
         content.appendChild(carContainer);
         content.appendChild(progressContainer);
-        content.appendChild(this.playButton);
+        content.appendChild(this.buttons);
         this.container.appendChild(content);
         document.body.appendChild(this.container);
     }
 
+    private createPlayButton(label: string, playerCount: number): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.className = 'play-button';
+        button.textContent = label;
+        button.addEventListener('click', () => this.onPlayCallback(playerCount));
+        return button;
+    }
+
     public hide() {
         this.container.classList.add('hidden');
         setTimeout(() => {
@@ -72,7 +110,7 @@ export class LoadingScreen {
 
     public showLoadingState() {
         this.isLoading = true;
-        this.playButton.style.display = 'none';
+        this.buttons.style.display = 'none';
         const progressContainer = this.container.querySelector('.progress-container');
         if (progressContainer) {
             (progressContainer as HTMLElement).style.display = 'block';
@@ -93,9 +131,4 @@ export class LoadingScreen {
             }, 500);
         }
     }
-
-    private startGame() {
-        this.showLoadingState();
-        this.onPlayCallback();
-    }
 } 
\ No newline at end of file
@@ -0,0 +1,237 @@
+import { NetworkClient } from './NetworkClient';
+import { OnlineSession } from './OnlineSession';
+import { DEFAULT_NETWORK_CONFIG, RoomInfo, ServerMessage } from '../interfaces/Network';
+import { TrackManifest } from '../interfaces/TrackManifest';
+import { VehicleDefinition } from '../interfaces/VehicleDefinition';
+import { DEFAULT_WEATHER_TYPE, WEATHER_PRESETS, WEATHER_TYPES, WeatherType } from '../interfaces/Weather';
+
+/**
+ * Salle d'attente en ligne : connexion au serveur, liste des salons, création et accès à un salon
+ */
+export class Lobby {
+    private client: NetworkClient;
+    private unsubscribe: () => void;
+    private container: HTMLDivElement;
+    private content: HTMLDivElement;
+    private statusElement: HTMLDivElement;
+    private playerName: string = '';
+    private vehicleId: string = '';
+    private tracks: TrackManifest[];
+    private cars: VehicleDefinition[];
+    private onRaceStartingCallback: (session: OnlineSession) => void;
+    private onBackCallback: () => void;
+
+    /**
+     * @param tracks Circuits proposés à la création d'un salon
+     * @param cars Voitures du garage
+     * @param onRaceStarting Appelé quand l'hôte lance la course, avec la session à transmettre à la scène
+     * @param onBack Appelé quand le joueur quitte la salle d'attente
+     */
+    constructor(tracks: TrackManifest[], cars: VehicleDefinition[], onRaceStarting: (session: OnlineSession) => void, onBack: () => void) {
+        this.tracks = tracks;
+        this.cars = cars;
+        this.onRaceStartingCallback = onRaceStarting;
+        this.onBackCallback = onBack;
+        this.client = new NetworkClient();
+        this.unsubscribe = this.client.onMessage((message) => this.handleMessage(message));
+        this.client.onClose(() => {
+            this.setStatus('Déconnecté du serveur', true);
+            this.showConnectForm();
+        });
+
+        this.container = document.createElement('div');
+        this.container.className = 'lobby';
+
+        const panel = document.createElement('div');
+        panel.className = 'lobby-panel';
+
+        const title = document.createElement('h2');
+        title.className = 'lobby-title';
+        title.textContent = 'Course en ligne';
+
+        this.content = document.createElement('div');
+        this.statusElement = document.createElement('div');
+        this.statusElement.className = 'lobby-status';
+
+        const backButton = this.createButton('Retour', () => {
+            this.client.close();
+            this.onBackCallback();
+        });
+
+        panel.appendChild(title);
+        panel.appendChild(this.content);
+        panel.appendChild(this.statusElement);
+        panel.appendChild(backButton);
+        this.container.appendChild(panel);
+        document.body.appendChild(this.container);
+
+        this.showConnectForm();
+    }
+
+    private handleMessage(message: ServerMessage): void {
+        switch (message.type) {
+            case 'rooms':
+                this.showRooms(message.rooms);
+                break;
+            case 'roomJoined':
+            case 'roomUpdated':
+                this.showRoom(message.room);
+                break;
+            case 'roomLeft':
+                this.client.send({ type: 'listRooms' });
+                break;
+            case 'raceStarting':
+                // La session prend le relais de la salle d'attente pour la course
+                this.unsubscribe();
+                this.onRaceStartingCallback(new OnlineSession(this.client, message.room));
+                break;
+            case 'error':
+                this.setStatus(message.message, true);
+                break;
+            default:
+                break;
+        }
+    }
+
+    private showConnectForm(): void {
+        this.content.innerHTML = '';
+
+        const serverInput = this.createInput('Adresse du serveur', `ws://${window.location.hostname || 'localhost'}:${DEFAULT_NETWORK_CONFIG.port}`);
+        const nameInput = this.createInput('Votre nom', this.playerName);
+        nameInput.maxLength = 20;
+        const carInput = this.createSelect(this.cars.map(car => ({ value: car.id, label: car.name })), this.vehicleId);
+        const connectButton = this.createButton('Se connecter', async () => {
+            this.playerName = nameInput.value.trim() || 'Pilote';
+            this.vehicleId = carInput.value;
+            this.setStatus('Connexion...');
+            try {
+                await this.client.connect(serverInput.value.trim());
+                this.setStatus('');
+                this.client.send({ type: 'listRooms' });
+            } catch (error) {
+                this.setStatus((error as Error).message, true);
+            }
+        });
+
+        [serverInput, nameInput, carInput, connectButton].forEach(element => this.content.appendChild(element));
+    }
+
+    private showRooms(rooms: RoomInfo[]): void {
+        this.content.innerHTML = '';
+        this.setStatus('');
+
+        const list = document.createElement('div');
+        list.className = 'lobby-list';
+        if (rooms.length === 0) {
+            list.textContent = 'Aucun salon ouvert';
+        }
+        rooms.forEach((room) => {
+            const row = document.createElement('div');
+            row.className = 'lobby-row';
+            row.textContent = `${room.name} - ${this.getTrackName(room.trackId)} (${room.players.length}/${room.maxPlayers})`;
+
+            if (room.status === 'waiting' && room.players.length < room.maxPlayers) {
+                row.appendChild(this.createButton('Rejoindre', () => {
+                    this.client.send({ type: 'joinRoom', roomId: room.id, playerName: this.playerName, vehicleId: this.vehicleId });
+                }));
+            } else {
+                const status = document.createElement('span');
+                status.textContent = room.status === 'waiting' ? ' complet' : ' en course';
+                row.appendChild(status);
+            }
+            list.appendChild(row);
+        });
+
+        const roomNameInput = this.createInput('Nom du salon', '');
+        roomNameInput.maxLength = 40;
+        const trackInput = this.createSelect(this.tracks.map(track => ({ value: track.id, label: track.name })));
+        const weatherInput = this.createSelect(WEATHER_TYPES.map(type => ({ value: type, label: WEATHER_PRESETS[type].name })), DEFAULT_WEATHER_TYPE);
+        const createButton = this.createButton('Créer un salon', () => {
+            this.client.send({
+                type: 'createRoom',
+                roomName: roomNameInput.value,
+                playerName: this.playerName,
+                vehicleId: this.vehicleId,
+                trackId: trackInput.value,
+                weather: weatherInput.value as WeatherType
+            });
+        });
+        const refreshButton = this.createButton('Actualiser', () => this.client.send({ type: 'listRooms' }));
+
+        [list, roomNameInput, trackInput, weatherInput, createButton, refreshButton].forEach(element => this.content.appendChild(element));
+    }
+
+    private showRoom(room: RoomInfo): void {
+        this.content.innerHTML = '';
+        this.setStatus('');
+
+        const name = document.createElement('h3');
+        name.textContent = `${room.name} - ${this.getTrackName(room.trackId)}`;
+
+        const list = document.createElement('div');
+        list.className = 'lobby-list';
+        room.players.forEach((player) => {
+            const row = document.createElement('div');
+            row.className = 'lobby-row';
+            const car = this.cars.find(other => other.id === player.vehicleId)?.name ?? player.vehicleId;
+            row.textContent = `${player.slot + 1}. ${player.name} - ${car}${player.isHost ? ' (hôte)' : ''}`;
+            list.appendChild(row);
+        });
+
+        this.content.appendChild(name);
+        this.content.appendChild(list);
+
+        const isHost = room.players.some(player => player.id === this.client.getPlayerId() && player.isHost);
+        if (isHost) {
+            this.content.appendChild(this.createButton('Lancer la course', () => this.client.send({ type: 'startRace' })));
+        } else {
+            this.setStatus("En attente du départ donné par l'hôte");
+        }
+        this.content.appendChild(this.createButton('Quitter le salon', () => this.client.send({ type: 'leaveRoom' })));
+    }
+
+    private getTrackName(trackId: string): string {
+        return this.tracks.find(track => track.id === trackId)?.name ?? trackId;
+    }
+
+    private createInput(placeholder: string, value: string): HTMLInputElement {
+        const input = document.createElement('input');
+        input.className = 'lobby-input';
+        input.placeholder = placeholder;
+        input.value = value;
+        return input;
+    }
+
+    private createSelect(options: { value: string, label: string }[], value: string = ''): HTMLSelectElement {
+        const select = document.createElement('select');
+        select.className = 'lobby-input';
+        options.forEach((option) => {
+            const element = document.createElement('option');
+            element.value = option.value;
+            element.textContent = option.label;
+            select.appendChild(element);
+        });
+        if (value) {
+            select.value = value;
+        }
+        return select;
+    }
+
+    private createButton(label: string, onClick: () => void): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.className = 'replay-button';
+        button.textContent = label;
+        button.addEventListener('click', onClick);
+        return button;
+    }
+
+    private setStatus(text: string, isError: boolean = false): void {
+        this.statusElement.textContent = text;
+        this.statusElement.classList.toggle('error', isError);
+    }
+
+    public dispose(): void {
+        this.unsubscribe();
+        this.container.remove();
+    }
+}
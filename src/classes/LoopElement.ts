@@ -0,0 +1,41 @@
+import * as CANNON from 'cannon-es';
+import { Car } from './Car';
+import { TrackElement, TrackElementNode } from '../interfaces/TrackElement';
+
+/**
+ * Looping : plaque les voitures contre la piste pour qu'elles puissent le boucler à l'envers.
+ * Extras glTF : adhesion (multiple de la gravité), minSpeed (m/s).
+ */
+export class LoopElement implements TrackElement {
+    public readonly node: TrackElementNode;
+    private readonly adhesion: number;
+    private readonly minSpeed: number;
+
+    private static readonly LOOP_CONFIG = {
+        ADHESION: 1.6,          // Force vers la piste en multiple de la gravité (compense la gravité à l'envers)
+        MIN_SPEED: 14,          // Vitesse maintenue dans le looping en m/s
+        ASSIST_ACCELERATION: 12, // Accélération d'appoint sous la vitesse minimum en m/s²
+        GRAVITY: 9.82
+    };
+
+    constructor(node: TrackElementNode) {
+        this.node = node;
+        this.adhesion = node.params.adhesion ?? LoopElement.LOOP_CONFIG.ADHESION;
+        this.minSpeed = node.params.minSpeed ?? LoopElement.LOOP_CONFIG.MIN_SPEED;
+    }
+
+    public apply(car: Car, deltaTime: number): void {
+        const body = car.getBody();
+        if (!body || car.getWheelsInContact() === 0) return;
+
+        // Adhérence le long de l'axe bas de la voiture, c'est-à-dire vers la surface du looping
+        const down = body.quaternion.vmult(new CANNON.Vec3(0, -1, 0));
+        body.applyForce(down.scale(body.mass * LoopElement.LOOP_CONFIG.GRAVITY * this.adhesion));
+
+        // Élan d'appoint pour ne pas retomber au sommet
+        const forward = car.getForwardDirection();
+        if (body.velocity.dot(forward) < this.minSpeed) {
+            body.applyImpulse(forward.scale(body.mass * LoopElement.LOOP_CONFIG.ASSIST_ACCELERATION * deltaTime));
+        }
+    }
+}
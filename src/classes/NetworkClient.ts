@@ -0,0 +1,77 @@
+import { ClientMessage, ServerMessage } from '../interfaces/Network';
+
+/**
+ * Connexion WebSocket au serveur de course (messages JSON)
+ */
+export class NetworkClient {
+    private socket: WebSocket | null = null;
+    private playerId: string | null = null;
+    private messageListeners: ((message: ServerMessage) => void)[] = [];
+    private closeListeners: (() => void)[] = [];
+
+    /**
+     * Se connecte au serveur
+     * @returns Identifiant attribué au joueur par le serveur
+     */
+    public connect(url: string): Promise<string> {
+        this.close();
+
+        return new Promise((resolve, reject) => {
+            const socket = new WebSocket(url);
+            this.socket = socket;
+
+            socket.addEventListener('message', (event) => {
+                const message: ServerMessage = JSON.parse(event.data);
+                if (message.type === 'welcome') {
+                    this.playerId = message.playerId;
+                    resolve(message.playerId);
+                }
+                // Copie : un écouteur peut se désabonner pendant la diffusion
+                [...this.messageListeners].forEach(listener => listener(message));
+            });
+
+            socket.addEventListener('error', () => {
+                reject(new Error(`Impossible de se connecter à ${url}`));
+            });
+
+            socket.addEventListener('close', () => {
+                if (this.socket !== socket) return;
+                this.socket = null;
+                this.playerId = null;
+                this.closeListeners.forEach(listener => listener());
+            });
+        });
+    }
+
+    public send(message: ClientMessage): void {
+        if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+            this.socket.send(JSON.stringify(message));
+        }
+    }
+
+    /**
+     * @returns Fonction de désabonnement
+     */
+    public onMessage(listener: (message: ServerMessage) => void): () => void {
+        this.messageListeners.push(listener);
+        return () => {
+            this.messageListeners = this.messageListeners.filter(other => other !== listener);
+        };
+    }
+
+    public onClose(listener: () => void): void {
+        this.closeListeners.push(listener);
+    }
+
+    public close(): void {
+        if (this.socket) {
+            const socket = this.socket;
+            this.socket = null;
+            this.playerId = null;
+            socket.close();
+        }
+    }
+
+    public getPlayerId(): string | null { return this.playerId; }
+    public isConnected(): boolean { return this.socket !== null && this.socket.readyState === WebSocket.OPEN; }
+}
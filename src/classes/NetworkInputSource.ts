@@ -0,0 +1,34 @@
+import { CarInputSource } from '../interfaces/CarInput';
+import { ReplayInputFrame } from '../interfaces/Replay';
+
+/**
+ * Commandes reçues par le réseau : celles d'un client sur le serveur,
+ * ou celles d'une voiture distante sur le client
+ */
+export class NetworkInputSource implements CarInputSource {
+    private input: ReplayInputFrame = { throttle: 0, brake: 0, steering: 0, handbrake: false, reset: false, nitro: false };
+    private isEnabled: boolean = true;
+
+    public setInput(input: ReplayInputFrame): void {
+        this.input = input;
+    }
+
+    public getInput(): ReplayInputFrame {
+        return this.input;
+    }
+
+    public getThrottle(): number { return this.isEnabled ? this.input.throttle : 0; }
+    public getBrake(): number { return this.isEnabled ? this.input.brake : 0; }
+    public getSteering(): number { return this.isEnabled ? this.input.steering : 0; }
+    public isHandbrakePressed(): boolean { return this.isEnabled && this.input.handbrake; }
+    public isResetPressed(): boolean { return this.isEnabled && this.input.reset; }
+    public isNitroPressed(): boolean { return this.isEnabled && this.input.nitro; }
+
+    public enable(): void {
+        this.isEnabled = true;
+    }
+
+    public disable(): void {
+        this.isEnabled = false;
+    }
+}
@@ -0,0 +1,74 @@
+import { Car } from './Car';
+
+/**
+ * Jauge de nitro du HUD : remplissage, boost en cours et disponibilité
+ */
+export class NitroGauge {
+    private car: Car;
+    private container: HTMLDivElement;
+    private fill: HTMLDivElement;
+    private label: HTMLDivElement;
+
+    private static readonly GAUGE_COLORS = {
+        CHARGING: '#3fa9f5',
+        READY: '#7fd4ff',
+        ACTIVE: '#ff6a00'
+    };
+
+    constructor(car: Car, parent: HTMLElement = document.body) {
+        this.car = car;
+
+        this.container = document.createElement('div');
+        this.container.style.position = 'fixed';
+        this.container.style.bottom = '20px';
+        this.container.style.left = '20px';
+        this.container.style.width = '200px';
+        this.container.style.zIndex = '1000';
+        this.container.style.fontFamily = 'Arial, sans-serif';
+
+        this.label = document.createElement('div');
+        this.label.style.color = '#ffffff';
+        this.label.style.fontSize = '16px';
+        this.label.style.fontWeight = 'bold';
+        this.label.style.textShadow = '2px 2px 4px rgba(0, 0, 0, 0.7)';
+        this.label.style.marginBottom = '4px';
+        this.label.textContent = 'NITRO';
+
+        const track = document.createElement('div');
+        track.style.height = '14px';
+        track.style.backgroundColor = 'rgba(0, 0, 0, 0.7)';
+        track.style.border = '2px solid rgba(255, 255, 255, 0.3)';
+        track.style.borderRadius = '8px';
+        track.style.overflow = 'hidden';
+
+        this.fill = document.createElement('div');
+        this.fill.style.height = '100%';
+        this.fill.style.width = '0%';
+
+        track.appendChild(this.fill);
+        this.container.appendChild(this.label);
+        this.container.appendChild(track);
+        parent.appendChild(this.container);
+    }
+
+    public update(): void {
+        const nitro = this.car.getNitro();
+        const colors = NitroGauge.GAUGE_COLORS;
+
+        // Pendant le boost, la jauge montre le temps restant
+        if (nitro.isActive()) {
+            this.fill.style.width = `${Math.round(nitro.getActiveRatio() * 100)}%`;
+            this.fill.style.backgroundColor = colors.ACTIVE;
+            this.label.textContent = 'NITRO !';
+            return;
+        }
+
+        this.fill.style.width = `${Math.round(nitro.getCharge() * 100)}%`;
+        this.fill.style.backgroundColor = nitro.isReady() ? colors.READY : colors.CHARGING;
+        this.label.textContent = 'NITRO';
+    }
+
+    public dispose(): void {
+        this.container.remove();
+    }
+}
@@ -0,0 +1,98 @@
+import { NitroSnapshot } from '../interfaces/Replay';
+import { VehicleHandling } from '../interfaces/VehicleDefinition';
+
+/**
+ * Jauge de nitro : elle se remplit en drift et en l'air, la touche de boost la consomme
+ * pour quelques secondes de force motrice et de vitesse maximale supplémentaires.
+ * L'état fait partie de l'instantané de la voiture pour rester déterministe en replay et en ligne.
+ */
+export class NitroSystem {
+    private settings: VehicleHandling['nitro'];
+    private state: NitroSnapshot = NitroSystem.createInitialState();
+
+    private static readonly NITRO_CONFIG = {
+        MIN_AIR_TIME: 0.2           // Temps en l'air ignoré (bosses, vibreurs)
+    };
+
+    private static createInitialState(): NitroSnapshot {
+        return {
+            charge: 0,
+            activeTime: 0,
+            airTime: 0,
+            wasNitroPressed: false
+        };
+    }
+
+    constructor(settings: VehicleHandling['nitro']) {
+        this.settings = settings;
+    }
+
+    public setSettings(settings: VehicleHandling['nitro']): void {
+        this.settings = settings;
+    }
+
+    /**
+     * Remplit la jauge et déclenche le boost (appelé à chaque pas fixe, avant l'application des commandes)
+     * @param isDrifting Drift en cours selon le score de drift de la voiture
+     * @param wheelsInContact Nombre de roues touchant le sol
+     */
+    public update(deltaTime: number, isDrifting: boolean, isNitroPressed: boolean, wheelsInContact: number): void {
+        const config = NitroSystem.NITRO_CONFIG;
+        const state = this.state;
+        state.activeTime = Math.max(0, state.activeTime - deltaTime);
+
+        state.airTime = wheelsInContact === 0 ? state.airTime + deltaTime : 0;
+        const isAirborne = state.airTime >= config.MIN_AIR_TIME;
+
+        // La jauge ne se remplit pas pendant le boost
+        if (state.activeTime === 0) {
+            const fillRate = (isDrifting ? this.settings.driftFillRate : 0) + (isAirborne ? this.settings.airFillRate : 0);
+            state.charge = Math.min(1, state.charge + fillRate * deltaTime);
+        }
+
+        // Front montant de la touche : la maintenir enfoncée ne déclenche qu'un boost
+        const isActivation = isNitroPressed && !state.wasNitroPressed;
+        state.wasNitroPressed = isNitroPressed;
+        if (isActivation && state.activeTime === 0 && state.charge >= this.settings.cost) {
+            state.charge -= this.settings.cost;
+            state.activeTime = this.settings.duration;
+        }
+    }
+
+    public isActive(): boolean {
+        return this.state.activeTime > 0;
+    }
+
+    /**
+     * Jauge de 0 à 1
+     */
+    public getCharge(): number {
+        return this.state.charge;
+    }
+
+    /**
+     * Part du boost en cours restant à consommer (0 sans boost)
+     */
+    public getActiveRatio(): number {
+        return this.settings.duration > 0 ? this.state.activeTime / this.settings.duration : 0;
+    }
+
+    /**
+     * Peut-on déclencher un boost ?
+     */
+    public isReady(): boolean {
+        return !this.isActive() && this.state.charge >= this.settings.cost;
+    }
+
+    public reset(): void {
+        this.state = NitroSystem.createInitialState();
+    }
+
+    public getState(): NitroSnapshot {
+        return { ...this.state };
+    }
+
+    public setState(state: NitroSnapshot): void {
+        this.state = { ...state };
+    }
+}
@@ -0,0 +1,295 @@
+import * as THREE from 'three';
+import { Car } from './Car';
+import { NetworkClient } from './NetworkClient';
+import { NetworkInputSource } from './NetworkInputSource';
+import { ReplayChannel } from './ReplayChannel';
+import { WeatherSystem } from './WeatherSystem';
+import { CarSnapshot, ReplayInputFrame, WeatherSnapshot } from '../interfaces/Replay';
+import { DEFAULT_NETWORK_CONFIG, NetworkCarState, RoomInfo, RoomPlayer, ServerMessage } from '../interfaces/Network';
+
+interface RemoteCar {
+    car: Car;
+    input: NetworkInputSource;
+    states: { time: number, state: CarSnapshot }[];    // États reçus, du plus ancien au plus récent
+}
+
+interface PendingInput {
+    sequence: number;
+    input: ReplayInputFrame;
+    position: [number, number, number];                 // Position prédite après ce pas
+}
+
+/**
+ * Course en ligne côté client : la voiture locale est prédite à partir des commandes
+ * envoyées au serveur puis corrigée selon ses états, les voitures distantes
+ * sont interpolées entre les états reçus.
+ */
+export class OnlineSession {
+    private client: NetworkClient;
+    private room: RoomInfo;
+    private playerId: string;
+    private unsubscribe: () => void;
+
+    // Prédiction de la voiture locale
+    private localCar: Car | null = null;
+    private localChannel: ReplayChannel | null = null;
+    private weather: WeatherSystem | null = null;
+    private stepSimulation: (() => void) | null = null;
+    private pendingInputs: PendingInput[] = [];
+    private sequence: number = 0;
+
+    // Interpolation des voitures distantes
+    private remoteCars: Map<string, RemoteCar> = new Map();
+
+    private isRaceStarted: boolean = false;
+    private raceStartingListeners: ((room: RoomInfo) => void)[] = [];
+    private raceStartListeners: (() => void)[] = [];
+    private playerJoinedListeners: ((player: RoomPlayer) => void)[] = [];
+    private playerLeftListeners: ((car: Car) => void)[] = [];
+
+    private static readonly PREDICTION_CONFIG = {
+        CORRECTION_THRESHOLD: 0.25,     // Écart de position en m au-delà duquel la prédiction est corrigée
+        MAX_PENDING_INPUTS: 120,        // Commandes non confirmées conservées (2 secondes)
+        MAX_BUFFERED_STATES: 30         // États conservés par voiture distante
+    };
+
+    constructor(client: NetworkClient, room: RoomInfo) {
+        this.client = client;
+        this.room = room;
+        this.playerId = client.getPlayerId() ?? '';
+        this.unsubscribe = client.onMessage((message) => this.handleMessage(message));
+        client.onClose(() => console.error('Connexion au serveur de course perdue'));
+    }
+
+    /**
+     * Branche la voiture du joueur local
+     * @param weather Météo de la scène, recalée sur celle du serveur lors des corrections
+     * @param stepSimulation Exécute un pas fixe complet (utilisé pour rejouer les commandes après une correction)
+     */
+    public attachLocalCar(car: Car, channel: ReplayChannel, weather: WeatherSystem, stepSimulation: () => void): void {
+        this.localCar = car;
+        this.localChannel = channel;
+        this.weather = weather;
+        this.stepSimulation = stepSimulation;
+    }
+
+    public addRemoteCar(playerId: string, car: Car, input: NetworkInputSource): void {
+        this.remoteCars.set(playerId, { car, input, states: [] });
+    }
+
+    /**
+     * Prépare le pas à venir : envoie la commande locale et place les voitures distantes
+     */
+    public beginStep(): void {
+        this.updateRemoteCars();
+
+        if (!this.localChannel) return;
+
+        this.localChannel.beginStep();
+        const input: ReplayInputFrame = {
+            throttle: this.localChannel.getThrottle(),
+            brake: this.localChannel.getBrake(),
+            steering: this.localChannel.getSteering(),
+            handbrake: this.localChannel.isHandbrakePressed(),
+            reset: this.localChannel.isResetPressed(),
+            nitro: this.localChannel.isNitroPressed()
+        };
+
+        this.sequence++;
+        this.client.send({ type: 'input', sequence: this.sequence, input });
+        this.pendingInputs.push({ sequence: this.sequence, input, position: [0, 0, 0] });
+        if (this.pendingInputs.length > OnlineSession.PREDICTION_CONFIG.MAX_PENDING_INPUTS) {
+            this.pendingInputs.shift();
+        }
+    }
+
+    /**
+     * Mémorise la position prédite à la fin du pas
+     */
+    public endStep(): void {
+        const pending = this.pendingInputs[this.pendingInputs.length - 1];
+        if (pending) {
+            pending.position = this.getLocalPosition();
+        }
+    }
+
+    private handleMessage(message: ServerMessage): void {
+        switch (message.type) {
+            case 'snapshot':
+                message.cars.forEach((carState) => {
+                    if (carState.playerId === this.playerId) {
+                        this.reconcile(carState, message.weather);
+                    } else {
+                        this.bufferRemoteState(carState);
+                    }
+                });
+                break;
+            case 'roomUpdated':
+                this.updateRoom(message.room);
+                break;
+            case 'raceStarting':
+                this.room = message.room;
+                this.isRaceStarted = false;
+                this.pendingInputs = [];
+                this.remoteCars.forEach(remote => remote.states = []);
+                this.raceStartingListeners.forEach(listener => listener(message.room));
+                break;
+            case 'raceStart':
+                this.isRaceStarted = true;
+                this.raceStartListeners.forEach(listener => listener());
+                break;
+            case 'error':
+                console.warn(`Serveur : ${message.message}`);
+                break;
+            default:
+                break;
+        }
+    }
+
+    /**
+     * Compare la position prédite à celle calculée par le serveur pour la même commande
+     * et, si elles divergent, repart de l'état du serveur en rejouant les commandes non confirmées
+     */
+    private reconcile(carState: NetworkCarState, weather: WeatherSnapshot): void {
+        if (!this.localCar || !this.localChannel || !this.stepSimulation) return;
+
+        const acknowledged = this.pendingInputs.find(pending => pending.sequence === carState.lastInput);
+        this.pendingInputs = this.pendingInputs.filter(pending => pending.sequence > carState.lastInput);
+        if (!acknowledged) return;
+
+        const [x, y, z] = carState.state.position;
+        const error = Math.hypot(acknowledged.position[0] - x, acknowledged.position[1] - y, acknowledged.position[2] - z);
+        if (error < OnlineSession.PREDICTION_CONFIG.CORRECTION_THRESHOLD) return;
+
+        this.localCar.applySnapshot(carState.state);
+        this.weather?.setState(weather);
+        this.localChannel.setMode('playback');
+        this.pendingInputs.forEach((pending) => {
+            this.localChannel!.beginStep(pending.input);
+            this.stepSimulation!();
+            pending.position = this.getLocalPosition();
+        });
+        this.localChannel.setMode('live');
+    }
+
+    private bufferRemoteState(carState: NetworkCarState): void {
+        const remote = this.remoteCars.get(carState.playerId);
+        if (!remote) return;
+
+        remote.input.setInput(carState.input);
+        remote.states.push({ time: performance.now() / 1000, state: carState.state });
+        if (remote.states.length > OnlineSession.PREDICTION_CONFIG.MAX_BUFFERED_STATES) {
+            remote.states.shift();
+        }
+    }
+
+    /**
+     * Affiche les voitures distantes avec un léger retard pour toujours interpoler entre deux états reçus
+     */
+    private updateRemoteCars(): void {
+        const renderTime = performance.now() / 1000 - DEFAULT_NETWORK_CONFIG.interpolationDelay;
+
+        this.remoteCars.forEach((remote) => {
+            const states = remote.states;
+            if (states.length === 0) return;
+
+            // Oublier les états devenus inutiles (on garde celui qui précède l'instant affiché)
+            while (states.length >= 2 && states[1].time <= renderTime) {
+                states.shift();
+            }
+
+            const from = states[0];
+            const to = states[1];
+            if (!to || renderTime <= from.time) {
+                remote.car.applySnapshot(from.state);
+                return;
+            }
+
+            const t = (renderTime - from.time) / (to.time - from.time);
+            remote.car.applySnapshot(OnlineSession.interpolate(from.state, to.state, t));
+        });
+    }
+
+    private static interpolate(from: CarSnapshot, to: CarSnapshot, t: number): CarSnapshot {
+        const lerp = (a: [number, number, number], b: [number, number, number]): [number, number, number] =>
+            [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+        const quaternion = new THREE.Quaternion(...from.quaternion).slerp(new THREE.Quaternion(...to.quaternion), t);
+
+        return {
+            ...(t < 0.5 ? from : to),
+            position: lerp(from.position, to.position),
+            quaternion: [quaternion.x, quaternion.y, quaternion.z, quaternion.w],
+            velocity: lerp(from.velocity, to.velocity),
+            angularVelocity: lerp(from.angularVelocity, to.angularVelocity)
+        };
+    }
+
+    private updateRoom(room: RoomInfo): void {
+        this.room = room;
+        this.remoteCars.forEach((remote, playerId) => {
+            if (!room.players.some(player => player.id === playerId)) {
+                this.remoteCars.delete(playerId);
+                this.playerLeftListeners.forEach(listener => listener(remote.car));
+            }
+        });
+        // Entre deux courses le salon accepte de nouveaux joueurs, présents au prochain départ
+        this.getRemotePlayers().forEach((player) => {
+            if (!this.remoteCars.has(player.id)) {
+                this.playerJoinedListeners.forEach(listener => listener(player));
+            }
+        });
+    }
+
+    private getLocalPosition(): [number, number, number] {
+        const body = this.localCar?.getBody();
+        return body ? [body.position.x, body.position.y, body.position.z] : [0, 0, 0];
+    }
+
+    /**
+     * Signale au serveur que la course est chargée
+     */
+    public sendReady(): void {
+        this.client.send({ type: 'ready' });
+    }
+
+    /**
+     * Demande une nouvelle course (seul l'hôte peut la lancer)
+     */
+    public requestRestart(): void {
+        this.client.send({ type: 'startRace' });
+    }
+
+    public onRaceStarting(listener: (room: RoomInfo) => void): void {
+        this.raceStartingListeners.push(listener);
+    }
+
+    public onRaceStart(listener: () => void): void {
+        this.raceStartListeners.push(listener);
+    }
+
+    public onPlayerJoined(listener: (player: RoomPlayer) => void): void {
+        this.playerJoinedListeners.push(listener);
+    }
+
+    public onPlayerLeft(listener: (car: Car) => void): void {
+        this.playerLeftListeners.push(listener);
+    }
+
+    public dispose(): void {
+        this.unsubscribe();
+        this.client.close();
+    }
+
+    // Méthodes publiques d'accès
+    public getRoom(): RoomInfo { return this.room; }
+    public getRemoteCars(): Car[] { return Array.from(this.remoteCars.values()).map(remote => remote.car); }
+    public hasRaceStarted(): boolean { return this.isRaceStarted; }
+
+    public getLocalPlayer(): RoomPlayer | undefined {
+        return this.room.players.find(player => player.id === this.playerId);
+    }
+
+    public getRemotePlayers(): RoomPlayer[] {
+        return this.room.players.filter(player => player.id !== this.playerId);
+    }
+}
@@ -1,11 +1,19 @@
 import * as CANNON from 'cannon-es';
 import * as THREE from 'three';
 import { Car } from './Car';
+import { TrackElementRegistry } from './TrackElementRegistry';
+import { WeatherSystem } from './WeatherSystem';
+import { GROUND_SURFACE_TYPE } from '../interfaces/TrackSurface';
 
 export class PhysicsWorld {
     private world: CANNON.World;
     private groundBody: CANNON.Body;
     private bodies: Map<THREE.Object3D, CANNON.Body> = new Map();
+    private cars: Car[] = [];
+    // Contacts propres au châssis de chaque voiture, avec le contact commun dont ils dérivent
+    private carContacts: Map<Car, { shared: CANNON.ContactMaterial, contact: CANNON.ContactMaterial }[]> = new Map();
+    private trackElements: TrackElementRegistry | null = null;
+    private weather: WeatherSystem = new WeatherSystem();
     private groundMaterial: CANNON.Material;
     private carMaterial: CANNON.Material;
     private readonly fixedTimeStep: number = 1/60;
@@ -19,7 +27,8 @@ export class PhysicsWorld {
         });
 
         // Créer les matériaux
-        this.groundMaterial = new CANNON.Material('ground');
+        // Le nom du matériau indique le revêtement aux roues
+        this.groundMaterial = new CANNON.Material(GROUND_SURFACE_TYPE);
         this.carMaterial = new CANNON.Material('car');
 
         // Configurer les propriétés des matériaux
@@ -51,6 +60,17 @@ export class PhysicsWorld {
         // Rotation du sol pour qu'il soit horizontal
         this.groundBody.quaternion.setFromAxisAngle(new CANNON.Vec3(1, 0, 0), -Math.PI / 2);
         this.world.addBody(this.groundBody);
+
+        // Les éléments de piste et la météo avancent à chaque pas interne, avant l'intégration des vitesses
+        this.world.addEventListener('preStep', () => {
+            this.updateCarContacts();
+            this.trackElements?.update(this.cars, this.fixedTimeStep);
+            this.weather.update(this.fixedTimeStep);
+        });
+    }
+
+    public setTrackElements(trackElements: TrackElementRegistry | null): void {
+        this.trackElements = trackElements;
     }
 
     public addObject(object: THREE.Object3D, mass: number = 1): void {
@@ -74,16 +94,75 @@ export class PhysicsWorld {
         this.bodies.set(object, body);
     }
 
+    /**
+     * Ajoute une voiture au monde. Son châssis garde son propre matériau (frottement et rebond de ses réglages),
+     * qui reprend les contacts du matériau commun des voitures : le circuit doit donc être créé avant.
+     * Ces contacts suivent ensuite les changements de réglages du châssis (voir updateCarContacts).
+     */
     public addCar(car: Car): void {
         const body = car.getBody();
         const model = car.getModel();
         if (body && model) {
-            body.material = this.carMaterial;
+            if (body.material) {
+                this.carContacts.set(car, this.createCarContacts(body.material));
+            }
             car.addToWorld(this.world);
+            car.setWeather(this.weather);
             this.bodies.set(model, body);
+            this.cars.push(car);
         }
     }
 
+    public removeCar(car: Car): void {
+        const model = car.getModel();
+        car.removeFromWorld(this.world);
+        this.carContacts.get(car)?.forEach(({ contact }) => this.world.removeContactMaterial(contact));
+        this.carContacts.delete(car);
+        this.cars = this.cars.filter(other => other !== car);
+        if (model) {
+            this.bodies.delete(model);
+        }
+    }
+
+    /**
+     * Copie pour le matériau d'un châssis les contacts du matériau commun (sol, revêtements du circuit)
+     */
+    private createCarContacts(material: CANNON.Material): { shared: CANNON.ContactMaterial, contact: CANNON.ContactMaterial }[] {
+        return this.world.contactmaterials
+            .filter(shared => shared.materials.includes(this.carMaterial))
+            .map((shared) => {
+                const other = shared.materials[0] === this.carMaterial ? shared.materials[1] : shared.materials[0];
+                const contact = new CANNON.ContactMaterial(material, other, {
+                    friction: shared.friction,
+                    restitution: shared.restitution,
+                    contactEquationStiffness: shared.contactEquationStiffness,
+                    contactEquationRelaxation: shared.contactEquationRelaxation,
+                    frictionEquationStiffness: shared.frictionEquationStiffness,
+                    frictionEquationRelaxation: shared.frictionEquationRelaxation
+                });
+                this.world.addContactMaterial(contact);
+                return { shared, contact };
+            });
+    }
+
+    /**
+     * Recalcule les contacts des châssis avant chaque pas : ceux du matériau commun, mis à l'échelle
+     * du frottement et du rebond actuels du châssis par rapport à ceux du matériau commun
+     */
+    private updateCarContacts(): void {
+        this.carContacts.forEach((contacts, car) => {
+            const material = car.getBody()?.material;
+            if (!material) return;
+
+            const frictionRatio = material.friction / this.carMaterial.friction;
+            const restitutionRatio = material.restitution / this.carMaterial.restitution;
+            contacts.forEach(({ shared, contact }) => {
+                contact.friction = shared.friction * frictionRatio;
+                contact.restitution = shared.restitution * restitutionRatio;
+            });
+        });
+    }
+
     public addGround(groundBody: CANNON.Body): void {
         // Appliquer le matériau du sol
         groundBody.material = this.groundMaterial;
@@ -139,6 +218,17 @@ export class PhysicsWorld {
         this.world.gravity.set(x, y, z);
     }
 
+    /**
+     * Météo partagée par toutes les voitures du monde
+     */
+    public getWeather(): WeatherSystem {
+        return this.weather;
+    }
+
+    public getCarMaterial(): CANNON.Material {
+        return this.carMaterial;
+    }
+
     public getWorld(): CANNON.World {
         return this.world;
     }
@@ -0,0 +1,313 @@
+import * as THREE from 'three';
+import * as CANNON from 'cannon-es';
+import { TrackVolume } from '../interfaces/TrackManifest';
+
+export interface Checkpoint {
+    index: number;
+    name: string;
+    box: THREE.Box3;
+    isFinish: boolean;
+}
+
+export interface SectorResult {
+    lap: number;
+    sector: number;
+    time: number;
+    deltaToBest: number | null;
+}
+
+export interface LapResult {
+    lap: number;
+    time: number;
+    sectors: number[];
+    isBest: boolean;
+}
+
+export class RaceManager {
+    private checkpoints: Checkpoint[] = [];
+    private finishLine: Checkpoint | null = null;
+
+    // État de la course
+    private isRunning: boolean = false;
+    private raceTime: number = 0;
+    private lapStartTime: number = 0;
+    private sectorStartTime: number = 0;
+    private nextCheckpointIndex: number = 0;
+    private currentLap: number = 1;
+    private currentSectors: number[] = [];
+    private laps: LapResult[] = [];
+    private bestLap: LapResult | null = null;
+    private bestSectors: number[] = [];
+
+    // Volumes dans lesquels la voiture se trouvait au pas précédent
+    private insideVolumes: Set<Checkpoint> = new Set();
+
+    // Callbacks
+    private lapListeners: ((lap: LapResult) => void)[] = [];
+    private sectorListeners: ((sector: SectorResult) => void)[] = [];
+    private wrongCheckpointListeners: ((checkpoint: Checkpoint, expected: Checkpoint) => void)[] = [];
+
+    private static readonly RACE_CONFIG = {
+        CHECKPOINT_PATTERN: /^checkpoint[_\-.]?(\d+)/i,
+        FINISH_PATTERN: /^(finish|start[_\-.]?finish|finish[_\-.]?line)/i,
+        DEFAULT_VOLUME_SIZE: new THREE.Vector3(12, 6, 2), // Taille d'un volume défini par un empty
+        MIN_LAP_TIME: 5,            // Temps minimum d'un tour en secondes (évite les faux tours)
+    };
+
+    /**
+     * Lit les volumes de checkpoints et la ligne d'arrivée dans le modèle du circuit.
+     * Les volumes sont masqués et marqués comme déclencheurs pour ne pas être
+     * transformés en corps de collision par TrackPhysics.
+     * @param trackModel Le modèle glTF du circuit
+     * @param volumes Volumes supplémentaires décrits par le manifeste du circuit
+     */
+    public loadFromTrack(trackModel: THREE.Object3D, volumes: TrackVolume[] = []): void {
+        this.checkpoints = [];
+        this.finishLine = null;
+
+        trackModel.updateMatrixWorld(true);
+        trackModel.traverse((child) => {
+            const checkpointMatch = child.name.match(RaceManager.RACE_CONFIG.CHECKPOINT_PATTERN);
+            const isFinish = RaceManager.RACE_CONFIG.FINISH_PATTERN.test(child.name);
+
+            if (!checkpointMatch && !isFinish) return;
+
+            const checkpoint: Checkpoint = {
+                index: checkpointMatch ? parseInt(checkpointMatch[1], 10) : -1,
+                name: child.name,
+                box: this.computeVolume(child),
+                isFinish
+            };
+
+            // Les volumes ne doivent ni être rendus ni entrer en collision
+            child.userData.isTrigger = true;
+            child.visible = false;
+
+            if (isFinish) {
+                this.finishLine = checkpoint;
+            } else {
+                this.checkpoints.push(checkpoint);
+            }
+        });
+
+        volumes.forEach((volume) => {
+            const checkpoint: Checkpoint = {
+                index: volume.index,
+                name: volume.name,
+                box: new THREE.Box3().setFromCenterAndSize(
+                    new THREE.Vector3(volume.position.x, volume.position.y, volume.position.z),
+                    new THREE.Vector3(volume.size.x, volume.size.y, volume.size.z)
+                ),
+                isFinish: volume.isFinish === true
+            };
+            if (checkpoint.isFinish) {
+                this.finishLine = checkpoint;
+            } else {
+                this.checkpoints.push(checkpoint);
+            }
+        });
+
+        // Trier les checkpoints selon leur numéro dans le nom
+        this.checkpoints.sort((a, b) => a.index - b.index);
+        this.checkpoints.forEach((checkpoint, index) => checkpoint.index = index);
+
+        if (!this.finishLine) {
+            console.warn("Aucune ligne d'arrivée trouvée dans le circuit (nœud 'finish' attendu)");
+        }
+        console.log(`Circuit chargé : ${this.checkpoints.length} checkpoints, arrivée ${this.finishLine ? 'trouvée' : 'absente'}`);
+    }
+
+    /**
+     * Calcule le volume d'un nœud en coordonnées monde.
+     * Un mesh utilise sa boîte englobante, un empty un volume par défaut mis à l'échelle.
+     */
+    private computeVolume(object: THREE.Object3D): THREE.Box3 {
+        const box = new THREE.Box3();
+        let hasGeometry = false;
+
+        object.traverse((child) => {
+            if (child instanceof THREE.Mesh && child.geometry) {
+                hasGeometry = true;
+            }
+        });
+
+        if (hasGeometry) {
+            return box.setFromObject(object);
+        }
+
+        const position = new THREE.Vector3();
+        const scale = new THREE.Vector3();
+        object.getWorldPosition(position);
+        object.getWorldScale(scale);
+        return box.setFromCenterAndSize(
+            position,
+            RaceManager.RACE_CONFIG.DEFAULT_VOLUME_SIZE.clone().multiply(scale)
+        );
+    }
+
+    public start(): void {
+        this.reset();
+        this.isRunning = true;
+    }
+
+    public stop(): void {
+        this.isRunning = false;
+    }
+
+    public reset(): void {
+        this.isRunning = false;
+        this.raceTime = 0;
+        this.lapStartTime = 0;
+        this.sectorStartTime = 0;
+        this.nextCheckpointIndex = 0;
+        this.currentLap = 1;
+        this.currentSectors = [];
+        this.laps = [];
+        this.insideVolumes.clear();
+    }
+
+    /**
+     * Teste la position du châssis contre les volumes (appelé à chaque pas fixe)
+     * @param deltaTime Pas de temps fixe de la physique
+     * @param body Corps physique du châssis de la voiture
+     */
+    public update(deltaTime: number, body: CANNON.Body): void {
+        if (!this.isRunning) return;
+
+        this.raceTime += deltaTime;
+
+        const position = new THREE.Vector3(body.position.x, body.position.y, body.position.z);
+        const volumes = this.finishLine ? [...this.checkpoints, this.finishLine] : this.checkpoints;
+
+        volumes.forEach((volume) => {
+            const isInside = volume.box.containsPoint(position);
+            const wasInside = this.insideVolumes.has(volume);
+
+            if (isInside && !wasInside) {
+                this.insideVolumes.add(volume);
+                this.onVolumeEntered(volume);
+            } else if (!isInside && wasInside) {
+                this.insideVolumes.delete(volume);
+            }
+        });
+    }
+
+    private onVolumeEntered(volume: Checkpoint): void {
+        if (volume.isFinish) {
+            this.onFinishLineEntered();
+            return;
+        }
+
+        const expected = this.checkpoints[this.nextCheckpointIndex];
+        if (!expected) return;
+
+        if (volume !== expected) {
+            // Checkpoint déjà validé ou pris dans le désordre : on l'ignore
+            if (volume.index > this.nextCheckpointIndex) {
+                this.wrongCheckpointListeners.forEach(listener => listener(volume, expected));
+            }
+            return;
+        }
+
+        this.completeSector();
+        this.nextCheckpointIndex++;
+    }
+
+    private onFinishLineEntered(): void {
+        const allCheckpointsPassed = this.nextCheckpointIndex >= this.checkpoints.length;
+        const lapTime = this.raceTime - this.lapStartTime;
+
+        // Départ depuis la ligne ou tour incomplet : on ignore
+        if (!allCheckpointsPassed || lapTime < RaceManager.RACE_CONFIG.MIN_LAP_TIME) {
+            if (!allCheckpointsPassed && this.nextCheckpointIndex > 0) {
+                console.warn(`Ligne d'arrivée franchie sans passer par ${this.checkpoints[this.nextCheckpointIndex].name}`);
+            }
+            return;
+        }
+
+        this.completeSector();
+
+        const isBest = !this.bestLap || lapTime < this.bestLap.time;
+        const result: LapResult = {
+            lap: this.currentLap,
+            time: lapTime,
+            sectors: [...this.currentSectors],
+            isBest
+        };
+
+        this.laps.push(result);
+        if (isBest) {
+            this.bestLap = result;
+        }
+
+        console.log(`Tour ${result.lap} : ${RaceManager.formatTime(lapTime)}` +
+            ` (secteurs : ${result.sectors.map(s => RaceManager.formatTime(s)).join(' / ')})` +
+            (isBest ? ' - meilleur tour' : ''));
+
+        this.lapListeners.forEach(listener => listener(result));
+
+        // Préparer le tour suivant
+        this.currentLap++;
+        this.lapStartTime = this.raceTime;
+        this.nextCheckpointIndex = 0;
+        this.currentSectors = [];
+    }
+
+    private completeSector(): void {
+        const sectorIndex = this.currentSectors.length;
+        const sectorTime = this.raceTime - this.sectorStartTime;
+        this.currentSectors.push(sectorTime);
+        this.sectorStartTime = this.raceTime;
+
+        const bestSector = this.bestSectors[sectorIndex];
+        if (bestSector === undefined || sectorTime < bestSector) {
+            this.bestSectors[sectorIndex] = sectorTime;
+        }
+
+        const result: SectorResult = {
+            lap: this.currentLap,
+            sector: sectorIndex + 1,
+            time: sectorTime,
+            deltaToBest: bestSector === undefined ? null : sectorTime - bestSector
+        };
+        this.sectorListeners.forEach(listener => listener(result));
+    }
+
+    // Abonnement aux événements
+    public onLapCompleted(listener: (lap: LapResult) => void): void {
+        this.lapListeners.push(listener);
+    }
+
+    public onSectorCompleted(listener: (sector: SectorResult) => void): void {
+        this.sectorListeners.push(listener);
+    }
+
+    public onWrongCheckpoint(listener: (checkpoint: Checkpoint, expected: Checkpoint) => void): void {
+        this.wrongCheckpointListeners.push(listener);
+    }
+
+    // Méthodes publiques d'accès
+    public getRaceTime(): number { return this.raceTime; }
+    public getCurrentLap(): number { return this.currentLap; }
+    public getCurrentLapTime(): number { return this.raceTime - this.lapStartTime; }
+    public getLaps(): LapResult[] { return this.laps; }
+    public getLastLap(): LapResult | null { return this.laps[this.laps.length - 1] || null; }
+    public getBestLap(): LapResult | null { return this.bestLap; }
+    public getBestSectors(): number[] { return this.bestSectors; }
+    public getCheckpoints(): Checkpoint[] { return this.checkpoints; }
+    public getFinishLine(): Checkpoint | null { return this.finishLine; }
+    public getNextCheckpoint(): Checkpoint | null { return this.checkpoints[this.nextCheckpointIndex] || this.finishLine; }
+    public getSectorCount(): number { return this.checkpoints.length + 1; }
+    public isRaceRunning(): boolean { return this.isRunning; }
+
+    /**
+     * Formate un temps en secondes au format m:ss.mmm
+     */
+    public static formatTime(seconds: number): string {
+        // Arrondi aux millisecondes avant le découpage pour que 59.9996 s donne 1:00.000
+        const milliseconds = Math.round(seconds * 1000);
+        const minutes = Math.floor(milliseconds / 60000);
+        const remaining = (milliseconds - minutes * 60000) / 1000;
+        return `${minutes}:${remaining.toFixed(3).padStart(6, '0')}`;
+    }
+}
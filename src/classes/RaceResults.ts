@@ -0,0 +1,134 @@
+import { LapResult, RaceManager } from './RaceManager';
+
+export interface PlayerResult {
+    name: string;
+    laps: LapResult[];
+    hasFinished: boolean;
+}
+
+export class RaceResults {
+    private container: HTMLDivElement;
+    private list: HTMLDivElement;
+    private totalElement: HTMLDivElement;
+    private replayButton: HTMLButtonElement;
+    private onRestartCallback: () => void;
+    private onWatchReplayCallback: () => void;
+
+    constructor(onRestart: () => void, onWatchReplay: () => void) {
+        this.onRestartCallback = onRestart;
+        this.onWatchReplayCallback = onWatchReplay;
+
+        this.container = document.createElement('div');
+        this.container.className = 'race-results hidden';
+
+        const content = document.createElement('div');
+        content.className = 'race-results-content';
+
+        const title = document.createElement('h2');
+        title.className = 'race-results-title';
+        title.textContent = 'Résultats';
+
+        this.list = document.createElement('div');
+        this.list.className = 'race-results-list';
+
+        this.totalElement = document.createElement('div');
+        this.totalElement.className = 'race-results-total';
+
+        const restartButton = document.createElement('button');
+        restartButton.className = 'play-button';
+        restartButton.textContent = 'Rejouer';
+        restartButton.addEventListener('click', () => {
+            this.hide();
+            this.onRestartCallback();
+        });
+
+        this.replayButton = document.createElement('button');
+        this.replayButton.className = 'play-button';
+        this.replayButton.textContent = 'Revoir';
+        this.replayButton.addEventListener('click', () => this.onWatchReplayCallback());
+
+        const buttons = document.createElement('div');
+        buttons.className = 'race-results-buttons';
+        buttons.appendChild(restartButton);
+        buttons.appendChild(this.replayButton);
+
+        content.appendChild(title);
+        content.appendChild(this.list);
+        content.appendChild(this.totalElement);
+        content.appendChild(buttons);
+        this.container.appendChild(content);
+        document.body.appendChild(this.container);
+    }
+
+    /**
+     * Affiche le détail des tours de la course terminée
+     * @param players Résultats de chaque joueur humain
+     * @param hasReplay Affiche le bouton de replay si la course a été enregistrée
+     */
+    public show(players: PlayerResult[], hasReplay: boolean = false): void {
+        this.replayButton.style.display = hasReplay ? 'inline-block' : 'none';
+        this.list.innerHTML = '';
+        this.totalElement.textContent = '';
+
+        if (players.length === 1) {
+            this.showLaps(players[0].laps);
+            this.totalElement.textContent = `Temps total : ${RaceManager.formatTime(RaceResults.getTotalTime(players[0].laps))}`;
+        } else {
+            this.showRanking(players);
+        }
+
+        this.container.classList.remove('hidden');
+    }
+
+    private showLaps(laps: LapResult[]): void {
+        const bestTime = Math.min(...laps.map(lap => lap.time));
+        laps.forEach((lap) => {
+            const row = document.createElement('div');
+            row.className = 'race-results-row';
+            if (lap.time === bestTime) {
+                row.classList.add('best');
+            }
+            row.textContent = `Tour ${lap.lap} : ${RaceManager.formatTime(lap.time)}`;
+            this.list.appendChild(row);
+        });
+    }
+
+    /**
+     * Classement en écran partagé : les joueurs arrivés d'abord, puis par tours bouclés
+     */
+    private showRanking(players: PlayerResult[]): void {
+        const ranking = [...players].sort((a, b) => {
+            if (a.hasFinished !== b.hasFinished) return a.hasFinished ? -1 : 1;
+            if (a.laps.length !== b.laps.length) return b.laps.length - a.laps.length;
+            return RaceResults.getTotalTime(a.laps) - RaceResults.getTotalTime(b.laps);
+        });
+
+        ranking.forEach((player, index) => {
+            const row = document.createElement('div');
+            row.className = 'race-results-row';
+            if (index === 0) {
+                row.classList.add('best');
+            }
+
+            const bestLap = player.laps.length > 0 ? Math.min(...player.laps.map(lap => lap.time)) : null;
+            const time = player.hasFinished
+                ? RaceManager.formatTime(RaceResults.getTotalTime(player.laps))
+                : `${player.laps.length} tour(s)`;
+            const best = bestLap !== null ? ` (meilleur tour ${RaceManager.formatTime(bestLap)})` : '';
+            row.textContent = `${index + 1}. ${player.name} : ${time}${best}`;
+            this.list.appendChild(row);
+        });
+    }
+
+    private static getTotalTime(laps: LapResult[]): number {
+        return laps.reduce((sum, lap) => sum + lap.time, 0);
+    }
+
+    public hide(): void {
+        this.container.classList.add('hidden');
+    }
+
+    public dispose(): void {
+        this.container.remove();
+    }
+}
@@ -0,0 +1,103 @@
+import { RaceConfig, DEFAULT_RACE_CONFIG } from '../interfaces/RaceConfig';
+
+export type RaceState = 'grid' | 'countdown' | 'racing' | 'finished' | 'results';
+
+export class RaceStateMachine {
+    private state: RaceState = 'grid';
+    private stateTime: number = 0;
+    private config: RaceConfig;
+    private isHeldOnGrid: boolean = false;
+    private listeners: ((state: RaceState, previous: RaceState) => void)[] = [];
+
+    constructor(config: Partial<RaceConfig> = {}) {
+        this.config = { ...DEFAULT_RACE_CONFIG, ...config };
+    }
+
+    /**
+     * Fait avancer la machine à états (appelé à chaque pas fixe de la physique)
+     * @param deltaTime Pas de temps en secondes
+     */
+    public update(deltaTime: number): void {
+        this.stateTime += deltaTime;
+
+        switch (this.state) {
+            case 'grid':
+                if (!this.isHeldOnGrid && this.stateTime >= this.config.gridDuration) {
+                    this.setState('countdown');
+                }
+                break;
+            case 'countdown':
+                if (this.stateTime >= this.config.countdownDuration) {
+                    this.setState('racing');
+                }
+                break;
+            case 'finished':
+                if (this.stateTime >= this.config.resultsDelay) {
+                    this.setState('results');
+                }
+                break;
+            default:
+                break;
+        }
+    }
+
+    private setState(state: RaceState): void {
+        if (state === this.state) return;
+
+        const previous = this.state;
+        this.state = state;
+        this.stateTime = 0;
+        console.log(`Course : ${previous} -> ${state}`);
+        this.listeners.forEach(listener => listener(state, previous));
+    }
+
+    /**
+     * Termine la course (dernier tour bouclé)
+     */
+    public finish(): void {
+        if (this.state === 'racing') {
+            this.setState('finished');
+        }
+    }
+
+    /**
+     * Replace la course sur la grille de départ
+     */
+    public restart(): void {
+        this.setState('grid');
+    }
+
+    /**
+     * Bloque la course sur la grille (en ligne, jusqu'au signal de départ du serveur)
+     */
+    public holdOnGrid(hold: boolean): void {
+        // La présentation sur la grille repart de zéro au moment du départ
+        if (this.isHeldOnGrid && !hold) {
+            this.stateTime = 0;
+        }
+        this.isHeldOnGrid = hold;
+    }
+
+    public onStateChange(listener: (state: RaceState, previous: RaceState) => void): void {
+        this.listeners.push(listener);
+    }
+
+    public updateConfig(newConfig: Partial<RaceConfig>): void {
+        this.config = { ...this.config, ...newConfig };
+    }
+
+    // Méthodes publiques d'accès
+    public getState(): RaceState { return this.state; }
+    public getStateTime(): number { return this.stateTime; }
+    public getTotalLaps(): number { return this.config.laps; }
+    public isRacing(): boolean { return this.state === 'racing'; }
+
+    /**
+     * Nombre de feux rouges allumés pendant le compte à rebours (3, 2, 1 puis 0 au vert)
+     */
+    public getCountdownValue(): number {
+        if (this.state !== 'countdown') return 0;
+        const remaining = this.config.countdownDuration - this.stateTime;
+        return Math.max(0, Math.ceil(remaining));
+    }
+}
@@ -0,0 +1,145 @@
+import * as THREE from 'three';
+import { Checkpoint } from './RaceManager';
+
+export class RacingLine {
+    private curve: THREE.CatmullRomCurve3;
+    private samples: THREE.Vector3[] = [];
+    private length: number;
+
+    private static readonly LINE_CONFIG = {
+        NODE_PATTERN: /^racing[_\-.]?line/i,
+        SAMPLE_COUNT: 500,      // Nombre d'échantillons pour la recherche du point le plus proche
+        SEARCH_WINDOW: 40,      // Fenêtre de recherche autour du dernier échantillon connu
+    };
+
+    constructor(points: THREE.Vector3[]) {
+        this.curve = new THREE.CatmullRomCurve3(points, true, 'centripetal');
+        this.length = this.curve.getLength();
+        this.samples = this.curve.getSpacedPoints(RacingLine.LINE_CONFIG.SAMPLE_COUNT).slice(0, -1);
+    }
+
+    /**
+     * Extrait la trajectoire du circuit : d'abord un nœud 'racing_line' dont les sommets
+     * sont ordonnés, sinon les centres des checkpoints suivis de la ligne d'arrivée.
+     * @param trackModel Le modèle glTF du circuit
+     * @param checkpoints Les checkpoints lus par le RaceManager
+     * @param finishLine La ligne d'arrivée lue par le RaceManager
+     */
+    public static fromTrack(trackModel: THREE.Object3D, checkpoints: Checkpoint[], finishLine: Checkpoint | null): RacingLine | null {
+        const linePoints = RacingLine.findLineNodePoints(trackModel);
+        if (linePoints.length >= 3) {
+            console.log(`Trajectoire IA lue depuis le circuit (${linePoints.length} points)`);
+            return new RacingLine(linePoints);
+        }
+
+        const volumes = finishLine ? [...checkpoints, finishLine] : checkpoints;
+        const centers = volumes.map(volume => volume.box.getCenter(new THREE.Vector3()));
+        if (centers.length >= 3) {
+            console.log(`Trajectoire IA construite à partir de ${centers.length} checkpoints`);
+            return new RacingLine(centers);
+        }
+
+        console.warn("Impossible de construire une trajectoire pour l'IA (nœud 'racing_line' ou checkpoints requis)");
+        return null;
+    }
+
+    private static findLineNodePoints(trackModel: THREE.Object3D): THREE.Vector3[] {
+        const points: THREE.Vector3[] = [];
+
+        trackModel.updateMatrixWorld(true);
+        trackModel.traverse((child) => {
+            if (points.length > 0 || !RacingLine.LINE_CONFIG.NODE_PATTERN.test(child.name)) return;
+
+            child.traverse((node) => {
+                if (!(node instanceof THREE.Mesh || node instanceof THREE.Line || node instanceof THREE.Points)) return;
+                const positions = node.geometry.attributes.position;
+                if (!positions) return;
+
+                for (let i = 0; i < positions.count; i++) {
+                    points.push(new THREE.Vector3().fromBufferAttribute(positions, i).applyMatrix4(node.matrixWorld));
+                }
+            });
+
+            // La trajectoire sert uniquement de guide : ni rendu ni collision
+            child.userData.isTrigger = true;
+            child.visible = false;
+        });
+
+        return points;
+    }
+
+    /**
+     * Trouve l'échantillon le plus proche d'une position
+     * @param position Position dans le monde
+     * @param hint Dernier échantillon connu pour limiter la recherche (-1 pour tout parcourir)
+     */
+    public findClosestSample(position: THREE.Vector3, hint: number = -1): number {
+        const count = this.samples.length;
+        let bestIndex = 0;
+        let bestDistance = Infinity;
+
+        // Sans indice, la fenêtre couvre toute la trajectoire
+        const center = Math.max(hint, 0);
+        const range = hint >= 0 ? RacingLine.LINE_CONFIG.SEARCH_WINDOW : Math.ceil(count / 2);
+
+        for (let offset = -range; offset <= range; offset++) {
+            const index = (((center + offset) % count) + count) % count;
+            const distance = this.samples[index].distanceToSquared(position);
+            if (distance < bestDistance) {
+                bestDistance = distance;
+                bestIndex = index;
+            }
+        }
+
+        return bestIndex;
+    }
+
+    /**
+     * Point de la trajectoire situé à une distance donnée devant un échantillon
+     */
+    public getPointAhead(sampleIndex: number, distance: number): THREE.Vector3 {
+        return this.curve.getPointAt(this.wrapParameter(this.sampleToParameter(sampleIndex) + distance / this.length));
+    }
+
+    /**
+     * Courbure moyenne (rad/m) entre un échantillon et un point situé plus loin
+     */
+    public getCurvatureAhead(sampleIndex: number, distance: number): number {
+        const u = this.sampleToParameter(sampleIndex);
+        const startTangent = this.curve.getTangentAt(u);
+        let maxCurvature = 0;
+
+        // Échantillonner la portion à venir pour détecter le virage le plus serré
+        const steps = 4;
+        for (let i = 1; i <= steps; i++) {
+            const segment = (distance * i) / steps;
+            const tangent = this.curve.getTangentAt(this.wrapParameter(u + segment / this.length));
+            const angle = startTangent.angleTo(tangent);
+            maxCurvature = Math.max(maxCurvature, angle / segment);
+        }
+
+        return maxCurvature;
+    }
+
+    /**
+     * Progression sur la trajectoire entre 0 et 1
+     */
+    public sampleToParameter(sampleIndex: number): number {
+        return sampleIndex / this.samples.length;
+    }
+
+    private wrapParameter(u: number): number {
+        return ((u % 1) + 1) % 1;
+    }
+
+    /**
+     * Altitude du point le plus bas de la trajectoire
+     */
+    public getMinHeight(): number {
+        return Math.min(...this.samples.map(sample => sample.y));
+    }
+
+    public getCurve(): THREE.CatmullRomCurve3 { return this.curve; }
+    public getLength(): number { return this.length; }
+    public getSampleCount(): number { return this.samples.length; }
+}
@@ -0,0 +1,45 @@
+import * as CANNON from 'cannon-es';
+import { Car } from './Car';
+import { TrackElement, TrackElementNode } from '../interfaces/TrackElement';
+
+/**
+ * Tremplin : garantit une vitesse d'envol suffisante pour atteindre la zone de réception.
+ * Extras glTF : launchSpeed (m/s), acceleration (m/s²).
+ */
+export class RampElement implements TrackElement {
+    public readonly node: TrackElementNode;
+    private readonly direction: CANNON.Vec3;
+    private readonly launchSpeed: number;
+    private readonly acceleration: number;
+
+    private static readonly RAMP_CONFIG = {
+        LAUNCH_SPEED: 22,       // Vitesse d'envol minimum dans le sens du tremplin en m/s
+        ACCELERATION: 20,       // Accélération d'appoint sur le tremplin en m/s²
+        ROLL_DAMPING: 4         // Amortissement du roulis pour décoller à plat (1/s)
+    };
+
+    constructor(node: TrackElementNode) {
+        this.node = node;
+        this.direction = new CANNON.Vec3(node.direction.x, node.direction.y, node.direction.z);
+        this.launchSpeed = node.params.launchSpeed ?? RampElement.RAMP_CONFIG.LAUNCH_SPEED;
+        this.acceleration = node.params.acceleration ?? RampElement.RAMP_CONFIG.ACCELERATION;
+    }
+
+    public apply(car: Car, deltaTime: number): void {
+        const body = car.getBody();
+        if (!body || car.getWheelsInContact() === 0) return;
+
+        // Seulement pour les voitures qui montent le tremplin
+        const speed = body.velocity.dot(this.direction);
+        if (speed <= 0) return;
+
+        if (speed < this.launchSpeed) {
+            body.applyImpulse(this.direction.scale(body.mass * this.acceleration * deltaTime));
+        }
+
+        // Limiter la rotation autour de l'axe de la piste
+        const roll = body.angularVelocity.dot(this.direction);
+        const damping = Math.min(RampElement.RAMP_CONFIG.ROLL_DAMPING * deltaTime, 1);
+        body.angularVelocity.vsub(this.direction.scale(roll * damping), body.angularVelocity);
+    }
+}
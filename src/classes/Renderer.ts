@@ -1,14 +1,19 @@
 import * as THREE from "three";
 import { SceneConfig } from "../interfaces/SceneConfig";
 import { ThirdPersonCamera } from "./ThirdPersonCamera";
+import { VisualEffects } from "./VisualEffects";
 
 export class Renderer {
     private renderer: THREE.WebGLRenderer;
-    private camera: ThirdPersonCamera;
+    private cameras: ThirdPersonCamera[];
     private config: SceneConfig;
+    private effects: VisualEffects | null = null;
 
-    constructor(camera: ThirdPersonCamera, config: SceneConfig) {
-        this.camera = camera;
+    /**
+     * @param cameras Une caméra par joueur : l'écran est partagé en bandes horizontales de haut en bas
+     */
+    constructor(cameras: ThirdPersonCamera[], config: SceneConfig) {
+        this.cameras = cameras;
         this.config = config;
         
         this.renderer = new THREE.WebGLRenderer({
@@ -32,10 +37,57 @@ export class Renderer {
         this.renderer.info.autoReset = false;
         
         document.body.appendChild(this.renderer.domElement);
+        this.updateCameraAspects();
+    }
+
+    /**
+     * Post-traitements (vitesse, nitro, bloom), uniquement avec une seule caméra
+     */
+    public enableEffects(scene: THREE.Scene): void {
+        if (this.cameras.length !== 1 || this.effects) return;
+        this.effects = new VisualEffects(this.renderer, scene, this.cameras[0].getCamera());
+    }
+
+    public getEffects(): VisualEffects | null {
+        return this.effects;
     }
 
     public render(scene: THREE.Scene): void {
-        this.renderer.render(scene, this.camera.getCamera());
+        if (this.effects) {
+            this.effects.render();
+            return;
+        }
+        if (this.cameras.length === 1) {
+            this.renderer.render(scene, this.cameras[0].getCamera());
+            return;
+        }
+
+        // Écran partagé : chaque caméra est rendue dans sa propre bande
+        const size = this.renderer.getSize(new THREE.Vector2());
+        const viewportHeight = size.y / this.cameras.length;
+
+        this.renderer.setScissorTest(true);
+        this.cameras.forEach((camera, index) => {
+            // L'origine du viewport WebGL est en bas à gauche
+            const y = size.y - (index + 1) * viewportHeight;
+            this.renderer.setViewport(0, y, size.x, viewportHeight);
+            this.renderer.setScissor(0, y, size.x, viewportHeight);
+            this.renderer.render(scene, camera.getCamera());
+        });
+        this.renderer.setScissorTest(false);
+        this.renderer.setViewport(0, 0, size.x, size.y);
+    }
+
+    /**
+     * Adapte le ratio de chaque caméra à la taille de son viewport
+     */
+    private updateCameraAspects(): void {
+        const size = this.renderer.getSize(new THREE.Vector2());
+        const aspect = size.x / (size.y / this.cameras.length);
+        this.cameras.forEach((camera) => {
+            camera.getCamera().aspect = aspect;
+            camera.getCamera().updateProjectionMatrix();
+        });
     }
 
     public getRenderer(): THREE.WebGLRenderer {
@@ -44,6 +96,8 @@ export class Renderer {
 
     public setSize(width: number, height: number): void {
         this.renderer.setSize(width, height);
+        this.effects?.resize(width, height);
+        this.updateCameraAspects();
     }
 
     public updateConfig(config: Partial<SceneConfig>): void {
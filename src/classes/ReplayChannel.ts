@@ -0,0 +1,86 @@
+import { CarInputSource } from '../interfaces/CarInput';
+import { ReplayInputFrame } from '../interfaces/Replay';
+
+export type ReplayChannelMode = 'live' | 'recording' | 'playback';
+
+/**
+ * Intercale le système de replay entre une voiture et sa source de commandes.
+ * En direct ou en enregistrement, les commandes de la source sont échantillonnées
+ * une fois par pas fixe (et quantifiées pour correspondre exactement au fichier exporté).
+ * En lecture, ce sont les commandes enregistrées qui sont servies à la voiture.
+ */
+export class ReplayChannel implements CarInputSource {
+    private source: CarInputSource;
+    private mode: ReplayChannelMode = 'live';
+    private current: ReplayInputFrame = { throttle: 0, brake: 0, steering: 0, handbrake: false, reset: false, nitro: false };
+    private recorded: ReplayInputFrame[] = [];
+
+    constructor(source: CarInputSource) {
+        this.source = source;
+    }
+
+    /**
+     * Fixe les commandes du pas à venir (appelé avant Car.update)
+     * @param frame Commandes enregistrées à servir en mode lecture
+     */
+    public beginStep(frame?: ReplayInputFrame): void {
+        if (this.mode === 'playback') {
+            this.current = frame || { throttle: 0, brake: 0, steering: 0, handbrake: false, reset: false, nitro: false };
+            return;
+        }
+
+        this.current = ReplayChannel.quantize({
+            throttle: this.source.getThrottle(),
+            brake: this.source.getBrake(),
+            steering: this.source.getSteering(),
+            handbrake: this.source.isHandbrakePressed(),
+            reset: this.source.isResetPressed(),
+            nitro: this.source.isNitroPressed()
+        });
+
+        if (this.mode === 'recording') {
+            this.recorded.push(this.current);
+        }
+    }
+
+    /**
+     * Arrondit les commandes à la précision du format de fichier (un octet par axe)
+     */
+    public static quantize(frame: ReplayInputFrame): ReplayInputFrame {
+        return {
+            throttle: Math.round(Math.min(Math.max(frame.throttle, 0), 1) * 255) / 255,
+            brake: Math.round(Math.min(Math.max(frame.brake, 0), 1) * 255) / 255,
+            steering: Math.round(Math.min(Math.max(frame.steering, -1), 1) * 127) / 127,
+            handbrake: frame.handbrake,
+            reset: frame.reset === true,
+            nitro: frame.nitro === true
+        };
+    }
+
+    public setMode(mode: ReplayChannelMode): void {
+        this.mode = mode;
+        if (mode === 'recording') {
+            this.recorded = [];
+        }
+    }
+
+    public getMode(): ReplayChannelMode { return this.mode; }
+    public getRecordedFrames(): ReplayInputFrame[] { return this.recorded; }
+    public getSource(): CarInputSource { return this.source; }
+
+    // Implémentation de CarInputSource : la voiture lit les commandes figées pour le pas
+    public getThrottle(): number { return this.current.throttle; }
+    public getBrake(): number { return this.current.brake; }
+    public getSteering(): number { return this.current.steering; }
+    public isHandbrakePressed(): boolean { return this.current.handbrake; }
+    public isResetPressed(): boolean { return this.current.reset; }
+    public isNitroPressed(): boolean { return this.current.nitro; }
+
+    public enable(): void {
+        this.source.enable();
+    }
+
+    public disable(): void {
+        this.source.disable();
+    }
+}
@@ -0,0 +1,121 @@
+import { ReplaySystem } from './ReplaySystem';
+import { ReplayData } from '../interfaces/Replay';
+import { RaceManager } from './RaceManager';
+
+export class ReplayControls {
+    private replaySystem: ReplaySystem;
+    private container: HTMLDivElement;
+    private playButton: HTMLButtonElement;
+    private speedButton: HTMLButtonElement;
+    private slider: HTMLInputElement;
+    private timeLabel: HTMLSpanElement;
+    private fileInput: HTMLInputElement;
+    private isScrubbing: boolean = false;
+
+    private onImportCallback: (replay: ReplayData) => void;
+    private onExitCallback: () => void;
+
+    constructor(replaySystem: ReplaySystem, onImport: (replay: ReplayData) => void, onExit: () => void) {
+        this.replaySystem = replaySystem;
+        this.onImportCallback = onImport;
+        this.onExitCallback = onExit;
+
+        this.container = document.createElement('div');
+        this.container.className = 'replay-controls hidden';
+
+        const badge = document.createElement('span');
+        badge.className = 'replay-badge';
+        badge.textContent = 'REPLAY';
+
+        this.playButton = this.createButton('Pause', () => this.replaySystem.togglePause());
+        this.speedButton = this.createButton('x1', () => this.cycleSpeed());
+
+        this.slider = document.createElement('input');
+        this.slider.type = 'range';
+        this.slider.className = 'replay-slider';
+        this.slider.min = '0';
+        this.slider.value = '0';
+        this.slider.addEventListener('input', () => {
+            this.isScrubbing = true;
+            this.replaySystem.seek(parseInt(this.slider.value, 10));
+        });
+        this.slider.addEventListener('change', () => {
+            this.isScrubbing = false;
+        });
+
+        this.timeLabel = document.createElement('span');
+        this.timeLabel.className = 'replay-time';
+
+        this.fileInput = document.createElement('input');
+        this.fileInput.type = 'file';
+        this.fileInput.accept = '.hwreplay';
+        this.fileInput.style.display = 'none';
+        this.fileInput.addEventListener('change', () => this.importSelectedFile());
+
+        const exportButton = this.createButton('Exporter', () => {
+            const replay = this.replaySystem.getReplay();
+            if (replay) {
+                ReplaySystem.exportToFile(replay);
+            }
+        });
+        const importButton = this.createButton('Importer', () => this.fileInput.click());
+        const exitButton = this.createButton('Quitter', () => this.onExitCallback());
+
+        [badge, this.playButton, this.speedButton, this.slider, this.timeLabel, exportButton, importButton, exitButton, this.fileInput]
+            .forEach(element => this.container.appendChild(element));
+        document.body.appendChild(this.container);
+    }
+
+    private createButton(label: string, onClick: () => void): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.className = 'replay-button';
+        button.textContent = label;
+        button.addEventListener('click', onClick);
+        return button;
+    }
+
+    private cycleSpeed(): void {
+        const speeds = ReplaySystem.PLAYBACK_SPEEDS;
+        const index = speeds.indexOf(this.replaySystem.getPlaybackSpeed());
+        this.replaySystem.setPlaybackSpeed(speeds[(index + 1) % speeds.length]);
+    }
+
+    private async importSelectedFile(): Promise<void> {
+        const file = this.fileInput.files?.[0];
+        this.fileInput.value = '';
+        if (!file) return;
+
+        try {
+            this.onImportCallback(await ReplaySystem.importFromFile(file));
+        } catch (error) {
+            console.error("Erreur lors de l'import du replay:", error);
+        }
+    }
+
+    public update(): void {
+        const frameCount = this.replaySystem.getFrameCount();
+        const frame = this.replaySystem.getFrame();
+        const timestep = this.replaySystem.getReplay()?.timestep ?? 0;
+
+        this.slider.max = `${frameCount}`;
+        if (!this.isScrubbing) {
+            this.slider.value = `${frame}`;
+        }
+
+        this.playButton.textContent = this.replaySystem.isPlaybackPaused() ? 'Lecture' : 'Pause';
+        this.speedButton.textContent = `x${this.replaySystem.getPlaybackSpeed()}`;
+        this.timeLabel.textContent = `${RaceManager.formatTime(frame * timestep)} / ${RaceManager.formatTime(frameCount * timestep)}`;
+    }
+
+    public show(): void {
+        this.container.classList.remove('hidden');
+    }
+
+    public hide(): void {
+        this.container.classList.add('hidden');
+    }
+
+    public dispose(): void {
+        this.container.remove();
+    }
+}
@@ -0,0 +1,310 @@
+import * as CANNON from 'cannon-es';
+import { Car } from './Car';
+import { ReplayChannel } from './ReplayChannel';
+import { WeatherSystem } from './WeatherSystem';
+import { CarSnapshot, ReplayData, ReplayInputFrame, SimulationSnapshot } from '../interfaces/Replay';
+
+export type ReplayState = 'idle' | 'recording' | 'playback';
+
+/**
+ * Enregistre les commandes de chaque voiture à chaque pas fixe à partir d'un état initial,
+ * puis rejoue la course en re-simulant Car.update et PhysicsWorld.update avec ces commandes.
+ */
+export class ReplaySystem {
+    private world: CANNON.World;
+    private weather: WeatherSystem;
+    private trackId: string;
+    private timestep: number;
+    private stepSimulation: () => void;
+    private cars: Car[] = [];
+    private channels: ReplayChannel[] = [];
+
+    private state: ReplayState = 'idle';
+    private initialState: SimulationSnapshot | null = null;
+
+    // Lecture
+    private replay: ReplayData | null = null;
+    private frame: number = 0;
+    private isPaused: boolean = false;
+    private playbackSpeed: number = 1;
+    private keyframes: Map<number, SimulationSnapshot> = new Map();
+
+    public static readonly VERSION = 1;
+    public static readonly BYTES_PER_INPUT = 4; // accélérateur, frein, direction, drapeaux
+    public static readonly PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4];
+    private static readonly FILE_MAGIC = 'HWRP';
+    private static readonly KEYFRAME_INTERVAL = 300; // Une image clé toutes les 5 secondes à 60 Hz
+
+    /**
+     * @param world Monde physique simulé
+     * @param weather Météo de la course, restaurée avec les voitures
+     * @param trackId Circuit sur lequel la course est enregistrée
+     * @param timestep Pas fixe de la simulation
+     * @param stepSimulation Exécute un pas fixe complet (utilisé pour avancer lors d'un déplacement dans le replay)
+     */
+    constructor(world: CANNON.World, weather: WeatherSystem, trackId: string, timestep: number, stepSimulation: () => void) {
+        this.world = world;
+        this.weather = weather;
+        this.trackId = trackId;
+        this.timestep = timestep;
+        this.stepSimulation = stepSimulation;
+    }
+
+    /**
+     * Ajoute une voiture au replay (l'ordre d'enregistrement doit être identique en lecture)
+     */
+    public register(car: Car, channel: ReplayChannel): void {
+        this.cars.push(car);
+        this.channels.push(channel);
+    }
+
+    /**
+     * Prépare les commandes de chaque voiture pour le pas à venir (appelé au début de chaque pas fixe)
+     * @returns false si la lecture est terminée et que la simulation ne doit pas avancer
+     */
+    public beginStep(): boolean {
+        if (this.state !== 'playback') {
+            this.channels.forEach(channel => channel.beginStep());
+            return true;
+        }
+
+        if (!this.replay || this.frame >= this.replay.frameCount) {
+            this.isPaused = true;
+            return false;
+        }
+
+        // Mémoriser régulièrement l'état pour accélérer les déplacements dans le replay
+        if (this.frame % ReplaySystem.KEYFRAME_INTERVAL === 0 && !this.keyframes.has(this.frame)) {
+            this.keyframes.set(this.frame, this.captureSnapshot());
+        }
+
+        this.channels.forEach((channel, carIndex) => channel.beginStep(this.readInput(this.frame, carIndex)));
+        this.frame++;
+        return true;
+    }
+
+    // Enregistrement
+
+    public startRecording(): void {
+        this.stopPlayback();
+        this.initialState = this.captureSnapshot();
+        this.channels.forEach(channel => channel.setMode('recording'));
+        this.state = 'recording';
+    }
+
+    /**
+     * Termine l'enregistrement et renvoie le replay compacté
+     */
+    public stopRecording(): ReplayData | null {
+        if (this.state !== 'recording' || !this.initialState) return null;
+
+        this.state = 'idle';
+        const recordedFrames = this.channels.map(channel => channel.getRecordedFrames());
+        this.channels.forEach(channel => channel.setMode('live'));
+
+        const frameCount = Math.min(...recordedFrames.map(frames => frames.length));
+        const carCount = this.channels.length;
+        const inputs = new Uint8Array(frameCount * carCount * ReplaySystem.BYTES_PER_INPUT);
+        const view = new DataView(inputs.buffer);
+
+        for (let frame = 0; frame < frameCount; frame++) {
+            for (let car = 0; car < carCount; car++) {
+                const input = recordedFrames[car][frame];
+                const offset = (frame * carCount + car) * ReplaySystem.BYTES_PER_INPUT;
+                view.setUint8(offset, Math.round(input.throttle * 255));
+                view.setUint8(offset + 1, Math.round(input.brake * 255));
+                view.setInt8(offset + 2, Math.round(input.steering * 127));
+                view.setUint8(offset + 3, (input.handbrake ? 1 : 0) | (input.reset ? 2 : 0) | (input.nitro ? 4 : 0));
+            }
+        }
+
+        console.log(`Replay enregistré : ${frameCount} pas, ${carCount} voitures (${inputs.byteLength} octets de commandes)`);
+
+        return {
+            version: ReplaySystem.VERSION,
+            trackId: this.trackId,
+            timestep: this.timestep,
+            carCount,
+            frameCount,
+            initialState: this.initialState,
+            inputs
+        };
+    }
+
+    // Lecture
+
+    /**
+     * Restaure l'état initial du replay et passe les voitures en lecture
+     * @returns false si le replay n'est pas compatible avec la scène
+     */
+    public startPlayback(replay: ReplayData): boolean {
+        if (replay.carCount !== this.cars.length || replay.trackId !== this.trackId) {
+            console.error(`Replay incompatible : ${replay.carCount} voitures sur ${replay.trackId}, ` +
+                `scène : ${this.cars.length} voitures sur ${this.trackId}`);
+            return false;
+        }
+        if (Math.abs(replay.timestep - this.timestep) > 1e-9) {
+            console.error('Replay incompatible : pas de temps différent');
+            return false;
+        }
+
+        if (this.state === 'recording') {
+            this.stopRecording();
+        }
+
+        this.replay = replay;
+        this.keyframes.clear();
+        this.keyframes.set(0, replay.initialState);
+        this.restoreSnapshot(replay.initialState);
+        this.channels.forEach(channel => channel.setMode('playback'));
+        this.frame = 0;
+        this.isPaused = false;
+        this.state = 'playback';
+        return true;
+    }
+
+    public stopPlayback(): void {
+        if (this.state !== 'playback') return;
+        this.channels.forEach(channel => channel.setMode('live'));
+        this.state = 'idle';
+        this.replay = null;
+        this.keyframes.clear();
+    }
+
+    /**
+     * Se déplace dans le replay en repartant de l'image clé la plus proche
+     * puis en re-simulant jusqu'au pas demandé
+     */
+    public seek(targetFrame: number): void {
+        if (this.state !== 'playback' || !this.replay) return;
+
+        const target = Math.max(0, Math.min(Math.floor(targetFrame), this.replay.frameCount));
+        let keyframe = 0;
+        this.keyframes.forEach((_, frame) => {
+            if (frame <= target && frame > keyframe) {
+                keyframe = frame;
+            }
+        });
+
+        // Inutile de revenir en arrière si la cible est devant la position actuelle
+        if (this.frame > target || this.frame < keyframe) {
+            this.restoreSnapshot(this.keyframes.get(keyframe)!);
+            this.frame = keyframe;
+        }
+
+        while (this.frame < target) {
+            this.stepSimulation();
+        }
+    }
+
+    public togglePause(): void {
+        this.isPaused = !this.isPaused;
+        // Relancer depuis le début si la lecture était terminée
+        if (!this.isPaused && this.replay && this.frame >= this.replay.frameCount) {
+            this.seek(0);
+        }
+    }
+
+    public setPlaybackSpeed(speed: number): void {
+        this.playbackSpeed = Math.max(0, speed);
+    }
+
+    private readInput(frame: number, carIndex: number): ReplayInputFrame {
+        const replay = this.replay!;
+        const view = new DataView(replay.inputs.buffer, replay.inputs.byteOffset, replay.inputs.byteLength);
+        const offset = (frame * replay.carCount + carIndex) * ReplaySystem.BYTES_PER_INPUT;
+        return {
+            throttle: view.getUint8(offset) / 255,
+            brake: view.getUint8(offset + 1) / 255,
+            steering: view.getInt8(offset + 2) / 127,
+            handbrake: (view.getUint8(offset + 3) & 1) === 1,
+            reset: (view.getUint8(offset + 3) & 2) === 2,
+            nitro: (view.getUint8(offset + 3) & 4) === 4
+        };
+    }
+
+    // États de la simulation
+
+    private captureSnapshot(): SimulationSnapshot {
+        return {
+            worldTime: this.world.time,
+            cars: this.cars.map(car => car.getSnapshot()).filter((snapshot): snapshot is CarSnapshot => snapshot !== null),
+            weather: this.weather.getState()
+        };
+    }
+
+    private restoreSnapshot(snapshot: SimulationSnapshot): void {
+        this.world.time = snapshot.worldTime;
+        this.world.accumulator = 0;
+        snapshot.cars.forEach((carSnapshot, index) => this.cars[index]?.applySnapshot(carSnapshot));
+        this.weather.setState(snapshot.weather);
+    }
+
+    // Fichiers de replay
+
+    /**
+     * Encode un replay : signature, longueur de l'en-tête JSON, en-tête, puis commandes brutes
+     */
+    public static encode(replay: ReplayData): ArrayBuffer {
+        const { inputs, ...header } = replay;
+        const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+        const buffer = new ArrayBuffer(8 + headerBytes.byteLength + inputs.byteLength);
+        const bytes = new Uint8Array(buffer);
+        const view = new DataView(buffer);
+
+        bytes.set(new TextEncoder().encode(ReplaySystem.FILE_MAGIC), 0);
+        view.setUint32(4, headerBytes.byteLength, true);
+        bytes.set(headerBytes, 8);
+        bytes.set(inputs, 8 + headerBytes.byteLength);
+        return buffer;
+    }
+
+    public static decode(buffer: ArrayBuffer): ReplayData {
+        const bytes = new Uint8Array(buffer);
+        const magic = new TextDecoder().decode(bytes.subarray(0, 4));
+        if (magic !== ReplaySystem.FILE_MAGIC) {
+            throw new Error("Ce fichier n'est pas un replay Hot Wheels Race");
+        }
+
+        const headerLength = new DataView(buffer).getUint32(4, true);
+        const header = JSON.parse(new TextDecoder().decode(bytes.subarray(8, 8 + headerLength)));
+        if (header.version !== ReplaySystem.VERSION) {
+            throw new Error(`Version de replay non supportée : ${header.version}`);
+        }
+
+        return { ...header, inputs: bytes.slice(8 + headerLength) };
+    }
+
+    /**
+     * Télécharge le replay sous forme de fichier .hwreplay
+     */
+    public static exportToFile(replay: ReplayData): void {
+        const blob = new Blob([ReplaySystem.encode(replay)], { type: 'application/octet-stream' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${replay.trackId}-${new Date().toISOString().replace(/[:.]/g, '-')}.hwreplay`;
+        link.click();
+        URL.revokeObjectURL(url);
+    }
+
+    public static async importFromFile(file: File): Promise<ReplayData> {
+        return ReplaySystem.decode(await file.arrayBuffer());
+    }
+
+    // Méthodes publiques d'accès
+    public getState(): ReplayState { return this.state; }
+    public getFrame(): number { return this.frame; }
+    public getFrameCount(): number { return this.replay?.frameCount ?? 0; }
+    public getReplay(): ReplayData | null { return this.replay; }
+    public isPlaybackPaused(): boolean { return this.isPaused; }
+    public getPlaybackSpeed(): number { return this.playbackSpeed; }
+
+    /**
+     * Facteur de vitesse à appliquer à l'horloge de la simulation
+     */
+    public getTimeScale(): number {
+        if (this.state !== 'playback') return 1;
+        return this.isPaused ? 0 : this.playbackSpeed;
+    }
+}
@@ -0,0 +1,171 @@
+import * as THREE from 'three';
+import * as CANNON from 'cannon-es';
+import { Car } from './Car';
+import { RacingLine } from './RacingLine';
+import { CarInputSource } from '../interfaces/CarInput';
+import { RespawnSnapshot } from '../interfaces/Replay';
+
+export type RespawnReason = 'manual' | 'flipped' | 'fallen' | 'offTrack' | 'stuck';
+
+export interface RespawnPoint {
+    position: THREE.Vector3;
+    yaw: number;                // Cap autour de l'axe vertical (0 = voiture tournée vers -z, voir Car.getForwardFromYaw)
+}
+
+/**
+ * Détecte une voiture retournée, tombée de la piste ou bloquée (ou la touche de replacement)
+ * et indique où la replacer : sur la trajectoire près de la dernière position saine,
+ * orientée dans le sens de la course.
+ * L'état fait partie de l'instantané de la voiture pour rester déterministe en replay et en ligne.
+ */
+export class RespawnManager {
+    private racingLine: RacingLine | null;
+    private fallHeight: number;
+    private state: RespawnSnapshot = RespawnManager.createInitialState();
+
+    private static readonly RESPAWN_CONFIG = {
+        FLIP_UP_THRESHOLD: 0.3,     // Composante verticale de l'axe haut du châssis en dessous de laquelle il est retourné
+        FLIP_DELAY: 2.5,            // Secondes retourné avant replacement
+        FALL_MARGIN: 8,             // Distance en m sous le point le plus bas de la trajectoire
+        MAX_TRACK_DISTANCE: 30,     // Distance horizontale en m à la trajectoire au-delà de laquelle la voiture est hors piste
+        OFF_TRACK_DELAY: 3,
+        STUCK_SPEED: 1,             // Vitesse en m/s en dessous de laquelle la voiture n'avance pas malgré les commandes
+        STUCK_DELAY: 5,
+        SAFE_INTERVAL: 0.5,         // Intervalle de mémorisation de la position saine
+        MIN_WHEELS_IN_CONTACT: 3,
+        SPAWN_HEIGHT: 1,            // Hauteur de lâcher au-dessus du point de replacement
+        COOLDOWN: 1.5               // Délai minimum entre deux replacements
+    };
+
+    private static createInitialState(): RespawnSnapshot {
+        return {
+            safePosition: null,
+            safeYaw: 0,
+            trackSample: -1,
+            safeTimer: 0,
+            flippedTime: 0,
+            offTrackTime: 0,
+            stuckTime: 0,
+            cooldown: 0,
+            wasResetPressed: false
+        };
+    }
+
+    /**
+     * @param racingLine Trajectoire du circuit, sans elle la voiture est replacée à sa dernière position saine
+     */
+    constructor(racingLine: RacingLine | null) {
+        this.racingLine = racingLine;
+        this.fallHeight = racingLine
+            ? racingLine.getMinHeight() - RespawnManager.RESPAWN_CONFIG.FALL_MARGIN
+            : -Infinity;
+    }
+
+    /**
+     * Surveille la voiture (appelé à chaque pas fixe, avant l'application des commandes)
+     * @param wheelsInContact Nombre de roues touchant le sol
+     * @returns La raison du replacement si la voiture doit être replacée à ce pas
+     */
+    public update(deltaTime: number, body: CANNON.Body, controls: CarInputSource, wheelsInContact: number): RespawnReason | null {
+        const config = RespawnManager.RESPAWN_CONFIG;
+        const state = this.state;
+        state.cooldown = Math.max(0, state.cooldown - deltaTime);
+
+        // Front montant de la touche : la maintenir enfoncée ne replace qu'une fois
+        const isResetPressed = controls.isResetPressed();
+        const isManualReset = isResetPressed && !state.wasResetPressed;
+        state.wasResetPressed = isResetPressed;
+
+        const position = new THREE.Vector3(body.position.x, body.position.y, body.position.z);
+        const up = body.quaternion.vmult(new CANNON.Vec3(0, 1, 0));
+        const isFlipped = up.y < config.FLIP_UP_THRESHOLD;
+        const trackDistance = this.getTrackDistance(position);
+        const isOffTrack = trackDistance > config.MAX_TRACK_DISTANCE;
+        const isTrying = controls.getThrottle() > 0 || controls.getBrake() > 0;
+
+        state.flippedTime = isFlipped ? state.flippedTime + deltaTime : 0;
+        state.offTrackTime = isOffTrack ? state.offTrackTime + deltaTime : 0;
+        state.stuckTime = isTrying && body.velocity.length() < config.STUCK_SPEED ? state.stuckTime + deltaTime : 0;
+
+        // Mémoriser régulièrement la dernière position où la voiture roulait normalement
+        state.safeTimer += deltaTime;
+        const isSafe = !isFlipped && !isOffTrack
+            && wheelsInContact >= config.MIN_WHEELS_IN_CONTACT
+            && position.y > this.fallHeight;
+        if (isSafe && state.safeTimer >= config.SAFE_INTERVAL) {
+            state.safeTimer = 0;
+            state.safePosition = [position.x, position.y, position.z];
+            state.safeYaw = Car.getYawFromForward(body.quaternion.vmult(Car.FORWARD_AXIS));
+        }
+
+        if (state.cooldown > 0) return null;
+
+        let reason: RespawnReason | null = null;
+        if (isManualReset) {
+            reason = 'manual';
+        } else if (position.y < this.fallHeight) {
+            reason = 'fallen';
+        } else if (state.flippedTime >= config.FLIP_DELAY) {
+            reason = 'flipped';
+        } else if (state.offTrackTime >= config.OFF_TRACK_DELAY) {
+            reason = 'offTrack';
+        } else if (state.stuckTime >= config.STUCK_DELAY) {
+            reason = 'stuck';
+        }
+
+        if (reason) {
+            this.clearTimers();
+            state.cooldown = config.COOLDOWN;
+        }
+        return reason;
+    }
+
+    /**
+     * Point de replacement : le point de la trajectoire le plus proche de la dernière position saine
+     * orienté vers la suite de la trajectoire, sinon la dernière position saine elle-même
+     * @param fallback Position actuelle, utilisée si aucune position saine n'a encore été mémorisée
+     */
+    public getRespawnPoint(fallback: THREE.Vector3): RespawnPoint {
+        const config = RespawnManager.RESPAWN_CONFIG;
+        const reference = this.state.safePosition ? new THREE.Vector3(...this.state.safePosition) : fallback;
+
+        if (this.racingLine) {
+            const sample = this.racingLine.findClosestSample(reference);
+            const point = this.racingLine.getPointAhead(sample, 0);
+            const ahead = this.racingLine.getPointAhead(sample, 5);
+            const yaw = Car.getYawFromForward(ahead.clone().sub(point));
+            return { position: point.add(new THREE.Vector3(0, config.SPAWN_HEIGHT, 0)), yaw };
+        }
+
+        return {
+            position: reference.clone().add(new THREE.Vector3(0, config.SPAWN_HEIGHT, 0)),
+            yaw: this.state.safeYaw
+        };
+    }
+
+    /**
+     * Oublie les durées en cours et le repère sur la trajectoire (voiture replacée ou remise sur la grille)
+     */
+    public clearTimers(): void {
+        this.state.trackSample = -1;
+        this.state.flippedTime = 0;
+        this.state.offTrackTime = 0;
+        this.state.stuckTime = 0;
+    }
+
+    private getTrackDistance(position: THREE.Vector3): number {
+        if (!this.racingLine) return 0;
+
+        this.state.trackSample = this.racingLine.findClosestSample(position, this.state.trackSample);
+        const point = this.racingLine.getPointAhead(this.state.trackSample, 0);
+        return Math.hypot(point.x - position.x, point.z - position.z);
+    }
+
+    public getState(): RespawnSnapshot {
+        return { ...this.state };
+    }
+
+    public setState(state: RespawnSnapshot): void {
+        this.state = { ...state };
+    }
+}
@@ -0,0 +1,66 @@
+import { CarInputSource, InputScript } from '../interfaces/CarInput';
+import { ReplayInputFrame } from '../interfaces/Replay';
+
+/**
+ * Source de commandes sans clavier ni DOM : les commandes sont données par un script évalué
+ * avant chaque pas de simulation (tests de comportement, simulation sans affichage)
+ */
+export class ScriptedInputSource implements CarInputSource {
+    private static readonly NEUTRAL_FRAME: ReplayInputFrame = {
+        throttle: 0,
+        brake: 0,
+        steering: 0,
+        handbrake: false,
+        reset: false,
+        nitro: false
+    };
+
+    private script: InputScript;
+    private frame: ReplayInputFrame = { ...ScriptedInputSource.NEUTRAL_FRAME };
+    private isEnabled: boolean = true;
+
+    constructor(script: InputScript) {
+        this.script = script;
+    }
+
+    /**
+     * Script par étapes : chaque commande est tenue jusqu'à l'étape suivante
+     * @param keyframes Étapes triées par temps de début en s
+     */
+    public static fromKeyframes(keyframes: { time: number, input: Partial<ReplayInputFrame> }[]): ScriptedInputSource {
+        return new ScriptedInputSource((time) => {
+            let current: Partial<ReplayInputFrame> = {};
+            for (const keyframe of keyframes) {
+                if (keyframe.time > time) break;
+                current = keyframe.input;
+            }
+            return current;
+        });
+    }
+
+    /**
+     * Évalue le script au temps de simulation donné (appelé avant chaque pas fixe)
+     */
+    public update(time: number): void {
+        this.frame = { ...ScriptedInputSource.NEUTRAL_FRAME, ...this.script(time) };
+    }
+
+    public getFrame(): ReplayInputFrame {
+        return this.frame;
+    }
+
+    public getThrottle(): number { return this.isEnabled ? this.frame.throttle : 0; }
+    public getBrake(): number { return this.isEnabled ? this.frame.brake : 0; }
+    public getSteering(): number { return this.isEnabled ? this.frame.steering : 0; }
+    public isHandbrakePressed(): boolean { return this.isEnabled && this.frame.handbrake; }
+    public isResetPressed(): boolean { return this.isEnabled && this.frame.reset; }
+    public isNitroPressed(): boolean { return this.isEnabled && this.frame.nitro; }
+
+    public enable(): void {
+        this.isEnabled = true;
+    }
+
+    public disable(): void {
+        this.isEnabled = false;
+    }
+}
@@ -0,0 +1,44 @@
+/**
+ * Générateur pseudo-aléatoire déterministe (mulberry32).
+ * Remplace Math.random() dans la simulation pour que les replays soient reproductibles.
+ */
+export class SeededRandom {
+    private state: number;
+
+    constructor(seed: number = 1) {
+        this.state = seed >>> 0;
+    }
+
+    /**
+     * Nombre pseudo-aléatoire dans [0, 1)
+     */
+    public next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Nombre pseudo-aléatoire dans [min, max)
+     */
+    public range(min: number, max: number): number {
+        return min + (max - min) * this.next();
+    }
+
+    /**
+     * Entier pseudo-aléatoire dans [min, max]
+     */
+    public int(min: number, max: number): number {
+        return Math.floor(this.range(min, max + 1));
+    }
+
+    public getState(): number {
+        return this.state;
+    }
+
+    public setState(state: number): void {
+        this.state = state >>> 0;
+    }
+}
@@ -0,0 +1,114 @@
+import * as THREE from 'three';
+
+/**
+ * Dôme de ciel centré sur la caméra : dégradé de l'horizon au zénith, disque du soleil et étoiles la nuit.
+ * Le dôme reçoit le brouillard pour se fondre dans la météo.
+ */
+export class SkyDome {
+    private group: THREE.Group;
+    private dome: THREE.Mesh<THREE.SphereGeometry, THREE.MeshBasicMaterial>;
+    private sun: THREE.Mesh<THREE.CircleGeometry, THREE.MeshBasicMaterial>;
+    private stars: THREE.Points<THREE.BufferGeometry, THREE.PointsMaterial>;
+    private zenith: THREE.Color = new THREE.Color();
+    private horizon: THREE.Color = new THREE.Color();
+
+    private static readonly SKY_CONFIG = {
+        RADIUS: 800,                // Sous la distance de rendu de la caméra (1000 m)
+        SUN_SIZE: 30,
+        STAR_COUNT: 1500,
+        STAR_SIZE: 2,
+        GRADIENT_POWER: 0.6         // Plus faible = zénith plus présent
+    };
+
+    constructor(scene: THREE.Scene) {
+        const config = SkyDome.SKY_CONFIG;
+        this.group = new THREE.Group();
+        this.group.name = 'skyDome';
+
+        const geometry = new THREE.SphereGeometry(config.RADIUS, 32, 16);
+        geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(geometry.attributes.position.count * 3), 3));
+        this.dome = new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({
+            vertexColors: true,
+            side: THREE.BackSide,
+            depthWrite: false
+        }));
+
+        this.sun = new THREE.Mesh(
+            new THREE.CircleGeometry(config.SUN_SIZE, 24),
+            new THREE.MeshBasicMaterial({ color: 0xffffff, fog: false, depthWrite: false, transparent: true })
+        );
+
+        // Étoiles réparties sur la moitié haute du dôme
+        const starPositions = new Float32Array(config.STAR_COUNT * 3);
+        const direction = new THREE.Vector3();
+        for (let i = 0; i < config.STAR_COUNT; i++) {
+            direction.randomDirection();
+            direction.y = Math.abs(direction.y);
+            direction.multiplyScalar(config.RADIUS * 0.95).toArray(starPositions, i * 3);
+        }
+        const starGeometry = new THREE.BufferGeometry();
+        starGeometry.setAttribute('position', new THREE.BufferAttribute(starPositions, 3));
+        this.stars = new THREE.Points(starGeometry, new THREE.PointsMaterial({
+            color: 0xffffff,
+            size: config.STAR_SIZE,
+            sizeAttenuation: false,
+            transparent: true,
+            fog: false,
+            depthWrite: false
+        }));
+
+        // Dessiné avant le reste de la scène
+        [this.dome, this.sun, this.stars].forEach((object) => {
+            object.renderOrder = -1;
+            object.frustumCulled = false;
+            this.group.add(object);
+        });
+        scene.add(this.group);
+    }
+
+    /**
+     * @param sunDirection Direction normalisée vers le soleil (ou la lune)
+     * @param night Part de la nuit de 0 à 1 (visibilité des étoiles)
+     */
+    public update(center: THREE.Vector3, zenith: THREE.Color, horizon: THREE.Color, sunDirection: THREE.Vector3, sunColor: THREE.Color, night: number): void {
+        this.group.position.copy(center);
+
+        if (!zenith.equals(this.zenith) || !horizon.equals(this.horizon)) {
+            this.zenith.copy(zenith);
+            this.horizon.copy(horizon);
+            this.updateGradient();
+        }
+
+        // Le disque fait face à la caméra, sous l'horizon il disparaît
+        this.sun.position.copy(sunDirection).multiplyScalar(SkyDome.SKY_CONFIG.RADIUS * 0.9);
+        this.sun.lookAt(center);
+        this.sun.material.color.copy(sunColor);
+        this.sun.visible = sunDirection.y > -0.05;
+
+        this.stars.material.opacity = night;
+        this.stars.visible = night > 0;
+    }
+
+    private updateGradient(): void {
+        const geometry = this.dome.geometry;
+        const positions = geometry.attributes.position;
+        const colors = geometry.attributes.color as THREE.BufferAttribute;
+        const color = new THREE.Color();
+
+        for (let i = 0; i < positions.count; i++) {
+            // Hauteur normalisée du sommet : 0 à l'horizon et en dessous, 1 au zénith
+            const height = Math.max(0, positions.getY(i) / SkyDome.SKY_CONFIG.RADIUS);
+            color.copy(this.horizon).lerp(this.zenith, Math.pow(height, SkyDome.SKY_CONFIG.GRADIENT_POWER));
+            colors.setXYZ(i, color.r, color.g, color.b);
+        }
+        colors.needsUpdate = true;
+    }
+
+    public dispose(): void {
+        this.group.removeFromParent();
+        [this.dome, this.sun, this.stars].forEach((object) => {
+            object.geometry.dispose();
+            object.material.dispose();
+        });
+    }
+}
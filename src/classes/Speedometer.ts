@@ -6,7 +6,7 @@ export class Speedometer {
     private speedText: HTMLDivElement;
     private speedValue: number = 0;
 
-    constructor(car: Car) {
+    constructor(car: Car, parent: HTMLElement = document.body) {
         this.car = car;
         
         // Créer l'élément HTML pour afficher la vitesse
@@ -25,7 +25,7 @@ export class Speedometer {
         this.speedText.style.zIndex = '1000';
         this.speedText.style.border = '2px solid rgba(255, 255, 255, 0.3)';
         
-        document.body.appendChild(this.speedText);
+        parent.appendChild(this.speedText);
     }
 
     public update(): void {
@@ -0,0 +1,85 @@
+import { RaceStateMachine } from './RaceStateMachine';
+
+export class StartLights {
+    private stateMachine: RaceStateMachine;
+    private container: HTMLDivElement;
+    private lights: HTMLDivElement[] = [];
+    private label: HTMLDivElement;
+
+    private static readonly LIGHT_COUNT = 3;
+    private static readonly GREEN_DISPLAY_TIME = 1.5; // Durée d'affichage du feu vert en secondes
+
+    constructor(stateMachine: RaceStateMachine) {
+        this.stateMachine = stateMachine;
+
+        this.container = document.createElement('div');
+        this.container.className = 'start-lights hidden';
+
+        const lightsRow = document.createElement('div');
+        lightsRow.className = 'start-lights-row';
+        for (let i = 0; i < StartLights.LIGHT_COUNT; i++) {
+            const light = document.createElement('div');
+            light.className = 'start-light';
+            lightsRow.appendChild(light);
+            this.lights.push(light);
+        }
+
+        this.label = document.createElement('div');
+        this.label.className = 'start-lights-label';
+
+        this.container.appendChild(lightsRow);
+        this.container.appendChild(this.label);
+        document.body.appendChild(this.container);
+    }
+
+    public update(): void {
+        const state = this.stateMachine.getState();
+
+        switch (state) {
+            case 'grid':
+                this.show();
+                this.setLights(0, false);
+                this.label.textContent = 'Prêt ?';
+                break;
+            case 'countdown': {
+                this.show();
+                const value = this.stateMachine.getCountdownValue();
+                // Les feux rouges s'allument un par un : 3 -> 1 feu, 1 -> 3 feux
+                this.setLights(StartLights.LIGHT_COUNT + 1 - value, false);
+                this.label.textContent = `${value}`;
+                break;
+            }
+            case 'racing':
+                if (this.stateMachine.getStateTime() < StartLights.GREEN_DISPLAY_TIME) {
+                    this.show();
+                    this.setLights(StartLights.LIGHT_COUNT, true);
+                    this.label.textContent = 'GO !';
+                } else {
+                    this.hide();
+                }
+                break;
+            default:
+                this.hide();
+                break;
+        }
+    }
+
+    private setLights(count: number, isGreen: boolean): void {
+        this.lights.forEach((light, index) => {
+            light.classList.toggle('red', !isGreen && index < count);
+            light.classList.toggle('green', isGreen);
+        });
+    }
+
+    private show(): void {
+        this.container.classList.remove('hidden');
+    }
+
+    private hide(): void {
+        this.container.classList.add('hidden');
+    }
+
+    public dispose(): void {
+        this.container.remove();
+    }
+}
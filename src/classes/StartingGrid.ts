@@ -0,0 +1,31 @@
+import * as THREE from 'three';
+import { Car } from './Car';
+import { TrackManifest } from '../interfaces/TrackManifest';
+
+/**
+ * Grille de départ en quinconce derrière la position de départ, partagée par le jeu et le serveur
+ */
+export class StartingGrid {
+    private static readonly GRID_CONFIG = {
+        COLUMN_OFFSET: 3.5, // Décalage latéral entre les deux colonnes en m
+        SLOT_SPACING: 4     // Recul entre deux places successives en m
+    };
+
+    /**
+     * Place une voiture à l'arrêt sur une place de la grille
+     * @param grid Première place et direction du départ, lues dans le manifeste du circuit
+     * @param slot Place sur la grille (0 = première place)
+     */
+    public static placeCar(car: Car, grid: TrackManifest['grid'], slot: number): void {
+        const yaw = THREE.MathUtils.degToRad(grid.heading);
+        const forward = Car.getForwardFromYaw(yaw);
+        const left = new THREE.Vector3(forward.z, 0, -forward.x);
+
+        const position = new THREE.Vector3(grid.position.x, grid.position.y, grid.position.z)
+            .addScaledVector(left, slot % 2 === 0 ? 0 : StartingGrid.GRID_CONFIG.COLUMN_OFFSET)
+            .addScaledVector(forward, -slot * StartingGrid.GRID_CONFIG.SLOT_SPACING);
+        car.resetTo(position, yaw);
+        // Chaque course part avec une jauge de nitro vide
+        car.getNitro().reset();
+    }
+}
@@ -22,6 +22,9 @@ export class ThirdPersonCamera {
     private readonly MAX_ADDITIONAL_DISTANCE = 2.0; // Distance additionnelle maximale
     private readonly TILT_FACTOR = 0.15;       // Facteur d'inclinaison en virage
 
+    /**
+     * @param target Voiture suivie
+     */
     constructor(target: Car) {
         this.camera = new THREE.PerspectiveCamera(75, window.innerWidth / window.innerHeight, 0.1, 1000);
         this.target = target;
@@ -32,13 +35,6 @@ export class ThirdPersonCamera {
         this.desiredPosition = new THREE.Vector3();
         
         this.updateCameraPosition();
-
-        // Ajouter l'écouteur d'événements pour la touche "O"
-        window.addEventListener('keydown', (event) => {
-            if (event.key.toLowerCase() === 'o') {
-                this.toggleOrbitMode();
-            }
-        });
     }
 
     public setRenderer(renderer: THREE.WebGLRenderer): void {
@@ -51,7 +47,10 @@ export class ThirdPersonCamera {
         }
     }
 
-    private toggleOrbitMode(): void {
+    /**
+     * Bascule entre la caméra de poursuite et la caméra orbitale (action toggleCamera du joueur)
+     */
+    public toggleOrbitMode(): void {
         this.isOrbitMode = !this.isOrbitMode;
         if (this.orbitControls) {
             this.orbitControls.enabled = this.isOrbitMode;
@@ -110,6 +109,26 @@ export class ThirdPersonCamera {
         this.camera.position.lerp(this.desiredPosition, this.smoothness);
     }
 
+    public getBaseHeight(): number {
+        return this.BASE_HEIGHT;
+    }
+
+    public getBaseDistance(): number {
+        return this.BASE_DISTANCE;
+    }
+
+    public getSmoothness(): number {
+        return this.smoothness;
+    }
+
+    public getLookAtSmoothness(): number {
+        return this.lookAtSmoothness;
+    }
+
+    public setLookAtSmoothness(value: number): void {
+        this.lookAtSmoothness = Math.max(0.01, Math.min(1, value));
+    }
+
     public setBaseHeight(height: number): void {
         this.BASE_HEIGHT = Math.max(1, height);
     }
@@ -0,0 +1,389 @@
+import { CarInputSource } from '../interfaces/CarInput';
+import { ControlAction } from '../interfaces/ControlScheme';
+import {
+    DEFAULT_TOUCH_LAYOUT,
+    TOUCH_DISPLAY_MODES,
+    TOUCH_LAYOUT_STORAGE_KEY,
+    TOUCH_STEERING_MODES,
+    TouchButtonAction,
+    TouchLayout
+} from '../interfaces/TouchControls';
+
+// Demande d'autorisation des capteurs propre à Safari iOS
+type OrientationPermission = { requestPermission?: () => Promise<PermissionState> };
+
+/**
+ * Commandes tactiles affichées par-dessus la course : stick virtuel ou inclinaison de l'appareil pour
+ * la direction, pédales, frein à main, nitro, replacement et caméra. Chaque doigt est suivi par son
+ * identifiant de pointeur, on peut donc diriger, accélérer et tirer le frein à main en même temps.
+ */
+export class TouchControls implements CarInputSource {
+    private layout: TouchLayout;
+    private container: HTMLDivElement;
+    private stickZone: HTMLDivElement | null = null;
+    private stickBase: HTMLDivElement | null = null;
+    private stickKnob: HTMLDivElement | null = null;
+    private isEnabled: boolean = true;
+    private buttonPointers: Map<number, TouchButtonAction> = new Map();
+    private buttons: Map<TouchButtonAction, HTMLDivElement> = new Map();
+    private stickPointer: number | null = null;
+    private stickOrigin: { x: number, y: number } = { x: 0, y: 0 };
+    private stickSteering: number = 0;
+    private tiltSteering: number = 0;
+    private hasRequestedOrientation: boolean = false;
+    private actionListeners: ((action: ControlAction) => void)[] = [];
+
+    private static readonly TOUCH_CONFIG = {
+        BOTTOM_MARGIN: 70,          // Espace laissé sous les commandes pour le HUD en px
+        SIDE_MARGIN: 20,
+        STICK_RADIUS: 60,           // Course du stick en px
+        PEDAL_SIZE: 90,
+        BUTTON_SIZE: 64,
+        SMALL_BUTTON_SIZE: 48,
+        PRESSED_COLOR: 'rgba(255, 140, 0, 0.8)',
+        RELEASED_COLOR: 'rgba(0, 0, 0, 0.5)'
+    };
+
+    private static readonly BUTTON_LABELS: Record<TouchButtonAction, string> = {
+        accelerate: 'GAZ',
+        brake: 'FREIN',
+        handbrake: 'FREIN À MAIN',
+        nitro: 'NITRO',
+        reset: '↺',
+        toggleCamera: '🎥'
+    };
+
+    /**
+     * Disposition enregistrée, celle par défaut pour les réglages absents ou invalides
+     */
+    public static loadLayout(): TouchLayout {
+        const layout = { ...DEFAULT_TOUCH_LAYOUT };
+        try {
+            const data = localStorage.getItem(TOUCH_LAYOUT_STORAGE_KEY);
+            const stored = data ? JSON.parse(data) : null;
+            if (stored && typeof stored === 'object') {
+                if (TOUCH_DISPLAY_MODES.includes(stored.display)) layout.display = stored.display;
+                if (TOUCH_STEERING_MODES.includes(stored.steering)) layout.steering = stored.steering;
+                if (stored.steeringSide === 'left' || stored.steeringSide === 'right') layout.steeringSide = stored.steeringSide;
+                (['scale', 'opacity', 'tiltAngle', 'deadZone'] as const).forEach((key) => {
+                    if (typeof stored[key] === 'number' && stored[key] > 0) layout[key] = stored[key];
+                });
+            }
+        } catch (error) {
+            console.warn('Disposition tactile enregistrée illisible, disposition par défaut utilisée:', error);
+        }
+        return layout;
+    }
+
+    public static saveLayout(layout: TouchLayout): void {
+        try {
+            localStorage.setItem(TOUCH_LAYOUT_STORAGE_KEY, JSON.stringify(layout));
+        } catch (error) {
+            console.error("Impossible d'enregistrer la disposition tactile:", error);
+        }
+    }
+
+    public static isTouchDevice(): boolean {
+        return typeof window !== 'undefined' && ('ontouchstart' in window || navigator.maxTouchPoints > 0);
+    }
+
+    /**
+     * Indique si les commandes tactiles doivent être affichées avec cette disposition
+     */
+    public static shouldDisplay(layout: TouchLayout): boolean {
+        return layout.display === 'always' || (layout.display === 'auto' && TouchControls.isTouchDevice());
+    }
+
+    constructor(layout: TouchLayout = DEFAULT_TOUCH_LAYOUT, parent: HTMLElement = document.body) {
+        this.layout = layout;
+
+        this.container = document.createElement('div');
+        this.container.style.position = 'fixed';
+        this.container.style.inset = '0';
+        this.container.style.zIndex = '1000';
+        this.container.style.pointerEvents = 'none';
+        this.container.style.userSelect = 'none';
+        this.container.style.fontFamily = 'Arial, sans-serif';
+        this.container.style.opacity = String(layout.opacity);
+
+        this.createSteering();
+        this.createButtons();
+        parent.appendChild(this.container);
+
+        if (layout.steering === 'tilt') {
+            window.addEventListener('deviceorientation', this.onDeviceOrientation);
+        }
+    }
+
+    /**
+     * Côté de l'écran de la direction ('left' ou 'right') ou celui des pédales
+     */
+    private getSide(isSteering: boolean): 'left' | 'right' {
+        const steeringSide = this.layout.steeringSide;
+        if (isSteering) return steeringSide;
+        return steeringSide === 'left' ? 'right' : 'left';
+    }
+
+    private createSteering(): void {
+        if (this.layout.steering !== 'stick') return;
+
+        const config = TouchControls.TOUCH_CONFIG;
+        const radius = config.STICK_RADIUS * this.layout.scale;
+
+        // Zone de prise du stick : le stick apparaît sous le doigt, n'importe où dans la zone
+        this.stickZone = document.createElement('div');
+        this.stickZone.style.position = 'absolute';
+        this.stickZone.style.bottom = `${config.BOTTOM_MARGIN}px`;
+        this.stickZone.style[this.getSide(true)] = '0';
+        this.stickZone.style.width = '40%';
+        this.stickZone.style.height = '50%';
+        this.stickZone.style.pointerEvents = 'auto';
+        this.stickZone.style.touchAction = 'none';
+
+        this.stickBase = document.createElement('div');
+        this.stickBase.style.position = 'absolute';
+        this.stickBase.style.width = `${radius * 2}px`;
+        this.stickBase.style.height = `${radius * 2}px`;
+        this.stickBase.style.borderRadius = '50%';
+        this.stickBase.style.border = '3px solid rgba(255, 255, 255, 0.6)';
+        this.stickBase.style.backgroundColor = config.RELEASED_COLOR;
+        this.stickBase.style.transform = 'translate(-50%, 50%)';
+
+        this.stickKnob = document.createElement('div');
+        this.stickKnob.style.position = 'absolute';
+        this.stickKnob.style.left = '50%';
+        this.stickKnob.style.top = '50%';
+        this.stickKnob.style.width = `${radius}px`;
+        this.stickKnob.style.height = `${radius}px`;
+        this.stickKnob.style.borderRadius = '50%';
+        this.stickKnob.style.backgroundColor = 'rgba(255, 255, 255, 0.8)';
+        this.stickKnob.style.transform = 'translate(-50%, -50%)';
+
+        this.stickBase.appendChild(this.stickKnob);
+        this.stickZone.appendChild(this.stickBase);
+        this.container.appendChild(this.stickZone);
+        this.placeStickAtRest();
+
+        this.stickZone.addEventListener('pointerdown', this.onStickDown);
+        this.stickZone.addEventListener('pointermove', this.onStickMove);
+        this.stickZone.addEventListener('pointerup', this.onStickUp);
+        this.stickZone.addEventListener('pointercancel', this.onStickUp);
+    }
+
+    private createButtons(): void {
+        const config = TouchControls.TOUCH_CONFIG;
+        const scale = this.layout.scale;
+        const pedalSide = this.getSide(false);
+        const pedal = config.PEDAL_SIZE * scale;
+        const button = config.BUTTON_SIZE * scale;
+        const small = config.SMALL_BUTTON_SIZE * scale;
+        const gap = config.SIDE_MARGIN;
+
+        // Pédales côte à côte, accélérateur vers le bord ; frein à main et nitro au-dessus
+        this.createButton('accelerate', pedal, pedal * 1.4, { bottom: config.BOTTOM_MARGIN, [pedalSide]: gap });
+        this.createButton('brake', pedal, pedal * 1.4, { bottom: config.BOTTOM_MARGIN, [pedalSide]: gap * 2 + pedal });
+        this.createButton('handbrake', pedal * 2 + gap, button, { bottom: config.BOTTOM_MARGIN + pedal * 1.4 + gap, [pedalSide]: gap });
+        this.createButton('nitro', pedal * 2 + gap, button, { bottom: config.BOTTOM_MARGIN + pedal * 1.4 + button + gap * 2, [pedalSide]: gap });
+
+        // Boutons secondaires en haut, du côté de la direction pour ne pas gêner les pédales
+        const topSide = this.getSide(true);
+        this.createButton('reset', small, small, { top: 100, [topSide]: gap });
+        this.createButton('toggleCamera', small, small, { top: 100 + small + gap, [topSide]: gap });
+    }
+
+    private createButton(action: TouchButtonAction, width: number, height: number, position: Record<string, number>): void {
+        const element = document.createElement('div');
+        element.textContent = TouchControls.BUTTON_LABELS[action];
+        element.style.position = 'absolute';
+        Object.entries(position).forEach(([side, value]) => element.style.setProperty(side, `${value}px`));
+        element.style.width = `${width}px`;
+        element.style.height = `${height}px`;
+        element.style.display = 'flex';
+        element.style.alignItems = 'center';
+        element.style.justifyContent = 'center';
+        element.style.textAlign = 'center';
+        element.style.borderRadius = '12px';
+        element.style.border = '2px solid rgba(255, 255, 255, 0.6)';
+        element.style.backgroundColor = TouchControls.TOUCH_CONFIG.RELEASED_COLOR;
+        element.style.color = '#ffffff';
+        element.style.fontSize = `${Math.round(14 * this.layout.scale)}px`;
+        element.style.fontWeight = 'bold';
+        element.style.pointerEvents = 'auto';
+        element.style.touchAction = 'none';
+
+        element.addEventListener('pointerdown', (event) => {
+            event.preventDefault();
+            element.setPointerCapture(event.pointerId);
+            this.requestOrientationPermission();
+            this.buttonPointers.set(event.pointerId, action);
+            this.refreshButtons();
+            // Les actions hors pilotage (caméra) restent disponibles voiture bloquée
+            this.actionListeners.forEach(listener => listener(action));
+        });
+        const release = (event: PointerEvent) => {
+            this.buttonPointers.delete(event.pointerId);
+            this.refreshButtons();
+        };
+        element.addEventListener('pointerup', release);
+        element.addEventListener('pointercancel', release);
+
+        this.buttons.set(action, element);
+        this.container.appendChild(element);
+    }
+
+    private refreshButtons(): void {
+        const config = TouchControls.TOUCH_CONFIG;
+        this.buttons.forEach((element, action) => {
+            element.style.backgroundColor = this.isButtonPressed(action) ? config.PRESSED_COLOR : config.RELEASED_COLOR;
+        });
+    }
+
+    private onStickDown = (event: PointerEvent): void => {
+        if (this.stickPointer !== null || !this.stickZone || !this.stickBase) return;
+        event.preventDefault();
+        this.stickZone.setPointerCapture(event.pointerId);
+        this.stickPointer = event.pointerId;
+        this.stickOrigin = { x: event.clientX, y: event.clientY };
+
+        // Le stick se place sous le doigt
+        const zone = this.stickZone.getBoundingClientRect();
+        this.stickBase.style.left = `${event.clientX - zone.left}px`;
+        this.stickBase.style.bottom = `${zone.bottom - event.clientY}px`;
+        this.stickBase.style.backgroundColor = TouchControls.TOUCH_CONFIG.PRESSED_COLOR;
+    };
+
+    private onStickMove = (event: PointerEvent): void => {
+        if (event.pointerId !== this.stickPointer || !this.stickKnob) return;
+
+        const radius = TouchControls.TOUCH_CONFIG.STICK_RADIUS * this.layout.scale;
+        const offsetX = Math.max(-radius, Math.min(radius, event.clientX - this.stickOrigin.x));
+        const offsetY = Math.max(-radius, Math.min(radius, event.clientY - this.stickOrigin.y));
+        this.stickKnob.style.transform = `translate(calc(-50% + ${offsetX}px), calc(-50% + ${offsetY}px))`;
+        // Seul le déplacement horizontal dirige
+        this.stickSteering = this.applyDeadZone(offsetX / radius);
+    };
+
+    private onStickUp = (event: PointerEvent): void => {
+        if (event.pointerId !== this.stickPointer) return;
+        this.releaseStick();
+    };
+
+    private releaseStick(): void {
+        this.stickPointer = null;
+        this.stickSteering = 0;
+        this.placeStickAtRest();
+    }
+
+    /**
+     * Stick au repos dans le coin de la zone, près du bord de l'écran (position donnée par son centre)
+     */
+    private placeStickAtRest(): void {
+        if (!this.stickBase || !this.stickKnob) return;
+
+        const config = TouchControls.TOUCH_CONFIG;
+        const offset = config.STICK_RADIUS * this.layout.scale + config.SIDE_MARGIN;
+        this.stickBase.style.left = this.getSide(true) === 'left' ? `${offset}px` : `calc(100% - ${offset}px)`;
+        this.stickBase.style.bottom = `${offset}px`;
+        this.stickBase.style.backgroundColor = config.RELEASED_COLOR;
+        this.stickKnob.style.transform = 'translate(-50%, -50%)';
+    }
+
+    /**
+     * Direction par inclinaison : l'axe utilisé dépend de l'orientation de l'écran
+     */
+    private onDeviceOrientation = (event: DeviceOrientationEvent): void => {
+        const beta = event.beta ?? 0;
+        const gamma = event.gamma ?? 0;
+        const angle = screen.orientation?.angle ?? 0;
+
+        let tilt: number;
+        if (angle === 90) tilt = beta;
+        else if (angle === 270 || angle === -90) tilt = -beta;
+        else if (angle === 180) tilt = -gamma;
+        else tilt = gamma;
+
+        this.tiltSteering = this.applyDeadZone(Math.max(-1, Math.min(1, tilt / this.layout.tiltAngle)));
+    };
+
+    /**
+     * Safari iOS n'envoie l'orientation qu'après autorisation, demandée au premier appui
+     */
+    private requestOrientationPermission(): void {
+        if (this.layout.steering !== 'tilt' || this.hasRequestedOrientation) return;
+        this.hasRequestedOrientation = true;
+
+        const permission = (typeof DeviceOrientationEvent !== 'undefined' ? DeviceOrientationEvent : null) as OrientationPermission | null;
+        permission?.requestPermission?.()
+            .then((state) => {
+                if (state !== 'granted') console.warn("Inclinaison refusée : la direction tactile est indisponible");
+            })
+            .catch((error) => console.warn("Impossible d'accéder à l'inclinaison de l'appareil:", error));
+    }
+
+    private applyDeadZone(value: number): number {
+        const deadZone = this.layout.deadZone;
+        const magnitude = Math.max(0, (Math.abs(value) - deadZone) / (1 - deadZone));
+        return Math.sign(value) * Math.min(magnitude, 1);
+    }
+
+    private isButtonPressed(action: TouchButtonAction): boolean {
+        for (const pressed of this.buttonPointers.values()) {
+            if (pressed === action) return true;
+        }
+        return false;
+    }
+
+    public getThrottle(): number {
+        return this.isEnabled && this.isButtonPressed('accelerate') ? 1 : 0;
+    }
+
+    public getBrake(): number {
+        return this.isEnabled && this.isButtonPressed('brake') ? 1 : 0;
+    }
+
+    public getSteering(): number {
+        if (!this.isEnabled) return 0;
+        return this.layout.steering === 'tilt' ? this.tiltSteering : this.stickSteering;
+    }
+
+    public isHandbrakePressed(): boolean {
+        return this.isEnabled && this.isButtonPressed('handbrake');
+    }
+
+    public isResetPressed(): boolean {
+        return this.isEnabled && this.isButtonPressed('reset');
+    }
+
+    public isNitroPressed(): boolean {
+        return this.isEnabled && this.isButtonPressed('nitro');
+    }
+
+    /**
+     * Appelé à chaque appui sur un bouton, même commandes désactivées
+     */
+    public onActionPressed(listener: (action: ControlAction) => void): void {
+        this.actionListeners.push(listener);
+    }
+
+    public setVisible(visible: boolean): void {
+        this.container.style.display = visible ? 'block' : 'none';
+        if (!visible) {
+            this.buttonPointers.clear();
+            this.refreshButtons();
+            this.releaseStick();
+        }
+    }
+
+    public enable(): void {
+        this.isEnabled = true;
+    }
+
+    public disable(): void {
+        this.isEnabled = false;
+    }
+
+    public dispose(): void {
+        window.removeEventListener('deviceorientation', this.onDeviceOrientation);
+        this.container.remove();
+    }
+}
@@ -0,0 +1,426 @@
+import * as THREE from 'three';
+import { Car } from './Car';
+import { SplineControlPoint, TrackDesign } from '../interfaces/TrackDesign';
+import { TrackManifest } from '../interfaces/TrackManifest';
+
+/**
+ * Point de passage de la spline : un par point de contrôle, plusieurs pour un looping
+ */
+interface SplineKnot {
+    position: THREE.Vector3;
+    width: number;
+    banking: number;
+    loop: number;                   // Numéro du looping (-1 hors looping)
+}
+
+/**
+ * Échantillon de la piste avec son repère : tangente, normale à la chaussée et côté gauche
+ */
+interface TrackSample {
+    position: THREE.Vector3;
+    tangent: THREE.Vector3;
+    up: THREE.Vector3;
+    left: THREE.Vector3;
+    width: number;
+    loop: number;
+}
+
+/**
+ * Construit le modèle d'un circuit dessiné dans l'éditeur : chaussée orange et rails,
+ * avec les mêmes nœuds qu'un modèle glTF (checkpoints, arrivée, trajectoire, loopings, boosters)
+ * pour que la course, la physique et les éléments de piste le lisent sans distinction.
+ */
+export class TrackBuilder {
+    private static readonly BUILD_CONFIG = {
+        SAMPLE_SPACING: 1.5,        // Distance entre deux échantillons de la chaussée en m
+        LOOP_RADIUS: 9,             // Rayon des loopings en m
+        LOOP_KNOTS: 12,             // Points de passage sur le cercle d'un looping
+        LOOP_LEAD: 8,               // Ligne droite avant et après un looping en m
+        LOOP_GAP: 1,                // Écart entre l'entrée et la sortie d'un looping en plus de la largeur
+        RAIL_HEIGHT: 0.6,
+        CHECKPOINT_HEIGHT: 6,
+        CHECKPOINT_DEPTH: 2,
+        BOOSTER_LENGTH: 6,
+        BOOSTER_WIDTH_RATIO: 0.6,   // Part de la largeur de la piste couverte par un booster
+        RAMP_LENGTH: 8,
+        RAMP_HEIGHT: 1.5,
+        LANDING_DISTANCE: 30,       // Distance entre le bord du tremplin et le centre de la zone de réception en m
+        LANDING_LENGTH: 24,
+        LANDING_HEIGHT: 10,
+        RACING_LINE_STEP: 4,        // Un échantillon sur n forme la trajectoire de l'IA
+        GRID_OFFSET: 6,             // Recul de la première place derrière la ligne d'arrivée en m
+        GRID_HEIGHT: 1,             // Hauteur de dépose des voitures au-dessus de la piste
+        ROAD_COLOR: 0xff6a00,
+        RAIL_COLOR: 0xe85d00,
+        BOOSTER_COLOR: 0xffd200
+    };
+
+    /**
+     * Modèle complet du circuit
+     */
+    public static build(design: TrackDesign): THREE.Group {
+        const config = TrackBuilder.BUILD_CONFIG;
+        const { samples, controlSamples } = TrackBuilder.sampleTrack(design);
+        const group = new THREE.Group();
+        group.name = design.name;
+
+        // Les noms des matériaux donnent le revêtement plastique à la physique
+        const roadMaterial = new THREE.MeshStandardMaterial({ name: 'hotwheels_orange', color: config.ROAD_COLOR, side: THREE.DoubleSide });
+        const railMaterial = new THREE.MeshStandardMaterial({ name: 'hotwheels_rail', color: config.RAIL_COLOR, side: THREE.DoubleSide });
+
+        TrackBuilder.splitRuns(samples).forEach((run, index) => {
+            const road = new THREE.Mesh(TrackBuilder.createRoadGeometry(run), roadMaterial);
+            const rails = new THREE.Mesh(TrackBuilder.createRailGeometry(run), railMaterial);
+            const loop = run[0].loop;
+            if (loop >= 0) {
+                // Un nœud loop_N par looping, lu par le registre des éléments de piste
+                const loopGroup = new THREE.Group();
+                loopGroup.name = `loop_${loop}`;
+                road.name = `loop_${loop}_road`;
+                rails.name = `loop_${loop}_rails`;
+                loopGroup.add(road, rails);
+                group.add(loopGroup);
+            } else {
+                road.name = `road_${index}`;
+                rails.name = `rails_${index}`;
+                group.add(road, rails);
+            }
+        });
+
+        group.add(TrackBuilder.createRacingLine(samples));
+        TrackBuilder.addRaceVolumes(group, design, controlSamples.map(index => samples[index]));
+        TrackBuilder.addBoosters(group, design, controlSamples.map(index => samples[index]));
+        TrackBuilder.addJumps(group, design, samples, controlSamples);
+        return group;
+    }
+
+    /**
+     * Place de départ : derrière la ligne d'arrivée, sur la moitié droite de la piste
+     */
+    public static computeGrid(design: TrackDesign): TrackManifest['grid'] {
+        const config = TrackBuilder.BUILD_CONFIG;
+        const start = TrackBuilder.sampleTrack(design).samples[0];
+        const forward = new THREE.Vector3(start.tangent.x, 0, start.tangent.z).normalize();
+        const left = new THREE.Vector3(forward.z, 0, -forward.x);
+
+        const position = start.position.clone()
+            .addScaledVector(forward, -config.GRID_OFFSET)
+            .addScaledVector(left, -start.width / 4);
+        return {
+            position: { x: position.x, y: position.y + config.GRID_HEIGHT, z: position.z },
+            heading: THREE.MathUtils.radToDeg(Car.getYawFromForward(forward))
+        };
+    }
+
+    /**
+     * Points de passage de la spline : un looping devient un cercle vertical décalé
+     * sur le côté pour que sa sortie longe son entrée
+     */
+    private static createKnots(design: TrackDesign): { knots: SplineKnot[], controlKnots: number[] } {
+        const config = TrackBuilder.BUILD_CONFIG;
+        const knots: SplineKnot[] = [];
+        const controlKnots: number[] = [];
+        const worldUp = new THREE.Vector3(0, 1, 0);
+        let loopCount = 0;
+
+        design.points.forEach((point, i) => {
+            const position = TrackBuilder.toVector(point);
+            if (point.piece !== 'loop') {
+                controlKnots.push(knots.length);
+                knots.push({ position, width: point.width, banking: point.banking, loop: -1 });
+                return;
+            }
+
+            // Le looping est aligné sur la direction horizontale entre les points voisins
+            const previous = TrackBuilder.toVector(design.points[(i + design.points.length - 1) % design.points.length]);
+            const next = TrackBuilder.toVector(design.points[(i + 1) % design.points.length]);
+            const forward = next.sub(previous).setY(0);
+            if (forward.lengthSq() < 1e-6) forward.set(0, 0, 1);
+            forward.normalize();
+            const left = new THREE.Vector3().crossVectors(worldUp, forward);
+            const shift = point.width + config.LOOP_GAP;
+            const loop = loopCount++;
+
+            knots.push({
+                position: position.clone().addScaledVector(forward, -config.LOOP_LEAD).addScaledVector(left, -shift / 2),
+                width: point.width,
+                banking: 0,
+                loop: -1
+            });
+            controlKnots.push(knots.length);
+            for (let k = 0; k <= config.LOOP_KNOTS; k++) {
+                const progress = k / config.LOOP_KNOTS;
+                const angle = progress * Math.PI * 2;
+                knots.push({
+                    position: position.clone()
+                        .addScaledVector(forward, config.LOOP_RADIUS * Math.sin(angle))
+                        .addScaledVector(worldUp, config.LOOP_RADIUS * (1 - Math.cos(angle)))
+                        .addScaledVector(left, shift * (progress - 0.5)),
+                    width: point.width,
+                    banking: 0,
+                    loop
+                });
+            }
+            knots.push({
+                position: position.clone().addScaledVector(forward, config.LOOP_LEAD).addScaledVector(left, shift / 2),
+                width: point.width,
+                banking: 0,
+                loop: -1
+            });
+        });
+
+        return { knots, controlKnots };
+    }
+
+    /**
+     * Échantillonne la spline fermée. Le repère suit la verticale du monde, sauf dans les loopings
+     * où il est transporté le long de la courbe pour faire le tour complet.
+     * @returns Les échantillons et, pour chaque point de contrôle, l'indice de son échantillon
+     */
+    private static sampleTrack(design: TrackDesign): { samples: TrackSample[], controlSamples: number[] } {
+        const config = TrackBuilder.BUILD_CONFIG;
+        const { knots, controlKnots } = TrackBuilder.createKnots(design);
+        const curve = new THREE.CatmullRomCurve3(knots.map(knot => knot.position), true, 'centripetal');
+        const worldUp = new THREE.Vector3(0, 1, 0);
+        const samples: TrackSample[] = [];
+        const knotSamples: number[] = [];
+        let previousUp = worldUp.clone();
+
+        knots.forEach((knot, k) => {
+            const nextKnot = knots[(k + 1) % knots.length];
+            const loop = knot.loop >= 0 && knot.loop === nextKnot.loop ? knot.loop : -1;
+            const steps = Math.max(1, Math.ceil(knot.position.distanceTo(nextKnot.position) / config.SAMPLE_SPACING));
+            knotSamples.push(samples.length);
+
+            for (let s = 0; s < steps; s++) {
+                // Le paramètre de la courbe passe exactement par les points de passage
+                const t = (k + s / steps) / knots.length;
+                const blend = s / steps;
+                const tangent = curve.getTangent(t);
+
+                const reference = loop >= 0 ? previousUp : worldUp;
+                const up = reference.clone().addScaledVector(tangent, -reference.dot(tangent));
+                if (up.lengthSq() < 1e-6) up.copy(previousUp);
+                up.normalize();
+                previousUp = up;
+
+                const banking = THREE.MathUtils.lerp(knot.banking, nextKnot.banking, blend);
+                const bankedUp = up.clone().applyAxisAngle(tangent, THREE.MathUtils.degToRad(banking));
+                samples.push({
+                    position: curve.getPoint(t),
+                    tangent,
+                    up: bankedUp,
+                    left: new THREE.Vector3().crossVectors(bankedUp, tangent).normalize(),
+                    width: THREE.MathUtils.lerp(knot.width, nextKnot.width, blend),
+                    loop
+                });
+            }
+        });
+
+        return { samples, controlSamples: controlKnots.map(knot => knotSamples[knot]) };
+    }
+
+    /**
+     * Découpe la piste en tronçons continus (route ou looping), chacun repris jusqu'au premier
+     * échantillon du suivant pour que la chaussée reste continue
+     */
+    private static splitRuns(samples: TrackSample[]): TrackSample[][] {
+        const start = samples.findIndex((sample, i) => i > 0 && sample.loop !== samples[i - 1].loop);
+        const ordered = start > 0 ? [...samples.slice(start), ...samples.slice(0, start)] : samples;
+
+        const runs: TrackSample[][] = [];
+        ordered.forEach((sample, i) => {
+            if (i === 0 || sample.loop !== ordered[i - 1].loop) {
+                runs[runs.length - 1]?.push(sample);
+                runs.push([]);
+            }
+            runs[runs.length - 1].push(sample);
+        });
+        // Le dernier tronçon rejoint le premier
+        runs[runs.length - 1].push(ordered[0]);
+        return runs;
+    }
+
+    private static createRoadGeometry(run: TrackSample[]): THREE.BufferGeometry {
+        const positions: number[] = [];
+        run.forEach((sample) => {
+            const half = sample.width / 2;
+            positions.push(...sample.position.clone().addScaledVector(sample.left, half).toArray());
+            positions.push(...sample.position.clone().addScaledVector(sample.left, -half).toArray());
+        });
+        return TrackBuilder.createStripGeometry(positions, run.length);
+    }
+
+    /**
+     * Rails des deux bords, tournés vers l'intérieur de la piste
+     */
+    private static createRailGeometry(run: TrackSample[]): THREE.BufferGeometry {
+        const height = TrackBuilder.BUILD_CONFIG.RAIL_HEIGHT;
+        const geometries = [1, -1].map((side) => {
+            const positions: number[] = [];
+            run.forEach((sample) => {
+                const edge = sample.position.clone().addScaledVector(sample.left, side * sample.width / 2);
+                positions.push(...edge.toArray());
+                positions.push(...edge.addScaledVector(sample.up, height).toArray());
+            });
+            return positions;
+        });
+        return TrackBuilder.createStripGeometry([...geometries[0], ...geometries[1]], run.length, 2);
+    }
+
+    /**
+     * Bandes de triangles reliant des paires de sommets successives
+     * @param positions Paires de sommets (gauche puis droite) de chaque échantillon, bande après bande
+     */
+    private static createStripGeometry(positions: number[], length: number, strips: number = 1): THREE.BufferGeometry {
+        const indices: number[] = [];
+        for (let strip = 0; strip < strips; strip++) {
+            const offset = strip * length * 2;
+            for (let i = 0; i < length - 1; i++) {
+                const a = offset + i * 2;
+                // Normale vers le haut de la piste : (gauche, droite, gauche suivant), (droite, droite suivant, gauche suivant)
+                indices.push(a, a + 1, a + 2, a + 1, a + 3, a + 2);
+            }
+        }
+
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+        geometry.setIndex(indices);
+        geometry.computeVertexNormals();
+        return geometry;
+    }
+
+    /**
+     * Trajectoire de l'IA et des réapparitions : le milieu de la piste
+     */
+    private static createRacingLine(samples: TrackSample[]): THREE.Line {
+        const points = samples
+            .filter((_, i) => i % TrackBuilder.BUILD_CONFIG.RACING_LINE_STEP === 0)
+            .map(sample => sample.position);
+        const line = new THREE.Line(new THREE.BufferGeometry().setFromPoints(points), new THREE.LineBasicMaterial());
+        line.name = 'racing_line';
+        return line;
+    }
+
+    /**
+     * Ligne d'arrivée sur le premier point, un checkpoint sur chacun des autres (sauf les loopings)
+     */
+    private static addRaceVolumes(group: THREE.Group, design: TrackDesign, controlSamples: TrackSample[]): void {
+        const config = TrackBuilder.BUILD_CONFIG;
+        const material = new THREE.MeshBasicMaterial({ wireframe: true });
+        let checkpoint = 1;
+
+        design.points.forEach((point, i) => {
+            if (i > 0 && point.piece === 'loop') return;
+
+            const sample = controlSamples[i];
+            const volume = new THREE.Mesh(
+                new THREE.BoxGeometry(sample.width + 2, config.CHECKPOINT_HEIGHT, config.CHECKPOINT_DEPTH),
+                material
+            );
+            volume.name = i === 0 ? 'finish' : `checkpoint_${String(checkpoint++).padStart(2, '0')}`;
+            TrackBuilder.alignToSample(volume, sample, config.CHECKPOINT_HEIGHT / 2);
+            group.add(volume);
+        });
+    }
+
+    /**
+     * Un booster_N par point de type booster, orienté dans le sens de la piste
+     */
+    private static addBoosters(group: THREE.Group, design: TrackDesign, controlSamples: TrackSample[]): void {
+        const config = TrackBuilder.BUILD_CONFIG;
+        const material = new THREE.MeshStandardMaterial({
+            name: 'booster_pad',
+            color: config.BOOSTER_COLOR,
+            emissive: config.BOOSTER_COLOR,
+            emissiveIntensity: 0.6
+        });
+        let booster = 0;
+
+        design.points.forEach((point, i) => {
+            if (point.piece !== 'booster') return;
+
+            const sample = controlSamples[i];
+            const pad = new THREE.Mesh(new THREE.PlaneGeometry(sample.width * config.BOOSTER_WIDTH_RATIO, config.BOOSTER_LENGTH), material);
+            pad.rotation.x = -Math.PI / 2;
+
+            const node = new THREE.Group();
+            node.name = `booster_${booster++}`;
+            // Décoration posée sur la chaussée : la physique l'ignore
+            node.userData.isTrigger = true;
+            node.add(pad);
+            TrackBuilder.alignToSample(node, sample, 0.05);
+            group.add(node);
+        });
+    }
+
+    /**
+     * Un tremplin ramp_N par point de type tremplin, suivi de sa zone de réception landing_N
+     */
+    private static addJumps(group: THREE.Group, design: TrackDesign, samples: TrackSample[], controlSamples: number[]): void {
+        const config = TrackBuilder.BUILD_CONFIG;
+        const material = new THREE.MeshStandardMaterial({ name: 'hotwheels_ramp', color: config.RAIL_COLOR, side: THREE.DoubleSide });
+        const volumeMaterial = new THREE.MeshBasicMaterial({ wireframe: true });
+        const landingOffset = Math.round((config.RAMP_LENGTH / 2 + config.LANDING_DISTANCE) / config.SAMPLE_SPACING);
+        let jump = 0;
+
+        design.points.forEach((point, i) => {
+            if (point.piece !== 'jump') return;
+
+            const sample = samples[controlSamples[i]];
+            const ramp = new THREE.Mesh(TrackBuilder.createRampGeometry(sample.width), material);
+            ramp.name = `ramp_${jump}`;
+            TrackBuilder.alignToSample(ramp, sample, 0);
+            group.add(ramp);
+
+            // Volume de réception sur la piste plus loin : ni rendu ni collision
+            const landingSample = samples[(controlSamples[i] + landingOffset) % samples.length];
+            const landing = new THREE.Mesh(
+                new THREE.BoxGeometry(landingSample.width, config.LANDING_HEIGHT, config.LANDING_LENGTH),
+                volumeMaterial
+            );
+            landing.name = `landing_${jump++}`;
+            landing.userData.isTrigger = true;
+            landing.visible = false;
+            TrackBuilder.alignToSample(landing, landingSample, config.LANDING_HEIGHT / 2);
+            group.add(landing);
+        });
+    }
+
+    /**
+     * Coin posé sur la chaussée : pente montant vers +z, dos vertical
+     */
+    private static createRampGeometry(width: number): THREE.BufferGeometry {
+        const { RAMP_LENGTH: length, RAMP_HEIGHT: height } = TrackBuilder.BUILD_CONFIG;
+        const x = width / 2;
+        const z = length / 2;
+        const positions = [
+            x, 0, -z,   -x, 0, -z,      // Pied de la pente (gauche, droite)
+            x, height, z,   -x, height, z,  // Sommet
+            x, 0, z,   -x, 0, z         // Pied du dos
+        ];
+        const indices = [
+            0, 1, 2, 1, 3, 2,           // Pente
+            2, 3, 4, 3, 5, 4,           // Dos
+            0, 2, 4, 1, 5, 3            // Côtés
+        ];
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+        geometry.setIndex(indices);
+        geometry.computeVertexNormals();
+        return geometry;
+    }
+
+    /**
+     * Oriente un objet selon le repère de la piste (+z dans le sens de la course)
+     */
+    private static alignToSample(object: THREE.Object3D, sample: TrackSample, height: number): void {
+        const forward = new THREE.Vector3().crossVectors(sample.left, sample.up);
+        object.quaternion.setFromRotationMatrix(new THREE.Matrix4().makeBasis(sample.left, sample.up, forward));
+        object.position.copy(sample.position).addScaledVector(sample.up, height);
+    }
+
+    private static toVector(point: SplineControlPoint): THREE.Vector3 {
+        return new THREE.Vector3(point.position.x, point.position.y, point.position.z);
+    }
+}
@@ -0,0 +1,93 @@
+import { DEFAULT_TRACK_MANIFEST, TRACK_INDEX_URL, TrackManifest } from '../interfaces/TrackManifest';
+import { TrackDesign } from '../interfaces/TrackDesign';
+import { TrackBuilder } from './TrackBuilder';
+
+/**
+ * Catalogue des circuits : l'index public/tracks/index.json liste les manifestes disponibles.
+ * La lecture des fichiers est fournie par l'appelant (fetch dans le navigateur, disque sur le serveur).
+ */
+export class TrackCatalog {
+    /**
+     * Charge tous les manifestes listés dans l'index (un manifeste invalide est ignoré)
+     * @param readJson Lit et décode un fichier JSON à partir de son URL
+     */
+    public static async load(readJson: (url: string) => Promise<unknown>): Promise<TrackManifest[]> {
+        const index = await readJson(TRACK_INDEX_URL) as { tracks: string[] };
+        const baseUrl = TRACK_INDEX_URL.slice(0, TRACK_INDEX_URL.lastIndexOf('/') + 1);
+
+        const results = await Promise.allSettled(
+            index.tracks.map(async (file) => TrackCatalog.parse(await readJson(baseUrl + file)))
+        );
+
+        return results.flatMap((result, i) => {
+            if (result.status === 'fulfilled') return [result.value];
+            console.error(`Manifeste de circuit ${index.tracks[i]} invalide:`, result.reason);
+            return [];
+        });
+    }
+
+    /**
+     * Valide un manifeste et complète les champs absents avec ceux du circuit d'origine
+     */
+    public static parse(data: unknown): TrackManifest {
+        const manifest = data as Partial<TrackManifest>;
+        const hasDesign = Array.isArray(manifest?.design?.points) && manifest.design.points.length >= 3;
+        if (!manifest || typeof manifest.id !== 'string' || (typeof manifest.model !== 'string' && !hasDesign)) {
+            throw new Error('Un manifeste de circuit doit définir id et model (ou design)');
+        }
+
+        // La grille d'un circuit de l'éditeur se déduit de son tracé
+        const defaults = DEFAULT_TRACK_MANIFEST;
+        return {
+            ...defaults,
+            ...manifest,
+            model: manifest.model ?? '',
+            name: manifest.name ?? manifest.design?.name ?? manifest.id,
+            laps: manifest.laps ?? manifest.design?.laps ?? defaults.laps,
+            grid: { ...(hasDesign ? TrackBuilder.computeGrid(manifest.design!) : defaults.grid), ...manifest.grid },
+            checkpoints: manifest.checkpoints ?? [],
+            lighting: {
+                ambient: { ...defaults.lighting.ambient, ...manifest.lighting?.ambient },
+                sun: { ...defaults.lighting.sun, ...manifest.lighting?.sun }
+            },
+            sky: { ...defaults.sky, ...manifest.sky },
+            materials: {
+                default: { ...defaults.materials.default, ...manifest.materials?.default },
+                surfaces: { ...manifest.materials?.surfaces }
+            }
+        };
+    }
+
+    /**
+     * Manifeste d'un circuit dessiné dans l'éditeur
+     */
+    public static fromDesign(design: TrackDesign): TrackManifest {
+        const slug = design.name.toLowerCase().normalize('NFD').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+        return TrackCatalog.parse({
+            id: `design-${slug || 'circuit'}`,
+            name: design.name,
+            description: "Circuit de l'éditeur",
+            laps: design.laps,
+            design
+        });
+    }
+
+    /**
+     * Circuits disponibles dans le navigateur, le circuit d'origine si le catalogue est inaccessible
+     */
+    public static async fetchAll(): Promise<TrackManifest[]> {
+        try {
+            const tracks = await TrackCatalog.load(async (url) => {
+                const response = await fetch(url);
+                if (!response.ok) {
+                    throw new Error(`${url} : ${response.status}`);
+                }
+                return response.json();
+            });
+            if (tracks.length > 0) return tracks;
+        } catch (error) {
+            console.error('Impossible de charger le catalogue des circuits:', error);
+        }
+        return [DEFAULT_TRACK_MANIFEST];
+    }
+}
@@ -0,0 +1,477 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
+import { TransformControls } from 'three/examples/jsm/controls/TransformControls';
+import { TrackBuilder } from './TrackBuilder';
+import { TrackGenerator } from './TrackGenerator';
+import {
+    DEFAULT_TRACK_DESIGN,
+    SplineControlPoint,
+    TRACK_DESIGN_VERSION,
+    TRACK_PIECE_NAMES,
+    TRACK_PIECE_TYPES,
+    TrackDesign,
+    TrackPieceType
+} from '../interfaces/TrackDesign';
+
+/**
+ * Éditeur de circuit : les points de contrôle de la spline se déplacent à la souris,
+ * le panneau règle largeur, dévers et tronçon du point choisi, et la piste est reconstruite en direct.
+ */
+export class TrackEditor {
+    private container: HTMLDivElement;
+    private renderer: THREE.WebGLRenderer;
+    private scene: THREE.Scene;
+    private camera: THREE.PerspectiveCamera;
+    private orbitControls: OrbitControls;
+    private transformControls: TransformControls;
+    private design: TrackDesign;
+    private preview: THREE.Group | null = null;
+    private markers: THREE.Mesh<THREE.SphereGeometry, THREE.MeshBasicMaterial>[] = [];
+    private selected: number = 0;
+    private animationFrame: number = 0;
+    private pointerDown: THREE.Vector2 | null = null;
+
+    private nameInput!: HTMLInputElement;
+    private lapsInput!: HTMLInputElement;
+    private widthInput!: HTMLInputElement;
+    private bankingInput!: HTMLInputElement;
+    private pieceSelect!: HTMLSelectElement;
+    private pointLabel!: HTMLDivElement;
+    private status!: HTMLDivElement;
+
+    private static readonly EDITOR_CONFIG = {
+        STORAGE_KEY: 'hotwheels-track-editor',  // Dernier circuit édité, restauré à l'ouverture
+        MARKER_RADIUS: 1.5,
+        CLICK_TOLERANCE: 5,                     // Déplacement du pointeur toléré pour un clic en pixels
+        MIN_POINTS: 3,
+        MIN_WIDTH: 6,
+        MAX_WIDTH: 30,
+        MAX_BANKING: 45,
+        MARKER_COLORS: {
+            start: 0x2ecc71,
+            selected: 0xff3e3e,
+            straight: 0xffffff,
+            loop: 0x1e90ff,
+            booster: 0xffd200,
+            jump: 0xff8c1a
+        }
+    };
+
+    /**
+     * @param onTest Appelé avec le circuit à essayer
+     * @param onBack Appelé si le joueur revient au menu
+     */
+    constructor(onTest: (design: TrackDesign) => void, onBack: () => void) {
+        this.design = TrackEditor.loadStoredDesign();
+
+        this.container = document.createElement('div');
+        this.container.className = 'track-editor';
+
+        this.renderer = new THREE.WebGLRenderer({ antialias: true });
+        this.renderer.setPixelRatio(window.devicePixelRatio);
+        this.renderer.setSize(window.innerWidth, window.innerHeight);
+        this.container.appendChild(this.renderer.domElement);
+
+        this.scene = new THREE.Scene();
+        this.scene.background = new THREE.Color(0x87ceeb);
+        this.scene.add(new THREE.HemisphereLight(0xffffff, 0x807060, 1.5));
+        const sun = new THREE.DirectionalLight(0xffffff, 2);
+        sun.position.set(10, 20, 10);
+        this.scene.add(sun);
+        this.scene.add(new THREE.GridHelper(400, 40, 0x666666, 0x999999));
+
+        this.camera = new THREE.PerspectiveCamera(60, window.innerWidth / window.innerHeight, 0.5, 2000);
+        this.camera.position.set(60, 120, 160);
+
+        this.orbitControls = new OrbitControls(this.camera, this.renderer.domElement);
+        this.orbitControls.target.set(-40, 0, 30);
+        this.orbitControls.update();
+
+        this.transformControls = new TransformControls(this.camera, this.renderer.domElement);
+        this.transformControls.addEventListener('dragging-changed', (event) => {
+            this.orbitControls.enabled = !event.value;
+        });
+        this.transformControls.addEventListener('objectChange', () => this.onMarkerMoved());
+        this.scene.add(this.transformControls.getHelper());
+
+        this.container.appendChild(this.createPanel(onTest, onBack));
+        document.body.appendChild(this.container);
+
+        this.renderer.domElement.addEventListener('pointerdown', this.onPointerDown);
+        this.renderer.domElement.addEventListener('pointerup', this.onPointerUp);
+        window.addEventListener('resize', this.onResize);
+
+        this.rebuild();
+        this.select(0);
+        this.animate();
+    }
+
+    private createPanel(onTest: (design: TrackDesign) => void, onBack: () => void): HTMLDivElement {
+        const panel = document.createElement('div');
+        panel.className = 'lobby-panel track-editor-panel';
+
+        const title = document.createElement('h2');
+        title.className = 'lobby-title';
+        title.textContent = 'Éditeur';
+
+        this.nameInput = this.createInput('text');
+        this.nameInput.addEventListener('change', () => {
+            this.design.name = this.nameInput.value.trim() || DEFAULT_TRACK_DESIGN.name;
+            this.rebuild();
+        });
+
+        this.lapsInput = this.createInput('number', 1, 20, 1);
+        this.lapsInput.addEventListener('change', () => {
+            this.design.laps = THREE.MathUtils.clamp(Math.round(Number(this.lapsInput.value)) || 1, 1, 20);
+            this.rebuild();
+        });
+
+        this.pointLabel = document.createElement('div');
+        this.pointLabel.className = 'lobby-status';
+
+        const config = TrackEditor.EDITOR_CONFIG;
+        this.widthInput = this.createInput('number', config.MIN_WIDTH, config.MAX_WIDTH, 1);
+        this.widthInput.addEventListener('change', () => this.updateSelected({
+            width: THREE.MathUtils.clamp(Number(this.widthInput.value) || config.MIN_WIDTH, config.MIN_WIDTH, config.MAX_WIDTH)
+        }));
+
+        this.bankingInput = this.createInput('number', -config.MAX_BANKING, config.MAX_BANKING, 1);
+        this.bankingInput.addEventListener('change', () => this.updateSelected({
+            banking: THREE.MathUtils.clamp(Number(this.bankingInput.value) || 0, -config.MAX_BANKING, config.MAX_BANKING)
+        }));
+
+        this.pieceSelect = document.createElement('select');
+        this.pieceSelect.className = 'lobby-input';
+        TRACK_PIECE_TYPES.forEach((type) => {
+            const option = document.createElement('option');
+            option.value = type;
+            option.textContent = TRACK_PIECE_NAMES[type];
+            this.pieceSelect.appendChild(option);
+        });
+        this.pieceSelect.addEventListener('change', () => this.updateSelected({ piece: this.pieceSelect.value as TrackPieceType }));
+
+        const fileInput = document.createElement('input');
+        fileInput.type = 'file';
+        fileInput.accept = 'application/json,.json';
+        fileInput.style.display = 'none';
+        fileInput.addEventListener('change', () => {
+            const file = fileInput.files?.[0];
+            if (file) this.loadFile(file);
+            fileInput.value = '';
+        });
+
+        const pointButtons = document.createElement('div');
+        pointButtons.className = 'track-editor-buttons';
+        pointButtons.appendChild(this.createButton('Ajouter un point', () => this.addPoint()));
+        pointButtons.appendChild(this.createButton('Supprimer', () => this.removePoint()));
+
+        const fileButtons = document.createElement('div');
+        fileButtons.className = 'track-editor-buttons';
+        fileButtons.appendChild(this.createButton('Enregistrer', () => this.saveFile()));
+        fileButtons.appendChild(this.createButton('Charger', () => fileInput.click()));
+        fileButtons.appendChild(this.createButton('Aléatoire', () => this.generate()));
+
+        const testButton = document.createElement('button');
+        testButton.className = 'play-button';
+        testButton.textContent = 'Tester';
+        testButton.addEventListener('click', () => onTest(this.getDesign()));
+
+        this.status = document.createElement('div');
+        this.status.className = 'lobby-status';
+
+        panel.appendChild(title);
+        panel.appendChild(this.createField('Nom', this.nameInput));
+        panel.appendChild(this.createField('Tours', this.lapsInput));
+        panel.appendChild(this.pointLabel);
+        panel.appendChild(this.createField('Largeur (m)', this.widthInput));
+        panel.appendChild(this.createField('Dévers (°)', this.bankingInput));
+        panel.appendChild(this.createField('Tronçon', this.pieceSelect));
+        panel.appendChild(pointButtons);
+        panel.appendChild(fileButtons);
+        panel.appendChild(fileInput);
+        panel.appendChild(testButton);
+        panel.appendChild(this.createButton('Retour', onBack));
+        panel.appendChild(this.status);
+        return panel;
+    }
+
+    private createInput(type: string, min?: number, max?: number, step?: number): HTMLInputElement {
+        const input = document.createElement('input');
+        input.className = 'lobby-input';
+        input.type = type;
+        if (min !== undefined) input.min = String(min);
+        if (max !== undefined) input.max = String(max);
+        if (step !== undefined) input.step = String(step);
+        return input;
+    }
+
+    private createField(label: string, input: HTMLElement): HTMLLabelElement {
+        const field = document.createElement('label');
+        field.className = 'lobby-row';
+        field.textContent = label;
+        field.appendChild(input);
+        return field;
+    }
+
+    private createButton(label: string, onClick: () => void): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.className = 'replay-button';
+        button.textContent = label;
+        button.addEventListener('click', onClick);
+        return button;
+    }
+
+    /**
+     * Reconstruit la piste et les repères des points après une modification
+     */
+    private rebuild(): void {
+        if (this.preview) {
+            this.scene.remove(this.preview);
+            TrackEditor.disposeObject(this.preview);
+        }
+        this.preview = TrackBuilder.build(this.design);
+        this.scene.add(this.preview);
+
+        // Les repères suivent les points de contrôle, ajoutés ou supprimés
+        while (this.markers.length > this.design.points.length) {
+            const marker = this.markers.pop()!;
+            this.scene.remove(marker);
+            TrackEditor.disposeObject(marker);
+        }
+        while (this.markers.length < this.design.points.length) {
+            const marker = new THREE.Mesh(
+                new THREE.SphereGeometry(TrackEditor.EDITOR_CONFIG.MARKER_RADIUS, 16, 8),
+                new THREE.MeshBasicMaterial({ depthTest: false, transparent: true })
+            );
+            marker.renderOrder = 1;
+            this.markers.push(marker);
+            this.scene.add(marker);
+        }
+        this.design.points.forEach((point, i) => {
+            const marker = this.markers[i];
+            marker.position.set(point.position.x, point.position.y, point.position.z);
+            marker.userData.pointIndex = i;
+        });
+        this.updateMarkerColors();
+        this.storeDesign();
+    }
+
+    private updateMarkerColors(): void {
+        const colors = TrackEditor.EDITOR_CONFIG.MARKER_COLORS;
+        this.markers.forEach((marker, i) => {
+            const piece = this.design.points[i].piece;
+            marker.material.color.set(i === this.selected ? colors.selected : i === 0 ? colors.start : colors[piece]);
+        });
+    }
+
+    /**
+     * Choisit le point édité et affiche ses réglages
+     */
+    private select(index: number): void {
+        this.selected = index;
+        const point = this.design.points[index];
+        this.transformControls.attach(this.markers[index]);
+
+        this.nameInput.value = this.design.name;
+        this.lapsInput.value = String(this.design.laps);
+        this.pointLabel.textContent = index === 0
+            ? `Point 1 / ${this.design.points.length} (départ)`
+            : `Point ${index + 1} / ${this.design.points.length}`;
+        this.widthInput.value = String(point.width);
+        this.bankingInput.value = String(point.banking);
+        this.pieceSelect.value = point.piece;
+        this.updateMarkerColors();
+    }
+
+    private updateSelected(changes: Partial<SplineControlPoint>): void {
+        Object.assign(this.design.points[this.selected], changes);
+        this.rebuild();
+        this.select(this.selected);
+    }
+
+    private onMarkerMoved(): void {
+        const marker = this.markers[this.selected];
+        // Pas de piste sous le sol
+        marker.position.y = Math.max(0, marker.position.y);
+        this.design.points[this.selected].position = { x: marker.position.x, y: marker.position.y, z: marker.position.z };
+        this.rebuild();
+    }
+
+    /**
+     * Insère un point entre le point choisi et le suivant, avec les réglages du point choisi
+     */
+    private addPoint(): void {
+        const points = this.design.points;
+        const current = points[this.selected];
+        const next = points[(this.selected + 1) % points.length];
+        points.splice(this.selected + 1, 0, {
+            ...current,
+            position: {
+                x: (current.position.x + next.position.x) / 2,
+                y: (current.position.y + next.position.y) / 2,
+                z: (current.position.z + next.position.z) / 2
+            },
+            piece: 'straight'
+        });
+        this.rebuild();
+        this.select(this.selected + 1);
+    }
+
+    private removePoint(): void {
+        if (this.design.points.length <= TrackEditor.EDITOR_CONFIG.MIN_POINTS) {
+            this.setStatus(`Un circuit a au moins ${TrackEditor.EDITOR_CONFIG.MIN_POINTS} points`, true);
+            return;
+        }
+        this.design.points.splice(this.selected, 1);
+        this.rebuild();
+        this.select(Math.min(this.selected, this.design.points.length - 1));
+    }
+
+    private onPointerDown = (event: PointerEvent): void => {
+        this.pointerDown = new THREE.Vector2(event.clientX, event.clientY);
+    };
+
+    /**
+     * Un clic (sans rotation de la vue) sur un repère le sélectionne
+     */
+    private onPointerUp = (event: PointerEvent): void => {
+        const start = this.pointerDown;
+        this.pointerDown = null;
+        if (!start || start.distanceTo(new THREE.Vector2(event.clientX, event.clientY)) > TrackEditor.EDITOR_CONFIG.CLICK_TOLERANCE) return;
+
+        const rect = this.renderer.domElement.getBoundingClientRect();
+        const pointer = new THREE.Vector2(
+            ((event.clientX - rect.left) / rect.width) * 2 - 1,
+            -((event.clientY - rect.top) / rect.height) * 2 + 1
+        );
+        const raycaster = new THREE.Raycaster();
+        raycaster.setFromCamera(pointer, this.camera);
+        const hit = raycaster.intersectObjects(this.markers, false)[0];
+        if (hit) {
+            this.select(hit.object.userData.pointIndex);
+        }
+    };
+
+    private onResize = (): void => {
+        this.camera.aspect = window.innerWidth / window.innerHeight;
+        this.camera.updateProjectionMatrix();
+        this.renderer.setSize(window.innerWidth, window.innerHeight);
+    };
+
+    private animate = (): void => {
+        this.animationFrame = requestAnimationFrame(this.animate);
+        this.renderer.render(this.scene, this.camera);
+    };
+
+    /**
+     * Copie du circuit, détachée des modifications suivantes
+     */
+    public getDesign(): TrackDesign {
+        return JSON.parse(JSON.stringify(this.design));
+    }
+
+    private saveFile(): void {
+        const blob = new Blob([JSON.stringify(this.design, null, 2)], { type: 'application/json' });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.download = `${this.design.name.replace(/[^\w-]+/g, '_') || 'circuit'}.json`;
+        link.click();
+        URL.revokeObjectURL(link.href);
+        this.setStatus('Circuit enregistré');
+    }
+
+    private async loadFile(file: File): Promise<void> {
+        try {
+            this.design = TrackEditor.parseDesign(JSON.parse(await file.text()));
+            this.rebuild();
+            this.select(0);
+            this.setStatus(`${this.design.name} chargé`);
+        } catch (error) {
+            console.error('Circuit invalide:', error);
+            this.setStatus('Fichier de circuit invalide', true);
+        }
+    }
+
+    /**
+     * Remplace le circuit par un tracé généré, à retoucher ensuite
+     */
+    private generate(): void {
+        this.design = TrackGenerator.generate({ seed: Math.floor(Math.random() * 1e6) });
+        this.rebuild();
+        this.select(0);
+        this.setStatus(`${this.design.name} généré`);
+    }
+
+    private setStatus(message: string, isError: boolean = false): void {
+        this.status.textContent = message;
+        this.status.classList.toggle('error', isError);
+    }
+
+    private storeDesign(): void {
+        try {
+            localStorage.setItem(TrackEditor.EDITOR_CONFIG.STORAGE_KEY, JSON.stringify(this.design));
+        } catch (error) {
+            console.warn("Impossible de conserver le circuit de l'éditeur:", error);
+        }
+    }
+
+    private static loadStoredDesign(): TrackDesign {
+        try {
+            const stored = localStorage.getItem(TrackEditor.EDITOR_CONFIG.STORAGE_KEY);
+            if (stored) return TrackEditor.parseDesign(JSON.parse(stored));
+        } catch (error) {
+            console.warn("Circuit de l'éditeur précédent illisible:", error);
+        }
+        return JSON.parse(JSON.stringify(DEFAULT_TRACK_DESIGN));
+    }
+
+    /**
+     * Valide un circuit lu depuis un fichier et complète les réglages absents
+     */
+    public static parseDesign(data: unknown): TrackDesign {
+        const design = data as Partial<TrackDesign>;
+        if (!design || !Array.isArray(design.points) || design.points.length < TrackEditor.EDITOR_CONFIG.MIN_POINTS) {
+            throw new Error(`Un circuit doit définir au moins ${TrackEditor.EDITOR_CONFIG.MIN_POINTS} points`);
+        }
+
+        const defaults = DEFAULT_TRACK_DESIGN.points[0];
+        return {
+            version: TRACK_DESIGN_VERSION,
+            name: typeof design.name === 'string' && design.name ? design.name : DEFAULT_TRACK_DESIGN.name,
+            laps: typeof design.laps === 'number' ? design.laps : DEFAULT_TRACK_DESIGN.laps,
+            points: design.points.map((point: Partial<SplineControlPoint>) => {
+                const { x, y, z } = point.position ?? {};
+                if (typeof x !== 'number' || typeof y !== 'number' || typeof z !== 'number') {
+                    throw new Error('Position de point invalide');
+                }
+                return {
+                    position: { x, y, z },
+                    width: point.width ?? defaults.width,
+                    banking: point.banking ?? defaults.banking,
+                    piece: TRACK_PIECE_TYPES.includes(point.piece as TrackPieceType) ? point.piece as TrackPieceType : 'straight'
+                };
+            })
+        };
+    }
+
+    private static disposeObject(object: THREE.Object3D): void {
+        object.traverse((child) => {
+            if (child instanceof THREE.Mesh || child instanceof THREE.Line) {
+                child.geometry.dispose();
+                (Array.isArray(child.material) ? child.material : [child.material]).forEach(material => material.dispose());
+            }
+        });
+    }
+
+    public dispose(): void {
+        cancelAnimationFrame(this.animationFrame);
+        window.removeEventListener('resize', this.onResize);
+        this.transformControls.detach();
+        this.transformControls.dispose();
+        this.orbitControls.dispose();
+        if (this.preview) TrackEditor.disposeObject(this.preview);
+        this.markers.forEach(marker => TrackEditor.disposeObject(marker));
+        this.renderer.dispose();
+        this.container.remove();
+    }
+}
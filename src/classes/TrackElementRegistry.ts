@@ -0,0 +1,114 @@
+import * as THREE from 'three';
+import { Car } from './Car';
+import { BoosterElement } from './BoosterElement';
+import { LoopElement } from './LoopElement';
+import { RampElement } from './RampElement';
+import { LandingZoneElement } from './LandingZoneElement';
+import { TrackElement, TrackElementFactory, TrackElementNode } from '../interfaces/TrackElement';
+
+/**
+ * Éléments de piste du circuit. Un nœud du modèle devient un élément si son nom commence
+ * par un type enregistré (booster_01, loop.002...) ou si ses extras glTF définissent trackElement.
+ */
+export class TrackElementRegistry {
+    private static readonly factories: Map<string, TrackElementFactory> = new Map<string, TrackElementFactory>([
+        ['booster', node => new BoosterElement(node)],
+        ['loop', node => new LoopElement(node)],
+        ['ramp', node => new RampElement(node)],
+        ['landing', node => new LandingZoneElement(node)]
+    ]);
+
+    private static readonly ELEMENT_CONFIG = {
+        NAME_SEPARATOR: /[_.\-\s]/,                         // Le type est le début du nom du nœud
+        VOLUME_MARGIN: new THREE.Vector3(0.5, 2, 0.5),      // Marge autour de la géométrie (hauteur d'une voiture)
+        DEFAULT_SIZE: new THREE.Vector3(4, 1, 4)            // Volume d'un empty en m
+    };
+
+    private elements: TrackElement[] = [];
+
+    /**
+     * Ajoute un type d'élément de piste
+     */
+    public static register(type: string, factory: TrackElementFactory): void {
+        TrackElementRegistry.factories.set(type.toLowerCase(), factory);
+    }
+
+    /**
+     * Crée les éléments des nœuds du circuit (les enfants d'un élément n'en créent pas d'autres)
+     */
+    public loadFromTrack(trackModel: THREE.Object3D): void {
+        this.elements = [];
+        trackModel.updateMatrixWorld(true);
+
+        const visit = (object: THREE.Object3D): void => {
+            const type = this.getElementType(object);
+            const factory = type ? TrackElementRegistry.factories.get(type) : undefined;
+            if (factory) {
+                this.elements.push(factory(this.createNode(object)));
+                return;
+            }
+            object.children.forEach(visit);
+        };
+        visit(trackModel);
+
+        if (this.elements.length > 0) {
+            console.log(`Éléments de piste : ${this.elements.map(element => element.node.name).join(', ')}`);
+        }
+    }
+
+    private getElementType(object: THREE.Object3D): string | null {
+        if (typeof object.userData.trackElement === 'string') {
+            return object.userData.trackElement.toLowerCase();
+        }
+        const prefix = object.name.split(TrackElementRegistry.ELEMENT_CONFIG.NAME_SEPARATOR)[0].toLowerCase();
+        return TrackElementRegistry.factories.has(prefix) ? prefix : null;
+    }
+
+    private createNode(object: THREE.Object3D): TrackElementNode {
+        // Un empty sans géométrie utilise un volume par défaut autour de sa position
+        const box = new THREE.Box3().setFromObject(object);
+        if (box.isEmpty()) {
+            box.setFromCenterAndSize(object.getWorldPosition(new THREE.Vector3()), TrackElementRegistry.ELEMENT_CONFIG.DEFAULT_SIZE);
+        }
+        box.expandByVector(TrackElementRegistry.ELEMENT_CONFIG.VOLUME_MARGIN);
+
+        // Seules les valeurs numériques des extras servent de paramètres
+        const params: Record<string, number> = {};
+        Object.entries(object.userData).forEach(([key, value]) => {
+            if (typeof value === 'number') {
+                params[key] = value;
+            }
+        });
+
+        return {
+            name: object.name,
+            box,
+            direction: object.getWorldDirection(new THREE.Vector3()),
+            params
+        };
+    }
+
+    /**
+     * Pas de physique : chaque élément agit sur les voitures présentes dans son volume
+     */
+    public update(cars: Car[], deltaTime: number): void {
+        if (this.elements.length === 0) return;
+
+        const position = new THREE.Vector3();
+        cars.forEach((car) => {
+            const body = car.getBody();
+            if (!body) return;
+
+            position.set(body.position.x, body.position.y, body.position.z);
+            this.elements.forEach((element) => {
+                if (element.node.box.containsPoint(position)) {
+                    element.apply(car, deltaTime);
+                }
+            });
+        });
+    }
+
+    public getElements(): TrackElement[] {
+        return this.elements;
+    }
+}
@@ -0,0 +1,143 @@
+import * as THREE from 'three';
+import { SeededRandom } from './SeededRandom';
+import { SplineControlPoint, TRACK_DESIGN_VERSION, TrackDesign } from '../interfaces/TrackDesign';
+import { DEFAULT_TRACK_GENERATOR_OPTIONS, TrackGeneratorOptions } from '../interfaces/TrackGenerator';
+
+/**
+ * Générateur de circuits à partir d'une graine. Les points sont répartis autour d'un centre,
+ * dans l'ordre de leur angle : le tracé est fermé et ne se recoupe pas. Le résultat est un circuit
+ * de l'éditeur, construit ensuite par le TrackBuilder comme un circuit dessiné à la main.
+ */
+export class TrackGenerator {
+    private static readonly GENERATOR_CONFIG = {
+        POINT_SPACING: 60,          // Distance moyenne entre deux points de contrôle en m
+        MIN_POINTS: 6,
+        MAX_POINTS: 24,
+        RADIUS_VARIATION: 0.9,      // Variation du rayon à courbure maximale (part du rayon moyen)
+        ANGLE_JITTER: 0.35,         // Décalage angulaire à courbure maximale (part de l'écart entre deux points)
+        MAX_BANKING: 20,            // Dévers des virages les plus serrés en degrés
+        BANKING_PER_RADIAN: 25,     // Dévers par radian de changement de direction
+        CLEARANCE_MARGIN: 4,        // Espace libre exigé entre deux portions de piste en plus de la largeur
+        CHECK_SPACING: 3,           // Pas d'échantillonnage du contrôle des croisements en m
+        MAX_ATTEMPTS: 20            // Tirages avant de réduire la courbure
+    };
+
+    /**
+     * Produit un circuit fermé et sans croisement
+     * @param options Graine et paramètres, les valeurs absentes sont celles par défaut
+     */
+    public static generate(options: Partial<TrackGeneratorOptions> & { seed: number }): TrackDesign {
+        const settings: TrackGeneratorOptions = { ...DEFAULT_TRACK_GENERATOR_OPTIONS, ...options };
+        const random = new SeededRandom(settings.seed);
+        let curviness = THREE.MathUtils.clamp(settings.curviness, 0, 1);
+
+        // Le tirage suivant est essayé tant que la piste passe trop près d'elle-même, puis le tracé est adouci
+        for (let attempt = 0; ; attempt++) {
+            const positions = TrackGenerator.createLayout(settings, curviness, random);
+            if (TrackGenerator.hasClearance(positions, settings.width) || curviness === 0) {
+                console.log(`Circuit généré (graine ${settings.seed}, ${attempt + 1} tirage${attempt > 0 ? 's' : ''})`);
+                return {
+                    version: TRACK_DESIGN_VERSION,
+                    name: `Circuit aléatoire ${settings.seed}`,
+                    laps: settings.laps,
+                    points: TrackGenerator.createPoints(positions, settings)
+                };
+            }
+            if ((attempt + 1) % TrackGenerator.GENERATOR_CONFIG.MAX_ATTEMPTS === 0) {
+                curviness = Math.max(0, curviness - 0.2);
+            }
+        }
+    }
+
+    /**
+     * Points en étoile autour de l'origine : angles croissants, rayon et hauteur variables
+     */
+    private static createLayout(settings: TrackGeneratorOptions, curviness: number, random: SeededRandom): THREE.Vector3[] {
+        const config = TrackGenerator.GENERATOR_CONFIG;
+        const count = THREE.MathUtils.clamp(Math.round(settings.length / config.POINT_SPACING), config.MIN_POINTS, config.MAX_POINTS);
+        const radius = settings.length / (Math.PI * 2);
+        const step = Math.PI * 2 / count;
+
+        // Deux ondulations de phases aléatoires donnent un relief régulier
+        const phases = [random.range(0, Math.PI * 2), random.range(0, Math.PI * 2)];
+        const waves = [1, random.int(2, 3)];
+
+        const positions: THREE.Vector3[] = [];
+        for (let i = 0; i < count; i++) {
+            const angle = i * step + random.range(-0.5, 0.5) * step * config.ANGLE_JITTER * curviness;
+            const distance = radius * (1 + random.range(-0.5, 0.5) * config.RADIUS_VARIATION * curviness);
+            const wave = (Math.sin(waves[0] * angle + phases[0]) + Math.sin(waves[1] * angle + phases[1])) / 4 + 0.5;
+            // Le départ est au sol, sur le côté +x du centre, dans le sens de +z
+            positions.push(new THREE.Vector3(
+                Math.cos(angle) * distance - radius,
+                i === 0 ? 0 : wave * settings.elevation,
+                Math.sin(angle) * distance
+            ));
+        }
+        return positions;
+    }
+
+    /**
+     * Vérifie que deux portions éloignées du tracé restent séparées d'au moins une largeur de piste
+     */
+    private static hasClearance(positions: THREE.Vector3[], width: number): boolean {
+        const config = TrackGenerator.GENERATOR_CONFIG;
+        const curve = new THREE.CatmullRomCurve3(positions, true, 'centripetal');
+        const length = curve.getLength();
+        const count = Math.ceil(length / config.CHECK_SPACING);
+        const samples = curve.getSpacedPoints(count).slice(0, -1).map(point => new THREE.Vector2(point.x, point.z));
+        const minDistance = width + config.CLEARANCE_MARGIN;
+        // Les échantillons plus proches que cela le long de la piste sont voisins
+        const neighbours = Math.ceil(minDistance * 2 / config.CHECK_SPACING);
+
+        for (let i = 0; i < samples.length; i++) {
+            for (let j = i + neighbours; j < samples.length; j++) {
+                if (samples.length - j + i < neighbours) break;
+                if (samples[i].distanceTo(samples[j]) < minDistance) return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Dévers selon le virage, puis tremplins et loopings sur les portions les plus droites
+     */
+    private static createPoints(positions: THREE.Vector3[], settings: TrackGeneratorOptions): SplineControlPoint[] {
+        const config = TrackGenerator.GENERATOR_CONFIG;
+        const turns = positions.map((position, i) => {
+            const previous = positions[(i + positions.length - 1) % positions.length];
+            const next = positions[(i + 1) % positions.length];
+            const incoming = new THREE.Vector2(position.x - previous.x, position.z - previous.z);
+            const outgoing = new THREE.Vector2(next.x - position.x, next.z - position.z);
+            // Angle signé du changement de direction dans le plan (x, z) : positif = virage à droite, +x étant la gauche
+            return Math.atan2(incoming.cross(outgoing), incoming.dot(outgoing));
+        });
+
+        const points: SplineControlPoint[] = positions.map((position, i) => ({
+            position: { x: position.x, y: position.y, z: position.z },
+            width: settings.width,
+            banking: THREE.MathUtils.clamp(turns[i] * config.BANKING_PER_RADIAN, -config.MAX_BANKING, config.MAX_BANKING),
+            piece: 'straight'
+        }));
+
+        // Le départ reste une route ; deux éléments ne se suivent pas pour laisser reprendre de l'élan
+        const candidates = points
+            .map((_, i) => i)
+            .filter(i => i > 1 && i < points.length - 1)
+            .sort((a, b) => Math.abs(turns[a]) - Math.abs(turns[b]));
+        const used = new Set<number>();
+        const place = (piece: 'jump' | 'loop', count: number): void => {
+            for (const i of candidates) {
+                if (count <= 0) return;
+                if (used.has(i) || used.has(i - 1) || used.has(i + 1)) continue;
+                points[i].piece = piece;
+                points[i].banking = 0;
+                used.add(i);
+                count--;
+            }
+        };
+        place('loop', settings.loops);
+        place('jump', settings.jumps);
+        return points;
+    }
+}
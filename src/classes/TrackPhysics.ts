@@ -1,28 +1,89 @@
 import * as CANNON from 'cannon-es';
 import * as THREE from 'three';
+import { DEFAULT_SURFACE_TYPE, SURFACE_PROPERTIES, SURFACE_TYPES, SurfaceType } from '../interfaces/TrackSurface';
 
 export class TrackPhysics {
     private world: CANNON.World;
     private trackBodies: CANNON.Body[] = [];
-    private trackMaterial: CANNON.Material;
+    private carMaterial: CANNON.Material;
+    // Un matériau par revêtement, nommé d'après son type pour que les roues le reconnaissent
+    private surfaceMaterials: Map<SurfaceType, CANNON.Material> = new Map();
     private meshToBody: Map<THREE.Mesh, CANNON.Body> = new Map();
+    private bodySurfaces: Map<CANNON.Body, SurfaceType> = new Map();
 
-    constructor(world: CANNON.World) {
+    // Mots-clés des noms de matériaux et de nœuds, du plus spécifique au plus général
+    private static readonly SURFACE_PATTERNS: [SurfaceType, RegExp][] = [
+        ['ice', /(?:^|[^a-z])(?:ice|glace|snow|neige)(?:[^a-z]|$)/i],
+        ['sand', /sand|sable/i],
+        ['grass', /grass|herbe|gazon|lawn/i],
+        ['dirt', /dirt|terre|mud|boue|gravel|gravier/i],
+        ['plastic', /plastic|plastique|orange|hotwheels/i],
+        ['asphalt', /asphalt|tarmac|road|route|bitume/i]
+    ];
+
+    /**
+     * @param carMaterial Matériau des châssis, pour les contacts voiture/revêtement
+     */
+    constructor(world: CANNON.World, carMaterial: CANNON.Material) {
         this.world = world;
-        this.trackMaterial = new CANNON.Material('track');
-        this.trackMaterial.friction = 1.0;
-        this.trackMaterial.restitution = 0.0;
+        this.carMaterial = carMaterial;
+    }
+
+    /**
+     * Matériau physique d'un revêtement, créé avec son contact voiture au premier usage
+     */
+    private getSurfaceMaterial(surface: SurfaceType): CANNON.Material {
+        let material = this.surfaceMaterials.get(surface);
+        if (material) return material;
+
+        const properties = SURFACE_PROPERTIES[surface];
+        material = new CANNON.Material(surface);
+        material.friction = properties.friction;
+        material.restitution = 0.0;
+        this.surfaceMaterials.set(surface, material);
+
+        this.world.addContactMaterial(new CANNON.ContactMaterial(
+            material,
+            this.carMaterial,
+            {
+                friction: properties.friction,
+                restitution: 0.0,
+                contactEquationStiffness: 1e8,
+                contactEquationRelaxation: 1,
+                frictionEquationStiffness: 1e8,
+                frictionEquationRelaxation: 1
+            }
+        ));
+        return material;
+    }
+
+    /**
+     * Revêtement d'un mesh : nom de son matériau glTF, sinon nom du nœud ou d'un parent
+     */
+    public static detectSurface(mesh: THREE.Mesh): SurfaceType {
+        const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+        const names = materials.map(material => material?.name ?? '');
+        for (let current: THREE.Object3D | null = mesh; current; current = current.parent) {
+            names.push(current.name);
+        }
+
+        for (const name of names) {
+            const match = TrackPhysics.SURFACE_PATTERNS.find(([, pattern]) => pattern.test(name));
+            if (match) return match[0];
+        }
+        return DEFAULT_SURFACE_TYPE;
     }
 
     public createTrackBody(trackModel: THREE.Object3D): void {
         trackModel.traverse((child) => {
-            if (child instanceof THREE.Mesh && child.geometry) {
+            if (child instanceof THREE.Mesh && child.geometry && !this.isTriggerVolume(child)) {
                 const geometry = child.geometry;
                 
                 if (geometry.attributes.position) {
+                    const surface = TrackPhysics.detectSurface(child);
                     const body = new CANNON.Body({
                         mass: 0,
-                        material: this.trackMaterial,
+                        material: this.getSurfaceMaterial(surface),
                         type: CANNON.Body.STATIC,
                         collisionFilterGroup: 1,
                         collisionFilterMask: -1
@@ -54,37 +115,43 @@ export class TrackPhysics {
                     this.world.addBody(body);
                     this.trackBodies.push(body);
                     this.meshToBody.set(child, body);
+                    this.bodySurfaces.set(body, surface);
                 }
             }
         });
 
-        const carMaterial = this.world.bodies[1]?.material;
-        if (carMaterial) {
-            const trackCarContact = new CANNON.ContactMaterial(
-                this.trackMaterial,
-                carMaterial,
-                {
-                    friction: 1.0,
-                    restitution: 0.0,
-                    contactEquationStiffness: 1e8,
-                    contactEquationRelaxation: 1,
-                    frictionEquationStiffness: 1e8,
-                    frictionEquationRelaxation: 1
-                }
-            );
-            this.world.addContactMaterial(trackCarContact);
-        }
+        const counts = SURFACE_TYPES
+            .map(surface => [surface, [...this.bodySurfaces.values()].filter(type => type === surface).length] as const)
+            .filter(([, count]) => count > 0);
+        console.log(`Revêtements du circuit : ${counts.map(([surface, count]) => `${surface} ${count}`).join(', ')}`);
 
         this.world.defaultContactMaterial.contactEquationStiffness = 1e8;
         this.world.defaultContactMaterial.contactEquationRelaxation = 1;
     }
 
+    /**
+     * Vérifie si l'objet ou un de ses parents est un volume de déclenchement (checkpoint, arrivée)
+     */
+    private isTriggerVolume(object: THREE.Object3D): boolean {
+        let current: THREE.Object3D | null = object;
+        while (current) {
+            if (current.userData.isTrigger) return true;
+            current = current.parent;
+        }
+        return false;
+    }
+
     public removeTrackBodies(): void {
         this.trackBodies.forEach(body => {
             this.world.removeBody(body);
         });
         this.trackBodies = [];
         this.meshToBody.clear();
+        this.bodySurfaces.clear();
+    }
+
+    public getSurface(body: CANNON.Body): SurfaceType | null {
+        return this.bodySurfaces.get(body) ?? null;
     }
 
     public getTrackBodies(): CANNON.Body[] {
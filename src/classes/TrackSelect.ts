@@ -0,0 +1,111 @@
+import { TrackManifest } from '../interfaces/TrackManifest';
+import { DEFAULT_WEATHER_TYPE, WEATHER_PRESETS, WEATHER_TYPES, WeatherType } from '../interfaces/Weather';
+import { TIME_OF_DAY_PRESETS, TIME_OF_DAY_TYPES, TimeOfDayType } from '../interfaces/TimeOfDay';
+import { TrackCatalog } from './TrackCatalog';
+import { TrackGenerator } from './TrackGenerator';
+
+/**
+ * Écran de choix du circuit, de la météo et de l'heure avant le chargement de la course
+ */
+export class TrackSelect {
+    private container: HTMLDivElement;
+
+    /**
+     * @param tracks Circuits du catalogue
+     * @param onSelect Appelé avec le circuit, la météo et l'heure de départ choisis
+     * @param onBack Appelé si le joueur revient au menu
+     */
+    constructor(
+        tracks: TrackManifest[],
+        onSelect: (track: TrackManifest, weather: WeatherType, hour: number) => void,
+        onBack: () => void
+    ) {
+        this.container = document.createElement('div');
+        this.container.className = 'menu-overlay';
+
+        const panel = document.createElement('div');
+        panel.className = 'lobby-panel';
+
+        const title = document.createElement('h2');
+        title.className = 'lobby-title';
+        title.textContent = 'Choix du circuit';
+
+        const weatherSelect = document.createElement('select');
+        weatherSelect.className = 'lobby-input';
+        WEATHER_TYPES.forEach((type) => {
+            const option = document.createElement('option');
+            option.value = type;
+            option.textContent = `Météo : ${WEATHER_PRESETS[type].name}`;
+            weatherSelect.appendChild(option);
+        });
+        weatherSelect.value = DEFAULT_WEATHER_TYPE;
+
+        const timeSelect = document.createElement('select');
+        timeSelect.className = 'lobby-input';
+        TIME_OF_DAY_TYPES.forEach((type) => {
+            const option = document.createElement('option');
+            option.value = type;
+            option.textContent = `Heure : ${TIME_OF_DAY_PRESETS[type].name}`;
+            timeSelect.appendChild(option);
+        });
+
+        const select = (track: TrackManifest) => onSelect(
+            track,
+            weatherSelect.value as WeatherType,
+            TIME_OF_DAY_PRESETS[timeSelect.value as TimeOfDayType].hour
+        );
+
+        const list = document.createElement('div');
+        list.className = 'menu-list';
+        tracks.forEach((track) => {
+            const details = `${track.laps} tour${track.laps > 1 ? 's' : ''}${track.description ? ` · ${track.description}` : ''}`;
+            list.appendChild(this.createCard(track.name, details, () => select(track)));
+        });
+
+        // Circuit généré : la même graine redonne le même tracé
+        const seedInput = document.createElement('input');
+        seedInput.className = 'lobby-input';
+        seedInput.type = 'number';
+        seedInput.placeholder = 'Graine (au hasard si vide)';
+        list.appendChild(this.createCard('Circuit aléatoire', 'Nouveau tracé avec loopings et tremplins', () => {
+            const seed = seedInput.value ? Math.abs(Math.floor(Number(seedInput.value))) : Math.floor(Math.random() * 1e6);
+            select(TrackCatalog.fromDesign(TrackGenerator.generate({ seed })));
+        }));
+        list.appendChild(seedInput);
+
+        const backButton = document.createElement('button');
+        backButton.className = 'replay-button';
+        backButton.textContent = 'Retour';
+        backButton.addEventListener('click', onBack);
+
+        panel.appendChild(title);
+        panel.appendChild(weatherSelect);
+        panel.appendChild(timeSelect);
+        panel.appendChild(list);
+        panel.appendChild(backButton);
+        this.container.appendChild(panel);
+        document.body.appendChild(this.container);
+    }
+
+    private createCard(title: string, details: string, onClick: () => void): HTMLButtonElement {
+        const card = document.createElement('button');
+        card.className = 'menu-card';
+        card.addEventListener('click', onClick);
+
+        const name = document.createElement('div');
+        name.className = 'menu-card-name';
+        name.textContent = title;
+
+        const detailsLine = document.createElement('div');
+        detailsLine.className = 'menu-card-details';
+        detailsLine.textContent = details;
+
+        card.appendChild(name);
+        card.appendChild(detailsLine);
+        return card;
+    }
+
+    public dispose(): void {
+        this.container.remove();
+    }
+}
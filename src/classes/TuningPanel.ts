@@ -0,0 +1,203 @@
+import { GUI } from 'dat.gui';
+import { Car } from './Car';
+import { ThirdPersonCamera } from './ThirdPersonCamera';
+import { WeatherSystem } from './WeatherSystem';
+import { Environment } from './Environment';
+import { CameraTuning, TuningPreset } from '../interfaces/TuningPreset';
+import { VehicleHandling } from '../interfaces/VehicleDefinition';
+import { WEATHER_PRESETS, WEATHER_TYPES, WeatherType } from '../interfaces/Weather';
+
+/**
+ * Panneau de réglage développeur (dat.gui) : les valeurs modifiées s'appliquent à chaud
+ * à la voiture et à la caméra du joueur 1, et s'enregistrent en préréglages JSON.
+ */
+export class TuningPanel {
+    private static readonly TUNING_CONFIG = {
+        TOGGLE_KEY: 'f2',                   // Touche d'affichage du panneau
+        WIDTH: 320,                         // Largeur du panneau en px
+        WEATHER_TRANSITION: 10              // Durée par défaut d'un changement de météo en s
+    };
+
+    private static readonly HANDLING_FOLDERS: Record<keyof VehicleHandling, string> = {
+        chassis: 'Châssis',
+        wheels: 'Roues',
+        suspension: 'Suspensions',
+        tires: 'Pneus',
+        engine: 'Moteur',
+        nitro: 'Nitro',
+        drift: 'Drift',
+        dynamics: 'Dynamique',
+        aerodynamics: 'Aérodynamique',
+        response: 'Réponse des commandes'
+    };
+
+    private gui: GUI;
+    private car: Car;
+    private camera: ThirdPersonCamera;
+    private weather: WeatherSystem;
+    private environment: Environment;
+    private fileInput: HTMLInputElement;
+
+    // Valeurs éditées par le panneau
+    private performance: TuningPreset['performance'];
+    private handling: VehicleHandling;
+    private cameraTuning: CameraTuning;
+    private weatherTuning: { weather: WeatherType, transition: number };
+    private timeTuning: { hour: number, timeScale: number };
+
+    private onKeyDown = (event: KeyboardEvent): void => {
+        if (event.key.toLowerCase() === TuningPanel.TUNING_CONFIG.TOGGLE_KEY) {
+            event.preventDefault();
+            this.toggle();
+        }
+    };
+
+    constructor(car: Car, camera: ThirdPersonCamera, weather: WeatherSystem, environment: Environment) {
+        this.car = car;
+        this.camera = camera;
+        this.weather = weather;
+        this.environment = environment;
+
+        const { maxSpeed, acceleration, deceleration, rotationSpeed } = car.getConfig();
+        this.performance = { maxSpeed, acceleration, deceleration, rotationSpeed };
+        // Copie : la définition du garage est partagée avec les autres voitures
+        this.handling = structuredClone(car.getHandling());
+        this.cameraTuning = {
+            height: camera.getBaseHeight(),
+            distance: camera.getBaseDistance(),
+            smoothness: camera.getSmoothness(),
+            lookAtSmoothness: camera.getLookAtSmoothness()
+        };
+        this.weatherTuning = { weather: weather.getWeather(), transition: TuningPanel.TUNING_CONFIG.WEATHER_TRANSITION };
+        this.timeTuning = { hour: environment.getHour(), timeScale: environment.getTimeScale() };
+
+        // hideable désactivé : la touche H de dat.gui ne doit pas masquer le panneau en course
+        this.gui = new GUI({ width: TuningPanel.TUNING_CONFIG.WIDTH, hideable: false });
+        this.gui.hide();
+        this.buildControls();
+
+        this.fileInput = document.createElement('input');
+        this.fileInput.type = 'file';
+        this.fileInput.accept = '.json';
+        this.fileInput.style.display = 'none';
+        this.fileInput.addEventListener('change', () => this.loadSelectedFile());
+        document.body.appendChild(this.fileInput);
+
+        window.addEventListener('keydown', this.onKeyDown);
+    }
+
+    private buildControls(): void {
+        this.addNumbers(this.gui.addFolder('Performances'), this.performance, () => this.car.updateConfig(this.performance));
+
+        const handlingFolder = this.gui.addFolder('Comportement');
+        (Object.keys(TuningPanel.HANDLING_FOLDERS) as (keyof VehicleHandling)[]).forEach((group) => {
+            this.addNumbers(
+                handlingFolder.addFolder(TuningPanel.HANDLING_FOLDERS[group]),
+                this.handling[group],
+                () => this.car.setHandling(this.handling)
+            );
+        });
+
+        this.addNumbers(this.gui.addFolder('Caméra'), this.cameraTuning, () => this.applyCamera());
+
+        // Changement de météo en cours de course, progressif sur la durée de transition
+        const weatherFolder = this.gui.addFolder('Météo');
+        const weatherOptions = Object.fromEntries(WEATHER_TYPES.map(type => [WEATHER_PRESETS[type].name, type]));
+        weatherFolder.add(this.weatherTuning, 'weather', weatherOptions).name('Météo')
+            .onChange(() => this.weather.setWeather(this.weatherTuning.weather, this.weatherTuning.transition));
+        weatherFolder.add(this.weatherTuning, 'transition', 0, 60).name('Transition (s)');
+
+        const timeFolder = this.gui.addFolder('Heure');
+        timeFolder.add(this.timeTuning, 'hour', 0, 24, 0.1).name('Heure')
+            .onChange(() => this.environment.setHour(this.timeTuning.hour));
+        timeFolder.add(this.timeTuning, 'timeScale', 0, 60).name('Heures par minute')
+            .onChange(() => this.environment.setTimeScale(this.timeTuning.timeScale));
+
+        const presets = this.gui.addFolder('Préréglages');
+        presets.add({ save: () => this.savePreset() }, 'save').name('Enregistrer');
+        presets.add({ load: () => this.fileInput.click() }, 'load').name('Charger');
+        presets.open();
+    }
+
+    /**
+     * Ajoute un champ pour chaque valeur numérique de l'objet (les tableaux et sous-objets sont ignorés)
+     */
+    private addNumbers<T extends object>(folder: GUI, values: T, onChange?: () => void): void {
+        Object.entries(values).forEach(([key, value]) => {
+            if (typeof value !== 'number') return;
+            folder.add(values, key as keyof T).onChange(() => onChange?.());
+        });
+    }
+
+    private applyCamera(): void {
+        this.camera.setBaseHeight(this.cameraTuning.height);
+        this.camera.setBaseDistance(this.cameraTuning.distance);
+        this.camera.setSmoothness(this.cameraTuning.smoothness);
+        this.camera.setLookAtSmoothness(this.cameraTuning.lookAtSmoothness);
+    }
+
+    private getPreset(): TuningPreset {
+        return {
+            performance: this.performance,
+            handling: this.handling,
+            camera: this.cameraTuning
+        };
+    }
+
+    /**
+     * Télécharge les réglages courants sous forme de fichier JSON
+     */
+    private savePreset(): void {
+        const blob = new Blob([JSON.stringify(this.getPreset(), null, 4)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `reglages-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    }
+
+    /**
+     * Applique un préréglage ; les valeurs absentes du fichier restent inchangées
+     */
+    public applyPreset(preset: Partial<TuningPreset>): void {
+        const current = this.getPreset();
+        Object.assign(current.performance, preset.performance);
+        (Object.keys(TuningPanel.HANDLING_FOLDERS) as (keyof VehicleHandling)[]).forEach((group) => {
+            Object.assign(current.handling[group], preset.handling?.[group]);
+        });
+        Object.assign(current.camera, preset.camera);
+
+        this.car.updateConfig(this.performance);
+        this.car.setHandling(this.handling);
+        this.applyCamera();
+        this.gui.updateDisplay();
+    }
+
+    private async loadSelectedFile(): Promise<void> {
+        const file = this.fileInput.files?.[0];
+        this.fileInput.value = '';
+        if (!file) return;
+
+        try {
+            this.applyPreset(JSON.parse(await file.text()));
+        } catch (error) {
+            console.error('Erreur lors du chargement du préréglage:', error);
+        }
+    }
+
+    public toggle(): void {
+        if (this.gui.domElement.style.display === 'none') {
+            this.gui.show();
+            this.gui.open();
+        } else {
+            this.gui.hide();
+        }
+    }
+
+    public dispose(): void {
+        window.removeEventListener('keydown', this.onKeyDown);
+        this.gui.destroy();
+        this.fileInput.remove();
+    }
+}
@@ -0,0 +1,75 @@
+import * as THREE from 'three';
+import { CarInputSource } from '../interfaces/CarInput';
+import { VehicleHandling } from '../interfaces/VehicleDefinition';
+import { NEUTRAL_VEHICLE_INPUT, VehicleInput } from '../interfaces/VehicleInput';
+
+/**
+ * Lissage des commandes : la direction et les pédales rejoignent la valeur demandée à vitesse limitée,
+ * de sorte qu'une touche tout-ou-rien et un stick analogique donnent la même conduite progressive.
+ * L'état fait partie de l'instantané de la voiture pour rester déterministe en replay et en ligne.
+ */
+export class VehicleInputFilter {
+    private settings: VehicleHandling['response'];
+    private steeringSpeed: number = 0;
+    private state: VehicleInput = { ...NEUTRAL_VEHICLE_INPUT };
+
+    constructor(settings: VehicleHandling['response']) {
+        this.settings = settings;
+    }
+
+    public setSettings(settings: VehicleHandling['response']): void {
+        this.settings = settings;
+    }
+
+    /**
+     * @param steeringSpeed Vitesse de braquage vers la butée en unités de commande par seconde
+     */
+    public setSteeringSpeed(steeringSpeed: number): void {
+        this.steeringSpeed = steeringSpeed;
+    }
+
+    /**
+     * Rapproche les commandes lissées des commandes demandées (appelé à chaque pas fixe)
+     * @param speedRatio Vitesse de la voiture rapportée à sa vitesse maximale, de 0 à 1
+     */
+    public update(source: CarInputSource, speedRatio: number, deltaTime: number): VehicleInput {
+        const config = this.settings;
+        const state = this.state;
+
+        // Le braquage demandé diminue avec la vitesse ; revenir vers le centre ou changer de côté
+        // se fait à la vitesse de retour
+        const speedFactor = THREE.MathUtils.lerp(1, config.highSpeedSteering, THREE.MathUtils.clamp(speedRatio, 0, 1));
+        const steer = THREE.MathUtils.clamp(source.getSteering(), -1, 1) * speedFactor;
+        const isReturning = Math.abs(steer) < Math.abs(state.steer) || steer * state.steer < 0;
+        const steeringSpeed = isReturning ? config.returnSpeed : this.steeringSpeed;
+        state.steer = VehicleInputFilter.approach(state.steer, steer, steeringSpeed * deltaTime);
+
+        const throttle = THREE.MathUtils.clamp(source.getThrottle(), 0, 1);
+        const throttleSpeed = throttle > state.throttle ? config.throttleRise : config.throttleRelease;
+        state.throttle = VehicleInputFilter.approach(state.throttle, throttle, throttleSpeed * deltaTime);
+
+        const brake = THREE.MathUtils.clamp(source.getBrake(), 0, 1);
+        const brakeSpeed = brake > state.brake ? config.brakeRise : config.brakeRelease;
+        state.brake = VehicleInputFilter.approach(state.brake, brake, brakeSpeed * deltaTime);
+
+        // Le frein à main reste tout-ou-rien pour déclencher les drifts sans délai
+        state.handbrake = source.isHandbrakePressed();
+        return state;
+    }
+
+    private static approach(current: number, target: number, maxStep: number): number {
+        return current + THREE.MathUtils.clamp(target - current, -maxStep, maxStep);
+    }
+
+    public getState(): VehicleInput {
+        return { ...this.state };
+    }
+
+    public setState(state: VehicleInput): void {
+        this.state = { ...state };
+    }
+
+    public reset(): void {
+        this.state = { ...NEUTRAL_VEHICLE_INPUT };
+    }
+}
@@ -10,6 +10,7 @@ const SpeedShader = {
     uniforms: {
         'tDiffuse': { value: null },
         'speed': { value: 0.0 },
+        'boost': { value: 0.0 },
         'time': { value: 0.0 }
     },
     vertexShader: `
@@ -22,6 +23,7 @@ const SpeedShader = {
     fragmentShader: `
         uniform sampler2D tDiffuse;
         uniform float speed;
+        uniform float boost;
         uniform float time;
         varying vec2 vUv;
 
@@ -31,7 +33,7 @@ const SpeedShader = {
             
             // Effet de distorsion radiale basé sur la vitesse
             float dist = distance(uv, center);
-            float strength = speed * 0.05;
+            float strength = speed * 0.05 + boost * 0.15;
             vec2 offset = normalize(uv - center) * dist * strength;
             
             // Vignettage dynamique
@@ -42,7 +44,11 @@ const SpeedShader = {
             vec4 cg = texture2D(tDiffuse, uv);
             vec4 cb = texture2D(tDiffuse, uv - offset * 0.01);
             
-            gl_FragColor = vec4(cr.r, cg.g, cb.b, 1.0) * vignette;
+            // Nitro : lueur orangée pulsée sur les bords de l'écran
+            float pulse = 0.8 + 0.2 * sin(time * 20.0);
+            vec3 glow = vec3(1.0, 0.45, 0.1) * boost * dist * pulse * 0.5;
+            
+            gl_FragColor = vec4(vec3(cr.r, cg.g, cb.b) * vignette + glow, 1.0);
         }
     `
 };
@@ -107,11 +113,15 @@ export class VisualEffects {
         }
     }
 
-    public update(speed: number, isDrifting: boolean, carPosition: THREE.Vector3, carRotation: THREE.Euler) {
+    /**
+     * @param boost Intensité du boost de nitro (0 à 1)
+     */
+    public update(speed: number, isDrifting: boolean, carPosition: THREE.Vector3, carRotation: THREE.Euler, boost: number = 0) {
         const time = this.clock.getElapsedTime();
 
         // Mettre à jour l'effet de vitesse
         this.speedPass.uniforms['speed'].value = Math.min(speed / 30, 1.0);
+        this.speedPass.uniforms['boost'].value = boost;
         this.speedPass.uniforms['time'].value = time;
 
         // Ajuster le bloom en fonction de la vitesse (intensité très réduite)
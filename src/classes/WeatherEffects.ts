@@ -0,0 +1,229 @@
+import * as THREE from 'three';
+import { WeatherSystem } from './WeatherSystem';
+import { WeatherPreset } from '../interfaces/Weather';
+
+interface PrecipitationLayer {
+    object: THREE.Points | THREE.LineSegments;
+    drops: Float32Array;            // Position de chaque goutte ou flocon dans le monde
+    fallSpeed: number;              // Vitesse de chute en m/s
+    streakLength: number;           // Longueur de la traînée en m (0 = point)
+}
+
+/**
+ * Rendu de la météo : pluie ou neige autour de la caméra, brouillard et reflets de la route mouillée.
+ * Suit les transitions du WeatherSystem sans agir sur la physique.
+ */
+export class WeatherEffects {
+    private scene: THREE.Scene;
+    private weather: WeatherSystem;
+    private rain: PrecipitationLayer;
+    private snow: PrecipitationLayer;
+    private fog: THREE.Fog = new THREE.Fog(0xffffff);
+
+    // Brouillard et matériaux du circuit par temps sec
+    private baseFog: THREE.Fog | null = null;
+    private trackMaterials: { material: THREE.MeshStandardMaterial, roughness: number }[] = [];
+    private wetness: number = 0;
+
+    private static readonly EFFECTS_CONFIG = {
+        AREA_SIZE: 80,                      // Côté de la zone de précipitations autour de la caméra en m
+        AREA_HEIGHT: 30,
+        RAIN_DROPS: 6000,
+        RAIN_SPEED: 22,                     // m/s
+        RAIN_STREAK: 0.04,                  // Traînée des gouttes : temps de pose en s
+        RAIN_COLOR: 0xaabbcc,
+        SNOW_FLAKES: 4000,
+        SNOW_SPEED: 2.5,
+        SNOW_SIZE: 0.15,
+        SNOW_COLOR: 0xffffff,
+        WIND_FACTOR: 1.5,                   // Les précipitations dérivent plus vite que la voiture n'est poussée
+        WET_ROUGHNESS_REDUCTION: 0.7,       // Rugosité retirée sur route détrempée (reflets)
+        CLEAR_FOG_NEAR: 400,                // Brouillard équivalent à l'absence de brouillard
+        CLEAR_FOG_FAR: 2000,
+        NIGHT_FOG_BRIGHTNESS: 0.08          // Luminosité du brouillard en pleine nuit
+    };
+
+    constructor(scene: THREE.Scene, weather: WeatherSystem) {
+        const config = WeatherEffects.EFFECTS_CONFIG;
+        this.scene = scene;
+        this.weather = weather;
+
+        this.rain = this.createLayer(
+            config.RAIN_DROPS,
+            config.RAIN_SPEED,
+            config.RAIN_SPEED * config.RAIN_STREAK,
+            new THREE.LineBasicMaterial({ color: config.RAIN_COLOR, transparent: true, opacity: 0.5, depthWrite: false })
+        );
+        this.snow = this.createLayer(
+            config.SNOW_FLAKES,
+            config.SNOW_SPEED,
+            0,
+            new THREE.PointsMaterial({ color: config.SNOW_COLOR, size: config.SNOW_SIZE, transparent: true, opacity: 0.9, depthWrite: false })
+        );
+    }
+
+    private createLayer(
+        count: number,
+        fallSpeed: number,
+        streakLength: number,
+        material: THREE.LineBasicMaterial | THREE.PointsMaterial
+    ): PrecipitationLayer {
+        const config = WeatherEffects.EFFECTS_CONFIG;
+        const drops = new Float32Array(count * 3);
+        for (let i = 0; i < count; i++) {
+            drops[i * 3] = (Math.random() - 0.5) * config.AREA_SIZE;
+            drops[i * 3 + 1] = Math.random() * config.AREA_HEIGHT;
+            drops[i * 3 + 2] = (Math.random() - 0.5) * config.AREA_SIZE;
+        }
+
+        // Deux sommets par goutte pour les traînées, un par flocon
+        const verticesPerDrop = streakLength > 0 ? 2 : 1;
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(count * 3 * verticesPerDrop), 3));
+
+        const object = streakLength > 0
+            ? new THREE.LineSegments(geometry, material)
+            : new THREE.Points(geometry, material as THREE.PointsMaterial);
+        object.name = 'weatherPrecipitation';
+        object.frustumCulled = false;
+        object.visible = false;
+        this.scene.add(object);
+
+        return { object, drops, fallSpeed, streakLength };
+    }
+
+    /**
+     * Mémorise le brouillard et les matériaux du circuit (après leur mise en place)
+     */
+    public setTrack(trackModel: THREE.Object3D): void {
+        this.baseFog = this.scene.fog instanceof THREE.Fog ? this.scene.fog : null;
+
+        this.trackMaterials = [];
+        trackModel.traverse((child) => {
+            if (!(child instanceof THREE.Mesh)) return;
+            const materials = Array.isArray(child.material) ? child.material : [child.material];
+            materials.forEach((material) => {
+                if (material instanceof THREE.MeshStandardMaterial && !this.trackMaterials.some(entry => entry.material === material)) {
+                    this.trackMaterials.push({ material, roughness: material.roughness });
+                }
+            });
+        });
+        this.wetness = 0;
+    }
+
+    /**
+     * @param center Position de la caméra suivie : les précipitations l'entourent
+     * @param skyColor Couleur du ciel à l'horizon, celle du brouillard par temps clair
+     * @param daylight Clarté de 0 (nuit) à 1 (plein jour)
+     */
+    public update(deltaTime: number, center: THREE.Vector3, skyColor: THREE.Color, daylight: number): void {
+        const wind = this.weather.getWind();
+        this.updateLayer(this.rain, this.getPrecipitation('rain'), deltaTime, center, wind);
+        this.updateLayer(this.snow, this.getPrecipitation('snow'), deltaTime, center, wind);
+        this.updateFog(skyColor, daylight);
+        this.updateWetness();
+    }
+
+    private getPrecipitation(type: WeatherPreset['precipitation']): number {
+        return this.weather.blend(preset => preset.precipitation === type ? preset.precipitationDensity : 0);
+    }
+
+    private updateLayer(layer: PrecipitationLayer, amount: number, deltaTime: number, center: THREE.Vector3, wind: { x: number, z: number }): void {
+        const config = WeatherEffects.EFFECTS_CONFIG;
+        const count = Math.floor(layer.drops.length / 3 * amount);
+        layer.object.visible = count > 0;
+        if (!layer.object.visible) return;
+
+        const driftX = wind.x * config.WIND_FACTOR;
+        const driftZ = wind.z * config.WIND_FACTOR;
+        const attribute = layer.object.geometry.getAttribute('position') as THREE.BufferAttribute;
+        const vertices = attribute.array as Float32Array;
+        const verticesPerDrop = layer.streakLength > 0 ? 2 : 1;
+        const drops = layer.drops;
+
+        for (let i = 0; i < count; i++) {
+            const index = i * 3;
+            // Les gouttes qui sortent de la zone réapparaissent de l'autre côté
+            const x = center.x + WeatherEffects.wrap(drops[index] + driftX * deltaTime - center.x, config.AREA_SIZE);
+            const y = center.y + WeatherEffects.wrap(drops[index + 1] - layer.fallSpeed * deltaTime - center.y, config.AREA_HEIGHT);
+            const z = center.z + WeatherEffects.wrap(drops[index + 2] + driftZ * deltaTime - center.z, config.AREA_SIZE);
+
+            drops[index] = x;
+            drops[index + 1] = y;
+            drops[index + 2] = z;
+
+            const vertex = i * 3 * verticesPerDrop;
+            vertices[vertex] = x;
+            vertices[vertex + 1] = y;
+            vertices[vertex + 2] = z;
+            if (verticesPerDrop === 2) {
+                // Traînée orientée selon la trajectoire de la goutte
+                const streak = layer.streakLength / layer.fallSpeed;
+                vertices[vertex + 3] = x - driftX * streak;
+                vertices[vertex + 4] = y + layer.streakLength;
+                vertices[vertex + 5] = z - driftZ * streak;
+            }
+        }
+
+        layer.object.geometry.setDrawRange(0, count * verticesPerDrop);
+        attribute.needsUpdate = true;
+    }
+
+    /**
+     * Ramène un écart dans l'intervalle [-size / 2, size / 2[
+     */
+    private static wrap(offset: number, size: number): number {
+        return ((offset + size / 2) % size + size) % size - size / 2;
+    }
+
+    /**
+     * Brouillard interpolé entre celui du circuit et celui de la météo, assombri la nuit
+     */
+    private updateFog(skyColor: THREE.Color, daylight: number): void {
+        const config = WeatherEffects.EFFECTS_CONFIG;
+        const { from, to, blend } = this.weather.getPresets();
+        if (!from.fog && !to.fog && !this.baseFog) {
+            this.scene.fog = null;
+            return;
+        }
+
+        const brightness = config.NIGHT_FOG_BRIGHTNESS + (1 - config.NIGHT_FOG_BRIGHTNESS) * daylight;
+        const base = this.baseFog
+            ? { color: this.baseFog.color.clone().multiplyScalar(brightness), near: this.baseFog.near, far: this.baseFog.far }
+            : { color: skyColor, near: config.CLEAR_FOG_NEAR, far: config.CLEAR_FOG_FAR };
+        const getFog = (preset: WeatherPreset) => preset.fog
+            ? { color: new THREE.Color(preset.fog.color).multiplyScalar(brightness), near: preset.fog.near, far: preset.fog.far }
+            : base;
+        const start = getFog(from);
+        const end = getFog(to);
+
+        this.fog.color.copy(start.color).lerp(end.color, blend);
+        this.fog.near = THREE.MathUtils.lerp(start.near, end.near, blend);
+        this.fog.far = THREE.MathUtils.lerp(start.far, end.far, blend);
+        this.scene.fog = this.fog;
+    }
+
+    /**
+     * Route mouillée : les matériaux du circuit deviennent plus lisses et reflètent davantage
+     */
+    private updateWetness(): void {
+        const wetness = this.weather.blend(preset => preset.wetness);
+        if (Math.abs(wetness - this.wetness) < 0.01) return;
+
+        this.wetness = wetness;
+        const reduction = 1 - wetness * WeatherEffects.EFFECTS_CONFIG.WET_ROUGHNESS_REDUCTION;
+        this.trackMaterials.forEach(({ material, roughness }) => {
+            material.roughness = roughness * reduction;
+        });
+    }
+
+    public dispose(): void {
+        [this.rain, this.snow].forEach((layer) => {
+            layer.object.removeFromParent();
+            layer.object.geometry.dispose();
+            (layer.object.material as THREE.Material).dispose();
+        });
+        this.trackMaterials.forEach(({ material, roughness }) => material.roughness = roughness);
+        this.scene.fog = this.baseFog;
+    }
+}
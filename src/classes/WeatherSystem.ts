@@ -0,0 +1,114 @@
+import { WeatherSnapshot } from '../interfaces/Replay';
+import { SurfaceType } from '../interfaces/TrackSurface';
+import { DEFAULT_WEATHER_TYPE, WEATHER_PRESETS, WeatherChange, WeatherPreset, WeatherType } from '../interfaces/Weather';
+
+/**
+ * Météo de la course : adhérence par revêtement et vent appliqués aux voitures,
+ * avec des transitions progressives. Avancée à chaque pas fixe de la physique,
+ * son état fait partie de l'instantané de la simulation (replays et parties en ligne).
+ */
+export class WeatherSystem {
+    private initialWeather: WeatherType = DEFAULT_WEATHER_TYPE;
+    private forecast: WeatherChange[] = [];
+    private state: WeatherSnapshot = WeatherSystem.createInitialState(DEFAULT_WEATHER_TYPE);
+
+    private static createInitialState(weather: WeatherType): WeatherSnapshot {
+        return {
+            from: weather,
+            to: weather,
+            progress: 1,
+            duration: 0,
+            raceTime: 0
+        };
+    }
+
+    /**
+     * Météo choisie pour la course et changements prévus par le circuit
+     */
+    public configure(weather: WeatherType, forecast: WeatherChange[] = []): void {
+        this.initialWeather = weather;
+        this.forecast = [...forecast].sort((a, b) => a.time - b.time);
+        this.reset();
+    }
+
+    /**
+     * Retour à la météo du départ
+     */
+    public reset(): void {
+        this.setState(WeatherSystem.createInitialState(this.initialWeather));
+    }
+
+    public update(deltaTime: number): void {
+        const state = this.state;
+        const previousTime = state.raceTime;
+        state.raceTime += deltaTime;
+
+        this.forecast.forEach((change) => {
+            if (change.time > previousTime && change.time <= state.raceTime) {
+                this.setWeather(change.weather, change.duration);
+            }
+        });
+
+        if (state.progress < 1) {
+            state.progress = state.duration > 0 ? Math.min(1, state.progress + deltaTime / state.duration) : 1;
+        }
+    }
+
+    /**
+     * Passe à une autre météo, progressivement sur la durée donnée
+     * @param duration Durée de la transition en s (0 = immédiat)
+     */
+    public setWeather(weather: WeatherType, duration: number = 0): void {
+        // Une transition interrompue repart de la météo la plus visible
+        const from = this.state.progress < 0.5 ? this.state.from : this.state.to;
+        this.state.from = from;
+        this.state.to = weather;
+        this.state.duration = duration;
+        this.state.progress = duration > 0 && from !== weather ? 0 : 1;
+    }
+
+    /**
+     * Météo vers laquelle on va (ou en cours)
+     */
+    public getWeather(): WeatherType {
+        return this.state.to;
+    }
+
+    public getPresets(): { from: WeatherPreset, to: WeatherPreset, blend: number } {
+        return {
+            from: WEATHER_PRESETS[this.state.from],
+            to: WEATHER_PRESETS[this.state.to],
+            blend: this.state.progress
+        };
+    }
+
+    /**
+     * Valeur numérique interpolée entre les deux météos de la transition
+     */
+    public blend(value: (preset: WeatherPreset) => number): number {
+        const { from, to, blend } = this.getPresets();
+        return value(from) + (value(to) - value(from)) * blend;
+    }
+
+    public getGripMultiplier(surface: SurfaceType): number {
+        return this.blend(preset => preset.grip[surface]);
+    }
+
+    /**
+     * Vent dans le repère du monde en m/s
+     */
+    public getWind(): { x: number, z: number } {
+        return {
+            x: this.blend(preset => preset.wind.x),
+            z: this.blend(preset => preset.wind.z)
+        };
+    }
+
+    public getState(): WeatherSnapshot {
+        return { ...this.state };
+    }
+
+    public setState(state: WeatherSnapshot): void {
+        this.state = { ...state };
+    }
+}
@@ -0,0 +1,55 @@
+export type AISkillLevel = 'easy' | 'medium' | 'hard';
+
+export interface AISkill {
+    maxSpeed: number;           // Vitesse maximale visée en m/s
+    cornerSpeedFactor: number;  // Part de la vitesse limite en virage utilisée (0-1)
+    lateralGrip: number;        // Accélération latérale supportée en m/s²
+    lookaheadBase: number;      // Distance de visée minimale en m
+    lookaheadSpeedFactor: number; // Distance de visée ajoutée par m/s de vitesse
+    brakingDistance: number;    // Distance d'anticipation des virages en m
+    steeringGain: number;       // Gain de direction (réactivité)
+    steeringWobble: number;     // Imprécision de direction (0 = parfaite)
+}
+
+export const AI_SKILL_PRESETS: Record<AISkillLevel, AISkill> = {
+    easy: {
+        maxSpeed: 28,
+        cornerSpeedFactor: 0.7,
+        lateralGrip: 12,
+        lookaheadBase: 6,
+        lookaheadSpeedFactor: 0.5,
+        brakingDistance: 30,
+        steeringGain: 1.6,
+        steeringWobble: 0.08
+    },
+    medium: {
+        maxSpeed: 38,
+        cornerSpeedFactor: 0.85,
+        lateralGrip: 14,
+        lookaheadBase: 5,
+        lookaheadSpeedFactor: 0.45,
+        brakingDistance: 35,
+        steeringGain: 2.0,
+        steeringWobble: 0.04
+    },
+    hard: {
+        maxSpeed: 50,
+        cornerSpeedFactor: 0.95,
+        lateralGrip: 16,
+        lookaheadBase: 4,
+        lookaheadSpeedFactor: 0.4,
+        brakingDistance: 40,
+        steeringGain: 2.4,
+        steeringWobble: 0.01
+    }
+};
+
+export interface OpponentsConfig {
+    count: number;
+    skill: AISkillLevel;
+}
+
+export const DEFAULT_OPPONENTS_CONFIG: OpponentsConfig = {
+    count: 3,
+    skill: 'medium'
+};
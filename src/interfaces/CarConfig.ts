@@ -1,8 +1,11 @@
+/**
+ * Performances de la voiture, relues à chaque pas de physique
+ */
 export interface CarConfig {
-    maxSpeed: number;
-    acceleration: number;
-    deceleration: number;
-    rotationSpeed: number;
+    maxSpeed: number;       // Vitesse maximale en m/s
+    acceleration: number;   // Accélération à pleine charge en m/s²
+    deceleration: number;   // Décélération au freinage en m/s²
+    rotationSpeed: number;  // Vitesse de braquage des roues en rad/s
     position?: {
         x: number;
         y: number;
@@ -12,9 +15,9 @@ export interface CarConfig {
 
 export const DEFAULT_CAR_CONFIG: CarConfig = {
     maxSpeed: 30,        // Vitesse maximale en m/s
-    acceleration: 1,     // Accélération en m/s²
-    deceleration: 0.5,   // Décélération en m/s²
-    rotationSpeed: 0.1,  // Vitesse de rotation en rad/s
+    acceleration: 4,     // Accélération en m/s²
+    deceleration: 8,     // Décélération en m/s²
+    rotationSpeed: 2,    // Vitesse de braquage en rad/s
     position: {
         x: 0,
         y: 1,
@@ -0,0 +1,21 @@
+import { ReplayInputFrame } from './Replay';
+
+/**
+ * Source des commandes de pilotage d'une voiture (clavier, IA...)
+ */
+export interface CarInputSource {
+    getThrottle(): number;          // Accélérateur de 0 à 1
+    getBrake(): number;             // Frein / marche arrière de 0 à 1
+    getSteering(): number;          // Direction de -1 (gauche) à 1 (droite)
+    isHandbrakePressed(): boolean;
+    isResetPressed(): boolean;      // Replacer la voiture sur la piste
+    isNitroPressed(): boolean;
+    enable(): void;
+    disable(): void;
+}
+
+/**
+ * Commandes d'une voiture pilotée par script, en fonction du temps de simulation en s
+ * (les commandes absentes sont au repos)
+ */
+export type InputScript = (time: number) => Partial<ReplayInputFrame>;
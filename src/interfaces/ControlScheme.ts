@@ -0,0 +1,90 @@
+/**
+ * Actions du joueur, chacune associée à une touche
+ */
+export const CONTROL_ACTIONS = ['accelerate', 'brake', 'steerLeft', 'steerRight', 'handbrake', 'nitro', 'reset', 'toggleCamera'] as const;
+export type ControlAction = typeof CONTROL_ACTIONS[number];
+
+export const CONTROL_ACTION_NAMES: Record<ControlAction, string> = {
+    accelerate: 'Accélérer',
+    brake: 'Freiner / reculer',
+    steerLeft: 'Tourner à gauche',
+    steerRight: 'Tourner à droite',
+    handbrake: 'Frein à main',
+    nitro: 'Nitro',
+    reset: 'Replacer la voiture',
+    toggleCamera: 'Caméra libre'
+};
+
+/**
+ * Touches d'un joueur (valeurs de KeyboardEvent.key en minuscules, ' ' s'écrit 'space')
+ */
+export type ControlScheme = Record<ControlAction, string>;
+
+export const CONTROL_PRESET_TYPES = ['azerty', 'qwerty', 'arrows'] as const;
+export type ControlPresetType = typeof CONTROL_PRESET_TYPES[number];
+
+export interface ControlPreset {
+    name: string;
+    scheme: ControlScheme;
+}
+
+export const CONTROL_PRESETS: Record<ControlPresetType, ControlPreset> = {
+    azerty: {
+        name: 'ZQSD (AZERTY)',
+        scheme: {
+            accelerate: 'z',
+            brake: 's',
+            steerLeft: 'q',
+            steerRight: 'd',
+            handbrake: 'space',
+            nitro: 'shift',
+            reset: 'r',
+            toggleCamera: 'o'
+        }
+    },
+    qwerty: {
+        name: 'WASD (QWERTY)',
+        scheme: {
+            accelerate: 'w',
+            brake: 's',
+            steerLeft: 'a',
+            steerRight: 'd',
+            handbrake: 'space',
+            nitro: 'shift',
+            reset: 'r',
+            toggleCamera: 'o'
+        }
+    },
+    arrows: {
+        name: 'Flèches',
+        scheme: {
+            accelerate: 'arrowup',
+            brake: 'arrowdown',
+            steerLeft: 'arrowleft',
+            steerRight: 'arrowright',
+            handbrake: 'enter',
+            nitro: 'control',
+            reset: 'backspace',
+            toggleCamera: 'p'
+        }
+    }
+};
+
+// Joueur 1 : ZQSD (clavier AZERTY)
+export const PLAYER_ONE_CONTROLS: ControlScheme = CONTROL_PRESETS.azerty.scheme;
+
+// Joueur 2 : flèches
+export const PLAYER_TWO_CONTROLS: ControlScheme = CONTROL_PRESETS.arrows.scheme;
+
+// Schéma de touches par défaut de chaque joueur en écran partagé
+export const PLAYER_CONTROL_SCHEMES: ControlScheme[] = [PLAYER_ONE_CONTROLS, PLAYER_TWO_CONTROLS];
+
+export const CONTROL_STORAGE_KEY = 'hotwheels-controls';
+
+/**
+ * Touche associée à plusieurs actions (d'un même joueur ou de joueurs partageant le clavier)
+ */
+export interface BindingConflict {
+    key: string;
+    bindings: { player: number, action: ControlAction }[];
+}
@@ -0,0 +1,36 @@
+import { ControlAction } from './ControlScheme';
+
+// Actions déclenchées par un bouton de la manette (l'accélérateur, le frein et la direction sont analogiques)
+export type GamepadButtonAction = Extract<ControlAction, 'handbrake' | 'nitro' | 'reset' | 'toggleCamera'>;
+
+/**
+ * Réglages d'une manette à la disposition standard (Xbox, PlayStation...)
+ */
+export interface GamepadConfig {
+    steeringAxis: number;           // Axe horizontal du stick gauche
+    throttleButton: number;         // Gâchette droite (valeur analogique)
+    brakeButton: number;            // Gâchette gauche
+    buttons: Record<GamepadButtonAction, number>;
+    stickDeadZone: number;          // Part de la course du stick ignorée autour du centre (0-1)
+    triggerDeadZone: number;        // Part de la course des gâchettes ignorée au repos (0-1)
+    steeringCurve: number;          // Exposant de la réponse du stick (1 = linéaire, > 1 = plus doux au centre)
+    throttleCurve: number;          // Exposant de la réponse des gâchettes
+    rumble: boolean;                // Vibrations aux chocs et en drift
+}
+
+export const DEFAULT_GAMEPAD_CONFIG: GamepadConfig = {
+    steeringAxis: 0,
+    throttleButton: 7,
+    brakeButton: 6,
+    buttons: {
+        handbrake: 0,               // A / Croix
+        nitro: 2,                   // X / Carré
+        reset: 8,                   // Back / Select
+        toggleCamera: 3             // Y / Triangle
+    },
+    stickDeadZone: 0.15,
+    triggerDeadZone: 0.05,
+    steeringCurve: 1.5,
+    throttleCurve: 1,
+    rumble: true
+};
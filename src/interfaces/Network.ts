@@ -0,0 +1,72 @@
+import { CarSnapshot, ReplayInputFrame, WeatherSnapshot } from './Replay';
+import { WeatherType } from './Weather';
+
+export interface NetworkConfig {
+    port: number;
+    tickRate: number;               // Pas de simulation du serveur par seconde (identique au pas fixe du jeu)
+    snapshotRate: number;           // États envoyés aux clients par seconde
+    interpolationDelay: number;     // Retard d'affichage des voitures distantes en secondes
+    maxPlayersPerRoom: number;
+    readyTimeout: number;           // Attente maximale du chargement des joueurs en secondes
+}
+
+export const DEFAULT_NETWORK_CONFIG: NetworkConfig = {
+    port: 8080,
+    tickRate: 60,
+    snapshotRate: 20,
+    interpolationDelay: 0.1,
+    maxPlayersPerRoom: 4,
+    readyTimeout: 30
+};
+
+export type RoomStatus = 'waiting' | 'loading' | 'racing';
+
+export interface RoomPlayer {
+    id: string;
+    name: string;
+    slot: number;                   // Place sur la grille de départ
+    vehicleId: string;              // Voiture choisie au garage
+    isHost: boolean;
+}
+
+export interface RoomInfo {
+    id: string;
+    name: string;
+    status: RoomStatus;
+    trackId: string;
+    weather: WeatherType;           // Météo au départ, choisie par le créateur du salon
+    players: RoomPlayer[];
+    maxPlayers: number;
+}
+
+/**
+ * État d'une voiture simulée par le serveur
+ */
+export interface NetworkCarState {
+    playerId: string;
+    lastInput: number;              // Dernière commande du joueur appliquée par le serveur
+    input: ReplayInputFrame;
+    state: CarSnapshot;
+}
+
+// Messages du client vers le serveur
+export type ClientMessage =
+    | { type: 'listRooms' }
+    | { type: 'createRoom'; roomName: string; playerName: string; vehicleId: string; trackId: string; weather: WeatherType }
+    | { type: 'joinRoom'; roomId: string; playerName: string; vehicleId: string }
+    | { type: 'leaveRoom' }
+    | { type: 'startRace' }
+    | { type: 'ready' }
+    | { type: 'input'; sequence: number; input: ReplayInputFrame };
+
+// Messages du serveur vers le client
+export type ServerMessage =
+    | { type: 'welcome'; playerId: string }
+    | { type: 'rooms'; rooms: RoomInfo[] }
+    | { type: 'roomJoined'; room: RoomInfo }
+    | { type: 'roomUpdated'; room: RoomInfo }
+    | { type: 'roomLeft' }
+    | { type: 'raceStarting'; room: RoomInfo }
+    | { type: 'raceStart' }
+    | { type: 'snapshot'; tick: number; cars: NetworkCarState[]; weather: WeatherSnapshot }
+    | { type: 'error'; message: string };
@@ -0,0 +1,15 @@
+export interface RaceConfig {
+    laps: number;
+    gridDuration: number;       // Durée de la présentation sur la grille en secondes
+    countdownDuration: number;  // Durée du compte à rebours en secondes
+    resultsDelay: number;       // Délai entre l'arrivée et l'affichage des résultats en secondes
+    finishTimeout: number;      // Temps laissé aux autres joueurs après la première arrivée en secondes
+}
+
+export const DEFAULT_RACE_CONFIG: RaceConfig = {
+    laps: 3,
+    gridDuration: 2,
+    countdownDuration: 3,
+    resultsDelay: 3,
+    finishTimeout: 30
+};
@@ -0,0 +1,95 @@
+import { SurfaceType } from './TrackSurface';
+import { WeatherType } from './Weather';
+import { VehicleInput } from './VehicleInput';
+import { DriftState } from '../classes/DriftScorer';
+
+export interface WheelSnapshot {
+    suspensionLength: number;
+    suspensionRelativeVelocity: number;
+    rotation: number;
+    deltaRotation: number;
+    steering: number;
+    sideImpulse: number;
+    forwardImpulse: number;
+    skidInfo: number;
+    sliding: boolean;
+    isInContact: boolean;
+    frictionSlip: number;
+    materialFriction: number;
+    surface: SurfaceType | null;    // Revêtement sous la roue (null en l'air)
+}
+
+export interface RespawnSnapshot {
+    safePosition: [number, number, number] | null;     // Dernière position saine sur la piste
+    safeYaw: number;
+    trackSample: number;
+    safeTimer: number;
+    flippedTime: number;
+    offTrackTime: number;
+    stuckTime: number;
+    cooldown: number;
+    wasResetPressed: boolean;
+}
+
+export interface NitroSnapshot {
+    charge: number;                 // Jauge de 0 à 1
+    activeTime: number;             // Temps de boost restant en s
+    airTime: number;                // Temps passé en l'air depuis le dernier contact
+    wasNitroPressed: boolean;
+}
+
+export interface DriftSnapshot {
+    state: DriftState;
+    timeSinceDrift: number;
+    committedComboPoints: number;
+    hasPendingCombo: boolean;
+}
+
+export interface CarSnapshot {
+    position: [number, number, number];
+    quaternion: [number, number, number, number];
+    velocity: [number, number, number];
+    angularVelocity: [number, number, number];
+    linearDamping: number;
+    angularDamping: number;
+    isDriftDetected: boolean;
+    randomState: number;
+    wheels: WheelSnapshot[];
+    respawn: RespawnSnapshot | null;    // null sans replacement automatique
+    nitro: NitroSnapshot;
+    drift: DriftSnapshot;           // Drift et combo en cours (la nitro se remplit en drift)
+    input: VehicleInput;            // Commandes lissées
+}
+
+export interface WeatherSnapshot {
+    from: WeatherType;
+    to: WeatherType;
+    progress: number;               // Avancement de la transition de 0 à 1
+    duration: number;               // Durée de la transition en s
+    raceTime: number;               // Temps écoulé depuis la mise en grille en s (changements prévus)
+}
+
+export interface SimulationSnapshot {
+    worldTime: number;
+    cars: CarSnapshot[];
+    weather: WeatherSnapshot;
+}
+
+export interface ReplayInputFrame {
+    throttle: number;
+    brake: number;
+    steering: number;
+    handbrake: boolean;
+    reset: boolean;
+    nitro: boolean;
+}
+
+export interface ReplayData {
+    version: number;
+    trackId: string;
+    timestep: number;
+    carCount: number;
+    frameCount: number;
+    initialState: SimulationSnapshot;
+    inputs: Uint8Array;     // frameCount * carCount * ReplaySystem.BYTES_PER_INPUT
+}
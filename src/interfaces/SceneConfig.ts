@@ -1,7 +1,21 @@
 import { CarConfig } from "./CarConfig";
+import { RaceConfig, DEFAULT_RACE_CONFIG } from "./RaceConfig";
+import { OpponentsConfig, DEFAULT_OPPONENTS_CONFIG } from "./AIConfig";
+import { TrackManifest, DEFAULT_TRACK_MANIFEST } from "./TrackManifest";
+import { VehicleDefinition, DEFAULT_VEHICLE } from "./VehicleDefinition";
+import { WeatherType, DEFAULT_WEATHER_TYPE } from "./Weather";
+import { TimeOfDayConfig, DEFAULT_TIME_OF_DAY_CONFIG } from "./TimeOfDay";
 
 export interface SceneConfig {
+    players: number;    // Joueurs humains (2 = écran partagé)
+    track: TrackManifest;
+    vehicles: VehicleDefinition[];          // Voiture de chaque joueur local (celle du joueur 1 sert aussi à l'IA)
+    vehicleCatalog: VehicleDefinition[];    // Voitures que peuvent choisir les joueurs en ligne
+    weather: WeatherType;                   // Météo au départ de la course
+    timeOfDay: TimeOfDayConfig;             // Heure de la course et écoulement du temps
     car: CarConfig;
+    race: RaceConfig;
+    opponents: OpponentsConfig;
     renderer: {
         antialias: boolean;
         pixelRatio: number;
@@ -18,17 +32,20 @@ export interface SceneConfig {
 }
 
 export const DEFAULT_SCENE_CONFIG: SceneConfig = {
+    players: 1,
+    track: DEFAULT_TRACK_MANIFEST,
+    vehicles: [DEFAULT_VEHICLE],
+    vehicleCatalog: [DEFAULT_VEHICLE],
+    weather: DEFAULT_WEATHER_TYPE,
+    timeOfDay: DEFAULT_TIME_OF_DAY_CONFIG,
     car: {
-        maxSpeed: 50,        // Augmenté de 30 à 50 m/s (~180 km/h)
-        acceleration: 8,     // Augmenté de 3 à 8 m/s²
-        deceleration: 1,     // Augmenté de 0.5 à 1
-        rotationSpeed: 0.2,  // Doublé de 0.1 à 0.2
-        position: {
-            x: 0,
-            y:5,
-            z: 0
-        }
+        maxSpeed: 50,        // Vitesse maximale en m/s (180 km/h)
+        acceleration: 4,     // Accélération en m/s² (0 à 100 km/h en 7 s environ)
+        deceleration: 12,    // Décélération au freinage en m/s²
+        rotationSpeed: 2.5   // Vitesse de braquage des roues en rad/s
     },
+    race: DEFAULT_RACE_CONFIG,
+    opponents: DEFAULT_OPPONENTS_CONFIG,
     renderer: {
         antialias: true,
         pixelRatio: 2,
@@ -0,0 +1,79 @@
+export interface TimeOfDayConfig {
+    hour: number;               // Heure au départ de la course (0 à 24)
+    timeScale: number;          // Heures de jeu écoulées par minute réelle (0 = heure figée)
+    sunrise: number;            // Lever du soleil en heures
+    sunset: number;             // Coucher du soleil en heures
+}
+
+export const DEFAULT_TIME_OF_DAY_CONFIG: TimeOfDayConfig = {
+    hour: 14,
+    timeScale: 0,
+    sunrise: 6.5,
+    sunset: 19.5
+};
+
+export const TIME_OF_DAY_TYPES = ['day', 'dusk', 'night'] as const;
+
+export type TimeOfDayType = typeof TIME_OF_DAY_TYPES[number];
+
+// Heures de départ proposées dans les menus
+export const TIME_OF_DAY_PRESETS: Record<TimeOfDayType, { name: string, hour: number }> = {
+    day: { name: 'Jour', hour: 14 },
+    dusk: { name: 'Crépuscule', hour: 19.8 },
+    night: { name: 'Nuit', hour: 23 }
+};
+
+/**
+ * Éclairage et ciel à une heure donnée ; les valeurs sont interpolées entre deux étapes
+ */
+export interface SkyKeyframe {
+    hour: number;
+    zenith: string;             // Couleur du ciel au-dessus de la caméra
+    horizon: string;            // Couleur du ciel à l'horizon (remplacée par celle du circuit en plein jour)
+    sunColor: string;           // Soleil le jour, lune la nuit
+    sunIntensity: number;       // Multiplicateur de l'intensité du soleil du circuit
+    skyLight: string;           // Lumière d'hémisphère venant du ciel
+    groundLight: string;        // Lumière d'hémisphère renvoyée par le sol
+    ambientIntensity: number;   // Multiplicateur de l'intensité ambiante du circuit
+    daylight: number;           // Clarté de 0 (nuit noire) à 1 (plein jour) : phares, étoiles, brouillard
+}
+
+// Étapes de la journée, par heure croissante (la dernière rejoint la première à minuit)
+export const SKY_KEYFRAMES: SkyKeyframe[] = [
+    {
+        hour: 0, zenith: '#02040c', horizon: '#0b1226', sunColor: '#9fb4ff', sunIntensity: 0.12,
+        skyLight: '#2a3a66', groundLight: '#05060a', ambientIntensity: 0.2, daylight: 0
+    },
+    {
+        hour: 5, zenith: '#0a1030', horizon: '#2a2a4a', sunColor: '#9fb4ff', sunIntensity: 0.1,
+        skyLight: '#33406e', groundLight: '#0a0a10', ambientIntensity: 0.25, daylight: 0.1
+    },
+    {
+        hour: 6.5, zenith: '#3a5a9a', horizon: '#ff9a5c', sunColor: '#ffb27a', sunIntensity: 0.5,
+        skyLight: '#a0a8d0', groundLight: '#3a2a20', ambientIntensity: 0.6, daylight: 0.5
+    },
+    {
+        hour: 8.5, zenith: '#3f7fd8', horizon: '#a8d4f0', sunColor: '#fff0d8', sunIntensity: 1.6,
+        skyLight: '#dfeeff', groundLight: '#6a5a48', ambientIntensity: 1.4, daylight: 1
+    },
+    {
+        hour: 12, zenith: '#2f6fd0', horizon: '#87ceeb', sunColor: '#ffffff', sunIntensity: 2,
+        skyLight: '#ffffff', groundLight: '#807060', ambientIntensity: 1.6, daylight: 1
+    },
+    {
+        hour: 17.5, zenith: '#3a72c8', horizon: '#a8d0ea', sunColor: '#fff0d0', sunIntensity: 1.7,
+        skyLight: '#f4f0ff', groundLight: '#6a5a48', ambientIntensity: 1.4, daylight: 1
+    },
+    {
+        hour: 19.5, zenith: '#2a3a80', horizon: '#ff7a3c', sunColor: '#ff9050', sunIntensity: 0.6,
+        skyLight: '#c090a8', groundLight: '#3a2418', ambientIntensity: 0.7, daylight: 0.5
+    },
+    {
+        hour: 20.5, zenith: '#101838', horizon: '#4a3050', sunColor: '#b0a0ff', sunIntensity: 0.15,
+        skyLight: '#404878', groundLight: '#0c0a10', ambientIntensity: 0.35, daylight: 0.15
+    },
+    {
+        hour: 22, zenith: '#02040c', horizon: '#0b1226', sunColor: '#9fb4ff', sunIntensity: 0.12,
+        skyLight: '#2a3a66', groundLight: '#05060a', ambientIntensity: 0.2, daylight: 0
+    }
+];
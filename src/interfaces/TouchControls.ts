@@ -0,0 +1,46 @@
+import { ControlAction } from './ControlScheme';
+
+// Actions déclenchées par un bouton de l'écran tactile (la direction passe par le stick ou l'inclinaison)
+export type TouchButtonAction = Extract<ControlAction, 'accelerate' | 'brake' | 'handbrake' | 'nitro' | 'reset' | 'toggleCamera'>;
+
+export const TOUCH_DISPLAY_MODES = ['auto', 'always', 'never'] as const;
+export type TouchDisplayMode = typeof TOUCH_DISPLAY_MODES[number];
+
+export const TOUCH_DISPLAY_NAMES: Record<TouchDisplayMode, string> = {
+    auto: 'Sur écran tactile',
+    always: 'Toujours',
+    never: 'Jamais'
+};
+
+export const TOUCH_STEERING_MODES = ['stick', 'tilt'] as const;
+export type TouchSteeringMode = typeof TOUCH_STEERING_MODES[number];
+
+export const TOUCH_STEERING_NAMES: Record<TouchSteeringMode, string> = {
+    stick: 'Stick virtuel',
+    tilt: "Inclinaison de l'appareil"
+};
+
+/**
+ * Disposition des commandes tactiles du joueur 1, enregistrée dans le navigateur
+ */
+export interface TouchLayout {
+    display: TouchDisplayMode;
+    steering: TouchSteeringMode;
+    steeringSide: 'left' | 'right';     // Côté de l'écran de la direction, les pédales sont de l'autre côté
+    scale: number;                      // Taille des commandes (1 = taille normale)
+    opacity: number;                    // Opacité des commandes (0-1)
+    tiltAngle: number;                  // Inclinaison en degrés donnant le braquage complet
+    deadZone: number;                   // Part de la course du stick ou de l'inclinaison ignorée au centre (0-1)
+}
+
+export const DEFAULT_TOUCH_LAYOUT: TouchLayout = {
+    display: 'auto',
+    steering: 'stick',
+    steeringSide: 'left',
+    scale: 1,
+    opacity: 0.6,
+    tiltAngle: 25,
+    deadZone: 0.1
+};
+
+export const TOUCH_LAYOUT_STORAGE_KEY = 'hotwheels-touch-layout';
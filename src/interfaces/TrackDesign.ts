@@ -0,0 +1,59 @@
+/**
+ * Types de tronçons associés à un point de contrôle de l'éditeur de circuit
+ */
+export const TRACK_PIECE_TYPES = ['straight', 'loop', 'booster', 'jump'] as const;
+export type TrackPieceType = typeof TRACK_PIECE_TYPES[number];
+
+export const TRACK_PIECE_NAMES: Record<TrackPieceType, string> = {
+    straight: 'Route',
+    loop: 'Looping',
+    booster: 'Booster',
+    jump: 'Tremplin'
+};
+
+/**
+ * Point de contrôle de la spline du circuit
+ */
+export interface SplineControlPoint {
+    position: { x: number, y: number, z: number };
+    width: number;                  // Largeur de la piste en m
+    banking: number;                // Dévers en degrés (positif = bord gauche relevé, virage à droite)
+    piece: TrackPieceType;          // Tronçon placé sur ce point
+}
+
+/**
+ * Circuit dessiné dans l'éditeur (fichier JSON enregistré par le joueur).
+ * La spline est toujours fermée ; le départ est donné sur le premier point.
+ */
+export interface TrackDesign {
+    version: number;
+    name: string;
+    laps: number;
+    points: SplineControlPoint[];
+}
+
+export const TRACK_DESIGN_VERSION = 1;
+
+const point = (x: number, z: number, piece: TrackPieceType = 'straight', banking: number = 0): SplineControlPoint => ({
+    position: { x, y: 0, z },
+    width: 12,
+    banking,
+    piece
+});
+
+// Ovale de départ de l'éditeur
+export const DEFAULT_TRACK_DESIGN: TrackDesign = {
+    version: TRACK_DESIGN_VERSION,
+    name: 'Nouveau circuit',
+    laps: 3,
+    points: [
+        point(0, 0),
+        point(0, 60, 'booster'),
+        point(-25, 100, 'straight', 10),
+        point(-60, 100, 'straight', 10),
+        point(-85, 60),
+        point(-85, 0, 'loop'),
+        point(-60, -40, 'straight', 10),
+        point(-25, -40, 'straight', 10)
+    ]
+};
@@ -0,0 +1,22 @@
+import * as THREE from 'three';
+import { Car } from '../classes/Car';
+
+/**
+ * Nœud du modèle de circuit reconnu comme élément de piste
+ */
+export interface TrackElementNode {
+    name: string;
+    box: THREE.Box3;                    // Volume de déclenchement en coordonnées monde
+    direction: THREE.Vector3;           // Sens de la piste (axe +z du nœud)
+    params: Record<string, number>;     // Valeurs numériques des extras glTF du nœud
+}
+
+/**
+ * Élément de piste (booster, looping, tremplin...) appliqué aux voitures présentes dans son volume
+ */
+export interface TrackElement {
+    readonly node: TrackElementNode;
+    apply(car: Car, deltaTime: number): void;   // Appelé à chaque pas de physique
+}
+
+export type TrackElementFactory = (node: TrackElementNode) => TrackElement;
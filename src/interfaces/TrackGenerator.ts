@@ -0,0 +1,23 @@
+/**
+ * Paramètres du générateur de circuits : une même graine et les mêmes paramètres donnent le même tracé
+ */
+export interface TrackGeneratorOptions {
+    seed: number;
+    length: number;                 // Longueur visée du tour en m
+    curviness: number;              // Irrégularité du tracé de 0 (cercle) à 1 (très sinueux)
+    elevation: number;              // Dénivelé maximal en m
+    jumps: number;                  // Nombre de tremplins
+    loops: number;                  // Nombre de loopings
+    width: number;                  // Largeur de la piste en m
+    laps: number;
+}
+
+export const DEFAULT_TRACK_GENERATOR_OPTIONS: Omit<TrackGeneratorOptions, 'seed'> = {
+    length: 700,
+    curviness: 0.6,
+    elevation: 12,
+    jumps: 1,
+    loops: 1,
+    width: 12,
+    laps: 3
+};
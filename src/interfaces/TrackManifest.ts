@@ -0,0 +1,84 @@
+import { WeatherChange } from './Weather';
+import { TrackDesign } from './TrackDesign';
+
+/**
+ * Volume de checkpoint décrit dans le manifeste, pour les circuits dont le modèle n'en contient pas
+ */
+export interface TrackVolume {
+    name: string;
+    index: number;                  // Ordre de passage (ignoré pour la ligne d'arrivée)
+    position: { x: number, y: number, z: number };
+    size: { x: number, y: number, z: number };
+    isFinish?: boolean;
+}
+
+/**
+ * Réglages appliqués aux matériaux du circuit
+ */
+export interface TrackMaterialOverride {
+    roughness?: number;
+    metalness?: number;
+    envMapIntensity?: number;
+    color?: string;
+}
+
+export interface TrackLight {
+    color: string;
+    intensity: number;
+}
+
+/**
+ * Description d'un circuit (fichier JSON dans public/tracks)
+ */
+export interface TrackManifest {
+    id: string;                     // Identifiant stable (fantômes et replays y sont rattachés)
+    name: string;
+    description?: string;
+    model: string;                  // URL du modèle glTF (vide pour un circuit de l'éditeur)
+    laps: number;
+    grid: {
+        position: { x: number, y: number, z: number };    // Première place de la grille
+        heading: number;            // Cap des voitures au départ en degrés (0 = tournées vers -z, voir Car.resetTo)
+    };
+    checkpoints: TrackVolume[];     // Ajoutés aux checkpoints trouvés dans le modèle
+    lighting: {                     // Éclairage en plein jour, atténué selon l'heure de la course
+        ambient: TrackLight;
+        sun: TrackLight & { position: { x: number, y: number, z: number } };     // Position du soleil à midi
+    };
+    sky: {
+        color: string;              // Horizon en plein jour
+        fog?: { color: string, near: number, far: number };
+    };
+    materials: {
+        default: TrackMaterialOverride;
+        surfaces: { [materialName: string]: TrackMaterialOverride };   // Par nom de matériau du modèle
+    };
+    forecast?: WeatherChange[];     // Changements de météo pendant la course
+    design?: TrackDesign;           // Circuit de l'éditeur, construit à la place du modèle glTF
+}
+
+export const TRACK_INDEX_URL = '/tracks/index.json';
+
+// Circuit d'origine, utilisé si le catalogue ne peut pas être chargé
+export const DEFAULT_TRACK_MANIFEST: TrackManifest = {
+    id: 'race',
+    name: 'Circuit Hot Wheels',
+    model: '/models/race/race.glb',
+    laps: 3,
+    grid: {
+        position: { x: 0, y: 5, z: 0 },
+        heading: 0
+    },
+    checkpoints: [],
+    lighting: {
+        ambient: { color: '#ffffff', intensity: 1.5 },
+        sun: { color: '#ffffff', intensity: 2, position: { x: 10, y: 20, z: 10 } }
+    },
+    sky: {
+        color: '#87ceeb'
+    },
+    materials: {
+        default: { roughness: 0.5, metalness: 0.3, envMapIntensity: 1.0 },
+        surfaces: {}
+    }
+};
@@ -0,0 +1,27 @@
+export const SURFACE_TYPES = ['asphalt', 'plastic', 'grass', 'dirt', 'ice', 'sand'] as const;
+
+export type SurfaceType = typeof SURFACE_TYPES[number];
+
+/**
+ * Comportement d'un revêtement sous les roues et au contact du châssis
+ */
+export interface SurfaceProperties {
+    friction: number;               // Frottement du châssis sur le revêtement (ContactMaterial)
+    grip: number;                   // Multiplicateur d'adhérence des pneus (frictionSlip)
+    rollingResistance: number;      // Décélération en m/s² quand les quatre roues sont sur le revêtement
+}
+
+export const SURFACE_PROPERTIES: Record<SurfaceType, SurfaceProperties> = {
+    asphalt: { friction: 1.0, grip: 1.0, rollingResistance: 0 },
+    plastic: { friction: 0.9, grip: 1.05, rollingResistance: 0 },   // Piste orange
+    grass: { friction: 0.6, grip: 0.6, rollingResistance: 6 },
+    dirt: { friction: 0.7, grip: 0.75, rollingResistance: 3 },
+    ice: { friction: 0.05, grip: 0.2, rollingResistance: 0 },
+    sand: { friction: 0.8, grip: 0.55, rollingResistance: 9 }
+};
+
+// Revêtement des meshes du circuit dont le nom n'indique rien
+export const DEFAULT_SURFACE_TYPE: SurfaceType = 'asphalt';
+
+// Le sol sous le circuit est de l'herbe
+export const GROUND_SURFACE_TYPE: SurfaceType = 'grass';
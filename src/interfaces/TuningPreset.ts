@@ -0,0 +1,18 @@
+import { CarConfig } from './CarConfig';
+import { VehicleHandling } from './VehicleDefinition';
+
+export interface CameraTuning {
+    height: number;             // Hauteur de la caméra au-dessus de la voiture en m
+    distance: number;           // Distance derrière la voiture en m
+    smoothness: number;         // Lissage du suivi (0 à 1)
+    lookAtSmoothness: number;   // Lissage du point visé (0 à 1)
+}
+
+/**
+ * Préréglage du panneau de réglage, enregistré en JSON
+ */
+export interface TuningPreset {
+    performance: Omit<CarConfig, 'position'>;
+    handling: VehicleHandling;
+    camera: CameraTuning;
+}
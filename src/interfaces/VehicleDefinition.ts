@@ -0,0 +1,207 @@
+import { CarConfig } from './CarConfig';
+
+export interface VehicleVector {
+    x: number;
+    y: number;
+    z: number;
+}
+
+/**
+ * Boîte de collision du châssis (demi-dimensions en m, décalage depuis le centre du corps)
+ */
+export interface ChassisShape {
+    halfExtents: VehicleVector;
+    offset: VehicleVector;
+}
+
+/**
+ * Comportement physique d'une voiture
+ */
+export interface VehicleHandling {
+    chassis: {
+        mass: number;                   // kg
+        shapes: ChassisShape[];
+        friction: number;
+        restitution: number;
+    };
+    wheels: {
+        radius: number;                 // m
+        // Positions des roues (m, repère du châssis) ; sans elles, celles des roues du modèle sont utilisées
+        layout?: {
+            trackWidth: number;         // Écart entre roues gauche (-x) et droite (+x)
+            frontAxle: number;          // Position de l'essieu avant (négative : l'avant est vers -z)
+            rearAxle: number;           // Position de l'essieu arrière (positive)
+            height: number;
+        };
+    };
+    suspension: {
+        stiffness: number;
+        restLength: number;             // m
+        maxTravel: number;              // m
+        maxForce: number;               // N
+        dampingRelaxation: number;
+        dampingCompression: number;
+        frontRollInfluence: number;
+        rearRollInfluence: number;
+    };
+    tires: {
+        frontFriction: number;          // Adhérence (frictionSlip du RaycastVehicle)
+        rearFriction: number;
+        rearHandbrakeFriction: number;  // Adhérence arrière frein à main serré
+    };
+    engine: {
+        rearDriveRatio: number;         // Part de la force transmise aux roues arrière (0 à 1)
+        reverseRatio: number;           // Part de la force disponible en marche arrière
+        engineBrakeFactor: number;      // Frein moteur en N par m/s
+        handbrakeForce: number;         // Freinage des roues arrière au frein à main
+        maxSteer: number;               // Braquage maximum des roues avant en rad
+    };
+    nitro: {
+        duration: number;               // Durée d'une activation en s
+        cost: number;                   // Part de la jauge consommée par activation (0 à 1)
+        forceMultiplier: number;        // Force motrice ajoutée, en multiple de la force normale
+        speedBonus: number;             // Vitesse maximale ajoutée pendant le boost en m/s
+        driftFillRate: number;          // Jauge gagnée par seconde de drift
+        airFillRate: number;            // Jauge gagnée par seconde en l'air
+    };
+    drift: {
+        angleThreshold: number;         // Vitesse de lacet en rad/s au-delà de laquelle le frein à main fait drifter
+        initiationSpeed: number;        // Vitesse minimale du drift en m/s
+        steeringMultiplier: number;
+        momentumFactor: number;         // Perte d'adhérence arrière selon le glissement latéral
+        stabilityFactor: number;        // Couple de correction et amortissement angulaire en drift
+    };
+    dynamics: {
+        topSpeedFade: number;           // Part de la vitesse maximale sur laquelle la force moteur s'annule
+        reverseSpeedRatio: number;      // Vitesse maximale en marche arrière par rapport à la marche avant
+        brakeToReverseSpeed: number;    // En dessous de cette vitesse en m/s, le frein passe en marche arrière
+        engineBrakeRatio: number;       // Frein moteur maximum par rapport à la force motrice
+        turnResistanceFactor: number;   // Amortissement angulaire ajouté en virage
+        minSpeedForLateralResistance: number;
+        lateralResistanceFactor: number;
+        baseLinearDamping: number;
+        baseAngularDamping: number;
+    };
+    aerodynamics: {
+        downforceFactor: number;        // Appui en N par (m/s)²
+        airResistanceFactor: number;
+        groundEffectFactor: number;
+        liftFactor: number;
+        turbulenceFactor: number;
+        windResistance: number;         // Résistance au glissement latéral
+        windForceFactor: number;        // Poussée du vent météo en N par (m/s)²
+        speedThreshold: number;         // Vitesse en m/s à partir de laquelle les effets s'appliquent
+    };
+    response: {                         // Lissage des commandes, en unités de commande par seconde
+        returnSpeed: number;            // Vitesse de retour au centre (relâchement ou contre-braquage)
+        highSpeedSteering: number;      // Part du braquage conservée à la vitesse maximale
+        throttleRise: number;
+        throttleRelease: number;
+        brakeRise: number;
+        brakeRelease: number;
+    };
+}
+
+/**
+ * Voiture du garage : modèle glTF et comportement (fichier JSON dans public/cars)
+ */
+export interface VehicleDefinition {
+    id: string;
+    name: string;
+    description?: string;
+    model: string;                      // URL du modèle glTF
+    handling: VehicleHandling;
+    performance?: Partial<CarConfig>;   // Remplace les performances de la configuration de la scène
+}
+
+export const CAR_INDEX_URL = '/cars/index.json';
+
+// Réglages d'origine de la voiture
+export const DEFAULT_VEHICLE_HANDLING: VehicleHandling = {
+    chassis: {
+        mass: 800,
+        shapes: [
+            { halfExtents: { x: 0.68, y: 0.35, z: 1.55 }, offset: { x: 0, y: 0.2, z: 0 } },  // Caisse
+            { halfExtents: { x: 0.5, y: 0.2, z: 0.8 }, offset: { x: 0, y: 0.6, z: 0 } }      // Toit
+        ],
+        friction: 0.7,
+        restitution: 0.3
+    },
+    wheels: {
+        radius: 0.4
+    },
+    suspension: {
+        stiffness: 45,
+        restLength: 0.4,
+        maxTravel: 0.4,
+        maxForce: 150000,
+        dampingRelaxation: 3.0,
+        dampingCompression: 4.8,
+        frontRollInfluence: 0.08,
+        rearRollInfluence: 0.05
+    },
+    tires: {
+        frontFriction: 2.4,
+        rearFriction: 2,
+        rearHandbrakeFriction: 0.3
+    },
+    engine: {
+        rearDriveRatio: 0.7,
+        reverseRatio: 0.7,
+        engineBrakeFactor: 3,
+        handbrakeForce: 1400,
+        maxSteer: 0.5
+    },
+    nitro: {
+        duration: 3,
+        cost: 0.5,
+        forceMultiplier: 1,
+        speedBonus: 12,
+        driftFillRate: 0.15,
+        airFillRate: 0.4
+    },
+    drift: {
+        angleThreshold: 0.3,
+        initiationSpeed: 40,
+        steeringMultiplier: 1.1,
+        momentumFactor: 0.9,
+        stabilityFactor: 0.7
+    },
+    dynamics: {
+        topSpeedFade: 0.1,
+        reverseSpeedRatio: 0.3,
+        brakeToReverseSpeed: 1,
+        engineBrakeRatio: 0.3,
+        turnResistanceFactor: 0.015,
+        minSpeedForLateralResistance: 10,
+        lateralResistanceFactor: 0.02,
+        baseLinearDamping: 0.1,
+        baseAngularDamping: 0.5
+    },
+    aerodynamics: {
+        downforceFactor: 0.004,
+        airResistanceFactor: 0.00015,
+        groundEffectFactor: 0.002,
+        liftFactor: 0.00005,
+        turbulenceFactor: 0.00005,
+        windResistance: 0.0001,
+        windForceFactor: 6,
+        speedThreshold: 30
+    },
+    response: {
+        returnSpeed: 8,
+        highSpeedSteering: 0.6,
+        throttleRise: 4,
+        throttleRelease: 8,
+        brakeRise: 6,
+        brakeRelease: 10
+    }
+};
+
+// Voiture d'origine, utilisée si le catalogue ne peut pas être chargé
+export const DEFAULT_VEHICLE: VehicleDefinition = {
+    id: 'drifter',
+    name: 'Drifter',
+    model: '/models/car/car.glb',
+    handling: DEFAULT_VEHICLE_HANDLING
+};
@@ -0,0 +1,17 @@
+/**
+ * Commandes continues appliquées à la voiture, après lissage des entrées brutes
+ * (clavier, manette, IA ou réseau)
+ */
+export interface VehicleInput {
+    throttle: number;               // Accélérateur de 0 à 1
+    brake: number;                  // Frein / marche arrière de 0 à 1
+    steer: number;                  // Direction de -1 (gauche) à 1 (droite)
+    handbrake: boolean;
+}
+
+export const NEUTRAL_VEHICLE_INPUT: VehicleInput = {
+    throttle: 0,
+    brake: 0,
+    steer: 0,
+    handbrake: false
+};
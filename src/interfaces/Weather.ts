@@ -0,0 +1,77 @@
+import { SurfaceType } from './TrackSurface';
+
+export const WEATHER_TYPES = ['dry', 'rain', 'wet', 'fog', 'snow'] as const;
+
+export type WeatherType = typeof WEATHER_TYPES[number];
+
+/**
+ * Effet d'une météo sur la conduite et sur le rendu
+ */
+export interface WeatherPreset {
+    name: string;                               // Nom affiché dans les menus
+    grip: Record<SurfaceType, number>;          // Multiplicateur d'adhérence des pneus par revêtement
+    wind: { x: number, z: number };             // Vent dans le repère du monde en m/s
+    wetness: number;                            // Route mouillée de 0 à 1 (reflets des matériaux du circuit)
+    fog: { color: string, near: number, far: number } | null;   // Remplace le brouillard du circuit
+    precipitation: 'rain' | 'snow' | null;
+    precipitationDensity: number;               // Part des particules affichées de 0 à 1
+}
+
+export const WEATHER_PRESETS: Record<WeatherType, WeatherPreset> = {
+    dry: {
+        name: 'Sec',
+        grip: { asphalt: 1, plastic: 1, grass: 1, dirt: 1, ice: 1, sand: 1 },
+        wind: { x: 0, z: 0 },
+        wetness: 0,
+        fog: null,
+        precipitation: null,
+        precipitationDensity: 0
+    },
+    rain: {
+        name: 'Pluie',
+        grip: { asphalt: 0.7, plastic: 0.6, grass: 0.6, dirt: 0.65, ice: 1, sand: 0.95 },
+        wind: { x: 3, z: 1 },
+        wetness: 1,
+        fog: { color: '#8a9199', near: 40, far: 220 },
+        precipitation: 'rain',
+        precipitationDensity: 1
+    },
+    wet: {
+        name: 'Piste mouillée',
+        grip: { asphalt: 0.8, plastic: 0.72, grass: 0.7, dirt: 0.75, ice: 1, sand: 1 },
+        wind: { x: 1, z: 0 },
+        wetness: 0.7,
+        fog: null,
+        precipitation: null,
+        precipitationDensity: 0
+    },
+    fog: {
+        name: 'Brouillard',
+        grip: { asphalt: 0.95, plastic: 0.92, grass: 0.9, dirt: 0.95, ice: 1, sand: 1 },
+        wind: { x: 0, z: 0 },
+        wetness: 0.2,
+        fog: { color: '#c8ccd0', near: 5, far: 90 },
+        precipitation: null,
+        precipitationDensity: 0
+    },
+    snow: {
+        name: 'Neige',
+        grip: { asphalt: 0.5, plastic: 0.45, grass: 0.5, dirt: 0.55, ice: 0.9, sand: 0.7 },
+        wind: { x: -2, z: 2 },
+        wetness: 0.3,
+        fog: { color: '#e4e8ee', near: 20, far: 160 },
+        precipitation: 'snow',
+        precipitationDensity: 0.8
+    }
+};
+
+export const DEFAULT_WEATHER_TYPE: WeatherType = 'dry';
+
+/**
+ * Changement de météo prévu pendant la course (manifeste du circuit)
+ */
+export interface WeatherChange {
+    time: number;                   // Temps en s depuis la mise en grille
+    weather: WeatherType;
+    duration: number;               // Durée de la transition en s
+}
@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as THREE from 'three';
+import { Car } from '../src/classes/Car';
+import { PhysicsWorld } from '../src/classes/PhysicsWorld';
+import { ScriptedInputSource } from '../src/classes/ScriptedInputSource';
+import { DEFAULT_VEHICLE_HANDLING, VehicleHandling } from '../src/interfaces/VehicleDefinition';
+import { ReplayInputFrame } from '../src/interfaces/Replay';
+
+// Modèle minimal : quatre roues nommées comme dans les modèles glTF, toutes au centre
+// pour que seule la disposition de la définition place les roues
+function createModel(): THREE.Group {
+    const model = new THREE.Group();
+    ['wheel_front_left', 'wheel_front_right', 'wheel_back_left', 'wheel_back_right'].forEach((name) => {
+        const wheel = new THREE.Mesh(new THREE.CylinderGeometry(0.35, 0.35, 0.3, 8));
+        wheel.name = name;
+        model.add(wheel);
+    });
+    return model;
+}
+
+const LAYOUT_HANDLING: VehicleHandling = {
+    ...DEFAULT_VEHICLE_HANDLING,
+    wheels: {
+        ...DEFAULT_VEHICLE_HANDLING.wheels,
+        layout: { trackWidth: 1.6, frontAxle: -1.3, rearAxle: 1.3, height: 0 }
+    }
+};
+
+function createCar(frame: Partial<ReplayInputFrame>): { car: Car, input: ScriptedInputSource, world: PhysicsWorld } {
+    const world = new PhysicsWorld();
+    const input = new ScriptedInputSource(() => frame);
+    const car = new Car(createModel(), { position: { x: 0, y: 1, z: 0 } }, input, LAYOUT_HANDLING);
+    world.addCar(car);
+    return { car, input, world };
+}
+
+describe('Car avec une disposition des roues', () => {
+    it("place l'essieu avant vers -z et les roues gauches vers -x", () => {
+        const { car } = createCar({});
+        const wheels = car.getVehicle()!.wheelInfos.map(wheel => wheel.chassisConnectionPointLocal);
+
+        // Avant gauche, avant droite, arrière gauche, arrière droite
+        assert.deepEqual(wheels.map(point => [point.x, point.z]), [[-0.8, -1.3], [0.8, -1.3], [-0.8, 1.3], [0.8, 1.3]]);
+    });
+
+    it('tourne du côté demandé en braquant les roues avant', () => {
+        const { car, input, world } = createCar({ throttle: 1, steering: -1 });
+        for (let i = 0; i < 180; i++) {
+            input.update(i / 60);
+            car.update(1 / 60);
+            world.update(1 / 60);
+        }
+
+        const wheels = car.getVehicle()!.wheelInfos;
+        assert.ok(wheels[0].steering !== 0 && wheels[1].steering !== 0, 'roues avant braquées');
+        assert.equal(wheels[2].steering, 0);
+        assert.ok(car.getForwardSpeed() > 1, 'la voiture avance');
+        // Direction vers la gauche : rotation positive autour de +y
+        assert.ok(car.getBody()!.angularVelocity.y > 0, 'virage à gauche');
+    });
+});